@@ -1,59 +1,146 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { parseFile } from './utils/fileParser';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { parseFile, documentToText, ParseOptions, ocrLanguageFor } from './utils/fileParser';
+import { chunkDocument } from './utils/chunking';
+import { cleanDocument, CleanedDocument, CleaningReport } from './utils/textCleaning';
+import { createProvider, estimateTokens, LLMProvider } from './utils/llmProvider';
+import { createRequestScheduler, RequestScheduler } from './utils/scheduler';
+import { consolidateHierarchically, planConsolidation } from './utils/consolidation';
+import { computeJobId, getJob, saveJob, updateJob, listJobs, getChunkResults, saveChunkResult, deleteJob } from './utils/jobStore';
+import { queryHistory, getHistoryFacets, HistoryFacets, getUsageRecords, UsageRecord, getHistoryItem, getAllHistory, saveHistoryItem, saveHistoryItems, updateHistoryItem, deleteHistoryItem, countHistory, saveProcessedBook, getProcessedBook, migrateLegacyHistory, getStorageUsage, StorageUsage } from './utils/historyStore';
+import { isQuotaError } from './utils/db';
+import SettingsPanel from './components/SettingsPanel';
+import BookCard from './components/BookCard';
+import SourcePanel from './components/SourcePanel';
+import PresetPicker from './components/PresetPicker';
+import PromptEditor from './components/PromptEditor';
+import BatchQueue from './components/BatchQueue';
+import AskPanel from './components/AskPanel';
+import ExportMenu from './components/ExportMenu';
+import HistoryFilters from './components/HistoryFilters';
+import TagEditor from './components/TagEditor';
+import UsageDashboard from './components/UsageDashboard';
+import PreviewPanel, { describeCleaning, PreviewPrompts } from './components/PreviewPanel';
+import { loadPromptTemplates, savePromptTemplates, resolvePrompts } from './utils/promptTemplates';
+import { getLanguagePack, getLanguagePacks, isLanguage } from './languages';
+import { detectLanguage, declaredLanguage } from './utils/languageDetect';
+import { formatSourceMarker, tagWithSource, parseSourceMarkers, renderSourceLinks, getSourceRefFromTarget, stripSourceMarkers, resolvePartCitations } from './utils/citations';
+import { buildBookIndex, searchBookIndex, partExcerpt } from './utils/bookIndex';
+import { addPhaseUsage, countRunPrompts, describeUsage, formatCost, itemCost, sumUsage, toCounts, totalTokens, PromptTokenCounts } from './utils/usage';
+import { exportSummary, exportNotesVault, extractFlashcards, ExportDocument, ExportFormat } from './utils/exporters';
 import { 
   CHUNK_SIZE, 
-  MAX_CONCURRENT_REQUESTS,
-  GEMINI_MODEL,
-  UI_TEXT,
-  getPrompts
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  SECONDS_PER_CHAR,
+  CONSOLIDATION_GROUP_SIZE,
+  STREAM_RENDER_INTERVAL_MS,
+  STREAM_OUTPUT_RATIO,
+  MAX_REQUEST_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  DEFAULT_PROVIDER_SETTINGS,
+  DEFAULT_PRESET,
+  SUMMARY_PRESETS,
+  getPreset,
+  getSynthesisPrompts,
+  getAnswerPrompts,
+  QA_TOP_PARTS,
+  QA_PART_CHARS,
+  QA_WINDOW_CHARS,
+  QA_HISTORY_MESSAGES,
+  HISTORY_PAGE_SIZE,
+  TOKEN_COUNT_DELAY_MS,
+  DEFAULT_PRICE_TABLE,
+  DEFAULT_OCR_LANGUAGE
 } from './constants';
-import { LogEntry, ProcessingState, Language, HistoryItem, BackupFile } from './types';
+import { LogEntry, ProcessingState, Language, HistoryItem, BackupFile, SummaryJob, ProviderSettings, QueueTask, FailedPart, DocumentChunk, BookDocument, BookMetadata, SourceRef, SummaryPresetId, PromptTemplates, BatchItem, BatchItemStatus, ChatMessage, ProcessedBook, HistoryQuery, PhaseUsage, PriceTable } from './types';
 
 // Inject marked and DOMPurify from global scope
 declare const marked: any;
 declare const DOMPurify: any;
 
-// --- Helper for smart text splitting ---
-const smartSplitText = (text: string, maxSize: number): string[] => {
-  const chunks: string[] = [];
-  let startIndex = 0;
+const ocrLanguageOf = (lang: Language): string => getLanguagePack(lang).ocrLanguage || DEFAULT_OCR_LANGUAGE;
 
-  while (startIndex < text.length) {
-    // Ideally we want to cut at maxSize
-    let endIndex = Math.min(startIndex + maxSize, text.length);
+const readBook = (file: File, options: ParseOptions): Promise<CleanedDocument> => parseFile(file, options).then(cleanDocument);
 
-    // If we are not at the very end of text, try to find a sentence boundary
-    if (endIndex < text.length) {
-      // Look back up to 5% of chunk size or max 5000 chars to find punctuation
-      const lookback = Math.min(5000, Math.floor(maxSize * 0.05));
-      const searchBuffer = text.slice(endIndex - lookback, endIndex);
-      
-      // Find last occurrence of punctuation followed by space or newline
-      // We look for: . ! ? or \n
-      const lastPeriod = searchBuffer.lastIndexOf('.');
-      const lastExcl = searchBuffer.lastIndexOf('!');
-      const lastQ = searchBuffer.lastIndexOf('?');
-      const lastNewline = searchBuffer.lastIndexOf('\n');
-
-      const bestSplitRelative = Math.max(lastPeriod, lastExcl, lastQ, lastNewline);
-
-      if (bestSplitRelative !== -1) {
-        // If we found a split point, adjust endIndex
-        // +1 because we want to include the punctuation mark in the current chunk
-        endIndex = (endIndex - lookback) + bestSplitRelative + 1;
-      }
-    }
+// Parts made only of pages marked by cleanDocument; they start out excluded
+const matterParts = (chunks: DocumentChunk[]): number[] =>
+  chunks.map((chunk, idx) => chunk.matter ? idx : -1).filter(idx => idx >= 0);
 
-    const chunk = text.slice(startIndex, endIndex).trim();
-    if (chunk.length > 0) {
-      chunks.push(chunk);
-    }
-    
-    startIndex = endIndex;
-  }
-  
-  return chunks;
+// Label shown to the model for a chunk, e.g. "CONTENT PART 3 (CHAPTERS: Chapter 5; Chapter 6)"
+const chunkLabel = (idx: number, chunk: DocumentChunk): string => {
+  return `CONTENT PART ${idx + 1}${chunk.titles.length > 0 ? ` (CHAPTERS: ${chunk.titles.join('; ')})` : ''}`;
+};
+
+// Prompts as sent in each phase; the preview shows and counts the same text
+const extractPromptOf = (instruction: string, idx: number, chunk: DocumentChunk): string => {
+  return `${instruction}\n\n${chunkLabel(idx, chunk)}:\n${chunk.text}`;
+};
+
+const consolidatePromptOf = (instruction: string, drafts: string): string => {
+  return `${instruction}\n\nEXTRACTED DRAFTS:\n${drafts}`;
+};
+
+const polishPromptOf = (instruction: string, text: string): string => {
+  return `${instruction}\n\nTEXT TO POLISH:\n${text}`;
+};
+
+// Everything a finished run needs to retry parts or rebuild the summary later
+interface PipelineRun {
+  file: File;
+  jobId: string;
+  // Output language of the summary
+  language: Language;
+  // Detected language of the book, null when detection was inconclusive
+  sourceLanguage: Language | null;
+  preset: SummaryPresetId;
+  // Snapshot taken at start, so editing prompts does not change a running analysis
+  templates: PromptTemplates;
+  metadata: BookMetadata;
+  chunks: DocumentChunk[];
+  extractedSummaries: string[];
+  // Tokens spent on this book so far, including earlier sessions of a resumed job
+  usage: PhaseUsage;
+  llm: LLMProvider;
+  // Replaced on every retry/rebuild, since a cancelled scheduler cannot be reused
+  scheduler: RequestScheduler;
+  abortController: AbortController;
+  historyId?: string;
+}
+
+// Result of the preview step for the selected file
+interface BookPreview {
+  file: File;
+  document: BookDocument;
+  cleaning: CleaningReport;
+  sourceLanguage: Language | null;
+  chunkSize: number;
+  chunks: DocumentChunk[];
+  // Indexes into chunks of the parts left out of the run
+  excluded: number[];
+  // Null while counting
+  tokenCounts: PromptTokenCounts | null;
+}
+
+// What pause/cancel and streaming need; a cross-book synthesis has only these
+type RunControls = Pick<PipelineRun, 'llm' | 'scheduler' | 'abortController'>;
+
+// How a single book's analysis ended, used by the batch queue
+interface PipelineOutcome {
+  status: Extract<BatchItemStatus, 'done' | 'failed' | 'cancelled'>;
+  historyId?: string;
+  error?: string;
+}
+
+// Formats accepted by the file picker; folder uploads are filtered by the same list
+const SUPPORTED_EXTENSIONS = ['.zip', '.epub', '.pdf', '.fb2', '.xml', '.txt', '.md'];
+
+const isSupportedFile = (f: File) => SUPPORTED_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext));
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
 };
 
 // --- Custom Components ---
@@ -62,10 +149,14 @@ const smartSplitText = (text: string, maxSize: number): string[] => {
 // Strictly styled to match the width and curvature of the button.
 const LanguageDropdown = ({ 
     current, 
-    onChange 
+    onChange,
+    title,
+    icon
 }: { 
     current: Language, 
-    onChange: (l: Language) => void 
+    onChange: (l: Language) => void,
+    title?: string,
+    icon?: React.ReactNode
 }) => {
     const [isOpen, setIsOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
@@ -81,7 +172,6 @@ const LanguageDropdown = ({
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
-    const languages: Language[] = ['RU', 'EN', 'ES', 'DE', 'FR'];
 
     // Shared width class for perfect alignment - increased for larger text
     const widthClass = "w-[105px]"; 
@@ -92,8 +182,10 @@ const LanguageDropdown = ({
             <div className={`bg-[#212121] p-1 rounded-full border border-white/20 h-full flex items-center ${widthClass}`}>
                 <button 
                     onClick={() => setIsOpen(!isOpen)}
+                    title={title}
                     className={`w-full h-full flex items-center justify-center gap-2 text-base md:text-sm font-semibold rounded-full transition-all ${isOpen ? 'bg-[#2f2f2f] text-white' : 'text-gray-300 hover:text-white'}`}
                 >
+                    {icon}
                     <span>{current}</span>
                     <svg 
                         className={`w-3 h-3 transition-transform duration-200 ${isOpen ? 'rotate-180 text-white' : 'text-gray-400'}`} 
@@ -108,10 +200,11 @@ const LanguageDropdown = ({
 
             {/* Dropdown List - Increased border opacity to 20% */}
             {isOpen && (
-                <div className={`absolute top-full right-0 mt-2 ${widthClass} bg-[#212121] border border-white/20 rounded-[24px] shadow-xl overflow-hidden z-50 flex flex-col p-1 animate-fade-in origin-top-right`}>
-                    {languages.map((lang) => (
+                <div className={`absolute top-full right-0 mt-2 ${widthClass} bg-[#212121] border border-white/20 rounded-[24px] shadow-xl max-h-[60vh] overflow-y-auto z-50 flex flex-col p-1 animate-fade-in origin-top-right`}>
+                    {getLanguagePacks().map(({ code: lang, nativeName }) => (
                         <button
                             key={lang}
+                            title={nativeName}
                             onClick={() => {
                                 onChange(lang);
                                 setIsOpen(false);
@@ -127,34 +220,152 @@ const LanguageDropdown = ({
     );
 };
 
+// 2. Live view of the request scheduler queue
+const QUEUE_STATUS_STYLES: Record<QueueTask['status'], string> = {
+    queued: 'bg-[#2f2f2f] text-gray-500 border-white/5',
+    waiting: 'bg-[#2f2f2f] text-gray-300 border-white/20',
+    running: 'bg-[#10a37f]/20 text-[#10a37f] border-[#10a37f]/40 animate-pulse',
+    retrying: 'bg-amber-400/10 text-amber-400 border-amber-400/40',
+    done: 'bg-[#10a37f] text-white border-transparent',
+    failed: 'bg-red-500/20 text-red-400 border-red-400/40'
+};
+
+const QueueView = ({ tasks, T }: { tasks: QueueTask[], T: any }) => {
+    const count = (status: QueueTask['status']) => tasks.filter(t => t.status === status).length;
+
+    return (
+        <div className="mb-4 bg-[#1a1a1a] border border-white/5 rounded-xl p-3">
+            <div className="flex flex-wrap justify-between gap-2 text-[10px] uppercase tracking-wider text-gray-500 mb-2">
+                <span>{T.queue}</span>
+                <span className="font-mono">
+                    {count('running')} {T.queueRunning} · {count('queued') + count('waiting')} {T.queueWaiting} · {count('retrying')} {T.queueRetrying} · {count('done')} {T.queueDone}{count('failed') > 0 && ` · ${count('failed')} ${T.queueFailed}`}
+                </span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+                {tasks.map(task => (
+                    <span
+                        key={task.id}
+                        title={[
+                            `${task.label}: ${task.status}`,
+                            task.attempts > 1 ? `attempts: ${task.attempts}` : '',
+                            task.nextAttemptAt ? `next: ${new Date(task.nextAttemptAt).toLocaleTimeString()}` : '',
+                            task.error || ''
+                        ].filter(Boolean).join('\n')}
+                        className={`px-1.5 py-0.5 rounded-md border text-[10px] font-mono ${QUEUE_STATUS_STYLES[task.status]}`}
+                    >
+                        {task.label}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 const App = () => {
   // Config State
+  // Interface language; the summary is written in outputLanguage
   const [language, setLanguage] = useState<Language>('RU');
-  const languageRef = useRef<Language>('RU');
+  const [outputLanguage, setOutputLanguage] = useState<Language>('RU');
+  const outputLanguageRef = useRef<Language>('RU');
+  const [sourceLanguage, setSourceLanguage] = useState<Language | null>(null);
+  // Language of scanned PDF pages when the PDF does not declare one; only used for OCR
+  const [bookLanguage, setBookLanguage] = useState<Language>('EN');
+  const bookLanguageRef = useRef<Language>('EN');
+  // Pages without a text layer in the selected PDF
+  const [scannedPages, setScannedPages] = useState(0);
+  const [preset, setPreset] = useState<SummaryPresetId>(DEFAULT_PRESET);
+  const presetRef = useRef<SummaryPresetId>(DEFAULT_PRESET);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplates>(() => loadPromptTemplates());
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
   
   // App State
   const [activeTab, setActiveTab] = useState<'analyze' | 'history'>('analyze');
   const [file, setFile] = useState<File | null>(null);
   const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [queueTasks, setQueueTasks] = useState<QueueTask[]>([]);
   const [finalSummary, setFinalSummary] = useState<string>("");
   const [progress, setProgress] = useState(0);
   const [currentStatusMsg, setCurrentStatusMsg] = useState<string>("");
 
   const currentDraftRef = useRef<string>("");
+  const runRef = useRef<PipelineRun | null>(null);
+  const synthesisRef = useRef<RunControls | null>(null);
+  const [failedParts, setFailedParts] = useState<FailedPart[]>([]);
+  const [missingParts, setMissingParts] = useState<number[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [bookMetadata, setBookMetadata] = useState<BookMetadata | null>(null);
+  // Parsing starts as soon as a file is picked so the card can show cover/title; processBook reuses it
+  const parsedRef = useRef<{ file: File; promise: Promise<CleanedDocument> } | null>(null);
+  // OCR of the selected file, stopped when another file is picked
+  const ocrAbortRef = useRef<AbortController>(new AbortController());
+  const [historyQuery, setHistoryQuery] = useState<HistoryQuery>({ search: "", sort: 'date-desc' });
+  const [historyFacets, setHistoryFacets] = useState<HistoryFacets>({ languages: [], models: [], tags: [] });
+  const [selectedHistoryIds, setSelectedHistoryIds] = useState<string[]>([]);
+  // Parts of the book behind the current summary, for opening source references and answering questions
+  const [sourceChunks, setSourceChunks] = useState<DocumentChunk[] | null>(null);
+  const [openSourceRef, setOpenSourceRef] = useState<SourceRef | null>(null);
+  // History item shown in the result area; the Ask panel saves its conversation there
+  const [activeHistoryItem, setActiveHistoryItem] = useState<HistoryItem | null>(null);
+  const [isAnswering, setIsAnswering] = useState(false);
+  // The question being answered; aborted when another item is shown or the conversation is cleared
+  const askAbortRef = useRef<AbortController | null>(null);
+  const [askError, setAskError] = useState("");
+  const [liveOutput, setLiveOutput] = useState<{ label: string; text: string; tokens: number } | null>(null);
+  // Loaded pages of history matching the search; the full list stays in IndexedDB
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyCount, setHistoryCount] = useState(0);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState("");
+  const [pendingJobs, setPendingJobs] = useState<SummaryJob[]>([]);
+  // Books waiting for or done with analysis; the ref is read by the queue loop between books
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const batchRef = useRef<BatchItem[]>([]);
+  const [batchState, setBatchState] = useState<'idle' | 'running' | 'paused'>('idle');
+  const batchRunningRef = useRef(false);
+  const batchPausedRef = useRef(false);
+  const activeBatchIdRef = useRef<string | null>(null);
+  // The queue loop outlives renders, so it always calls the latest processBook
+  const processBookRef = useRef<(f: File) => Promise<PipelineOutcome | undefined>>(async () => undefined);
+  // Resolved once pending state updates are committed, i.e. processBookRef belongs to that render
+  const commitWaitersRef = useRef<(() => void)[]>([]);
+  const [commitTick, setCommitTick] = useState(0);
   
   // --- Timer Stats ---
   const [startTime, setStartTime] = useState<number | null>(null);
+  // Mirrors startTime for callbacks that outlive the render they were created in
+  const startTimeRef = useRef<number | null>(null);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   // estimatedTotalDuration represents the predicted Total time from start to finish
   const [estimatedTotalDuration, setEstimatedTotalDuration] = useState<number | null>(null);
   const [sessionTokens, setSessionTokens] = useState<number>(0);
+  const [priceTable, setPriceTable] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[] | null>(null);
+  const [chunkSize, setChunkSize] = useState(CHUNK_SIZE);
+  const chunkSizeRef = useRef(CHUNK_SIZE);
+  const [preview, setPreview] = useState<BookPreview | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isPreparingPreview, setIsPreparingPreview] = useState(false);
   
   const logEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const T = UI_TEXT[language];
+  const T = getLanguagePack(language).ui;
+
+  // Built once per book, from the parts of the current run or those stored with the history entry
+  const bookIndex = useMemo(() => sourceChunks ? buildBookIndex(sourceChunks) : null, [sourceChunks]);
+
+  // Questions share one scheduler with the provider's limits, so they queue and retry on 429/503 like a run
+  const askScheduler = useMemo(() => createRequestScheduler({
+    concurrency: 1,
+    requestsPerMinute: providerSettings.requestsPerMinute,
+    tokensPerMinute: providerSettings.tokensPerMinute,
+    maxRetries: MAX_REQUEST_RETRIES,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS
+  }), [providerSettings.requestsPerMinute, providerSettings.tokensPerMinute]);
 
   const isInteractionEnabled = processingState === ProcessingState.IDLE || 
                                processingState === ProcessingState.COMPLETED || 
@@ -164,31 +375,135 @@ const App = () => {
 
   useEffect(() => {
     const storedLang = localStorage.getItem("app_language");
-    if (storedLang && ['EN','RU','ES','DE','FR'].includes(storedLang)) {
-      setLanguage(storedLang as Language);
-      languageRef.current = storedLang as Language;
+    if (storedLang && isLanguage(storedLang)) {
+      setLanguage(storedLang);
+    }
+    // Before the selectors were split, the interface language was also the output language
+    const storedOutput = localStorage.getItem("output_language") || storedLang;
+    if (storedOutput && isLanguage(storedOutput)) {
+      setOutputLanguage(storedOutput);
+      outputLanguageRef.current = storedOutput;
+    }
+    const storedBookLanguage = localStorage.getItem("book_language");
+    if (storedBookLanguage && isLanguage(storedBookLanguage)) {
+      setBookLanguage(storedBookLanguage);
+      bookLanguageRef.current = storedBookLanguage;
+    }
+    const storedPreset = localStorage.getItem("summary_preset");
+    if (storedPreset && SUMMARY_PRESETS.some(p => p.id === storedPreset)) {
+      setPreset(storedPreset as SummaryPresetId);
+      presetRef.current = storedPreset as SummaryPresetId;
     }
     try {
-      const storedHistory = localStorage.getItem("summary_history");
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
+      const storedSettings = localStorage.getItem("provider_settings");
+      if (storedSettings) {
+        setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(storedSettings) });
       }
     } catch (e) {
-      console.error("Failed to load history", e);
+      console.error("Failed to load provider settings", e);
+    }
+    const storedChunkSize = Number(localStorage.getItem("chunk_size"));
+    if (storedChunkSize >= MIN_CHUNK_SIZE && storedChunkSize <= MAX_CHUNK_SIZE) {
+      setChunkSize(storedChunkSize);
+      chunkSizeRef.current = storedChunkSize;
+    }
+    try {
+      const storedPrices = localStorage.getItem("price_table");
+      if (storedPrices) setPriceTable(JSON.parse(storedPrices));
+    } catch (e) {
+      console.error("Failed to load price table", e);
     }
+    migrateLegacyHistory()
+      .then(moved => { if (moved > 0) console.info(`Moved ${moved} history item(s) from localStorage to IndexedDB`); })
+      .catch(handleStorageError)
+      .finally(() => loadHistory(true));
+    refreshPendingJobs();
   }, []);
 
+  // The search runs in the store, so a new query starts again from the first page
+  useEffect(() => {
+    loadHistory(true);
+  }, [historyQuery]);
+
+  // Token counts of the preview follow the chunks and every setting that changes the prompts.
+  // Counting waits until edits settle and runs under the provider's limits.
+  useEffect(() => {
+    if (!preview || !showPreview) return;
+    let cancelled = false;
+    const target = preview;
+    setPreview(prev => prev && prev.chunks === target.chunks ? { ...prev, tokenCounts: null } : prev);
+    const scheduler = createRequestScheduler({
+      concurrency: providerSettings.concurrency,
+      requestsPerMinute: providerSettings.requestsPerMinute,
+      tokensPerMinute: providerSettings.tokensPerMinute,
+      maxRetries: MAX_REQUEST_RETRIES,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS
+    });
+    const timer = setTimeout(() => {
+      const final = previewPromptsFor(target, 1, 1);
+      countRunPrompts(
+        createProvider(providerSettings),
+        scheduler,
+        target.chunks.map((chunk, idx) => extractPromptOf(previewPromptsFor(target, target.chunks.length, idx + 1).extract, idx, chunk)),
+        final.systemInstruction,
+        consolidatePromptOf(final.consolidate, ''),
+        polishPromptOf(final.polish, '')
+      )
+        .then(tokenCounts => {
+          if (!cancelled) setPreview(prev => prev && prev.chunks === target.chunks ? { ...prev, tokenCounts } : prev);
+        })
+        .catch(e => {
+          if (cancelled) return;
+          console.error(e);
+          addLog(`${T.error}: ${e?.message || e}`, 'error');
+        });
+    }, TOKEN_COUNT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      scheduler.cancel();
+    };
+  }, [preview?.chunks, showPreview, preset, outputLanguage, promptTemplates, providerSettings]);
+
+  // An entry opened from History brings back the parts stored with it, so sources and questions work after a reload
   useEffect(() => {
-    localStorage.setItem("summary_history", JSON.stringify(history));
-  }, [history]);
+    const id = activeHistoryItem?.id;
+    if (!id || sourceChunks) return;
+    let cancelled = false;
+    getProcessedBook(id)
+      .then(processed => {
+        if (!cancelled && processed?.chunks) setSourceChunks(processed.chunks);
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [activeHistoryItem?.id, sourceChunks]);
+
+  // A pending answer belongs to the item it was asked about
+  useEffect(() => () => askAbortRef.current?.abort(), [activeHistoryItem?.id]);
 
   useEffect(() => {
     logEndRef.current?.scrollIntoView({ behavior: "auto" });
   }, [logs]);
 
   useEffect(() => {
-    languageRef.current = language;
-  }, [language]);
+    outputLanguageRef.current = outputLanguage;
+  }, [outputLanguage]);
+
+  useEffect(() => {
+    presetRef.current = preset;
+  }, [preset]);
+
+  useEffect(() => {
+    startTimeRef.current = startTime;
+  }, [startTime]);
+
+  // The book being processed by the queue keeps its own copy of the log and progress
+  useEffect(() => {
+    const id = activeBatchIdRef.current;
+    if (!id) return;
+    updateBatch(items => items.map(item => item.id === id ? { ...item, logs, progress } : item));
+  }, [logs, progress]);
 
   // --- Timer Tick ---
   useEffect(() => {
@@ -213,6 +528,124 @@ const App = () => {
     localStorage.setItem("app_language", lang);
   };
 
+  const handleOutputLanguageChange = (lang: Language) => {
+    setOutputLanguage(lang);
+    localStorage.setItem("output_language", lang);
+  };
+
+  const handleBookLanguageChange = (lang: Language) => {
+    setBookLanguage(lang);
+    bookLanguageRef.current = lang;
+    localStorage.setItem("book_language", lang);
+  };
+
+  const handlePromptTemplatesChange = (templates: PromptTemplates) => {
+    setPromptTemplates(templates);
+    savePromptTemplates(templates);
+  };
+
+  // Values for {{variables}} in prompt templates
+  const bookTitleOf = (run: PipelineRun) => run.metadata.title || run.file.name;
+
+  const handlePresetChange = (id: SummaryPresetId) => {
+    setPreset(id);
+    localStorage.setItem("summary_preset", id);
+  };
+
+  const refreshPendingJobs = () => {
+    listJobs()
+      .then(setPendingJobs)
+      .catch(e => console.error("Failed to load saved jobs", e));
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    localStorage.setItem("provider_settings", JSON.stringify(settings));
+  };
+
+  const handlePriceTableChange = (table: PriceTable) => {
+    setPriceTable(table);
+    localStorage.setItem("price_table", JSON.stringify(table));
+  };
+
+  // Prompts the run would send for one part of the preview, with the settings currently selected
+  const previewPromptsFor = (target: BookPreview, partCount: number, partIndex: number) => resolvePrompts(outputLanguage, preset, promptTemplates, {
+    partIndex,
+    partCount,
+    bookTitle: target.document.metadata.title || target.file.name
+  }, target.sourceLanguage || undefined);
+
+  const buildPreviewPrompts = (idx: number): PreviewPrompts => {
+    if (!preview) return { system: '', extract: '', consolidate: '', polish: '' };
+    const part = previewPromptsFor(preview, preview.chunks.length, idx + 1);
+    const final = previewPromptsFor(preview, 1, 1);
+    return {
+      system: part.systemInstruction,
+      extract: extractPromptOf(part.extract, idx, preview.chunks[idx]),
+      consolidate: consolidatePromptOf(final.consolidate, `[${T.step1}]`),
+      polish: polishPromptOf(final.polish, `[${T.step2}]`)
+    };
+  };
+
+  // Parses and splits the selected file exactly as processBook will; nothing is sent to the model
+  const handleOpenPreview = async () => {
+    if (!(file instanceof File)) return;
+    const target = file;
+    if (preview?.file === target) {
+      setShowPreview(true);
+      return;
+    }
+    setIsPreparingPreview(true);
+    try {
+      const { document: bookDocument, report } = await loadBook(target);
+      const text = documentToText(bookDocument);
+      const chunks = chunkDocument(bookDocument, chunkSizeRef.current);
+      setPreview({
+        file: target,
+        document: bookDocument,
+        cleaning: report,
+        sourceLanguage: detectLanguage(text, bookDocument.metadata.language),
+        chunkSize: chunkSizeRef.current,
+        chunks,
+        excluded: matterParts(chunks),
+        tokenCounts: null
+      });
+      setShowPreview(true);
+    } catch (e: any) {
+      console.error(e);
+      addLog(`${T.error}: ${e?.message || e}`, 'error');
+    } finally {
+      setIsPreparingPreview(false);
+    }
+  };
+
+  const handleChunkSizeChange = (size: number) => {
+    setChunkSize(size);
+    chunkSizeRef.current = size;
+    localStorage.setItem("chunk_size", String(size));
+    // Part numbers change with the size, so earlier exclusions no longer apply
+    setPreview(prev => {
+      if (!prev) return prev;
+      const chunks = chunkDocument(prev.document, size);
+      return { ...prev, chunkSize: size, chunks, excluded: matterParts(chunks), tokenCounts: null };
+    });
+  };
+
+  const handleTogglePreviewChunk = (idx: number) => {
+    setPreview(prev => prev && {
+      ...prev,
+      excluded: prev.excluded.includes(idx) ? prev.excluded.filter(i => i !== idx) : [...prev.excluded, idx].sort((a, b) => a - b)
+    });
+  };
+
+  const handleToggleUsage = () => {
+    if (usageRecords) {
+      setUsageRecords(null);
+      return;
+    }
+    getUsageRecords().then(setUsageRecords).catch(handleStorageError);
+  };
+
   const addLog = (message: string, type: LogEntry['type'] = 'info') => {
     setLogs(prev => [...prev, {
       id: Math.random().toString(36).substring(7),
@@ -231,29 +664,423 @@ const App = () => {
 
   // --- Core Processing Logic ---
 
+  // Scanned PDF pages are read with OCR in the language the PDF declares, otherwise in the book language
+  const parseOptions = (ocr: boolean): ParseOptions => ({
+    ocr,
+    signal: ocrAbortRef.current.signal,
+    ocrLanguage: ocrLanguageOf(bookLanguageRef.current),
+    onOcrProgress: (done, total, ocrLanguage) => {
+      if (done === 0) {
+        addLog(`${T.ocrStarted}: ${total} (${ocrLanguage})`, 'warning');
+        return;
+      }
+      setCurrentStatusMsg(`${T.ocrPage} ${done}/${total}`);
+      addLog(`${T.ocrPage} ${done}/${total}`);
+    }
+  });
+
+  // Reuses the parse started on file selection. Its scanned pages are read here, when the preview
+  // or the run needs the text, and read again if the book language changed since.
+  const loadBook = async (target: File): Promise<CleanedDocument> => {
+    const parsed = parsedRef.current?.file === target ? await parsedRef.current.promise : null;
+    const ocrLanguage = parsed && ocrLanguageFor(parsed.document.metadata.language, ocrLanguageOf(bookLanguageRef.current));
+    if (parsed && (!parsed.document.scannedPages || parsed.document.ocrLanguage === ocrLanguage)) return parsed;
+    const promise = readBook(target, parseOptions(true));
+    if (parsed) parsedRef.current = { file: target, promise };
+    return promise;
+  };
+
+  // Reads the text layer only; OCR waits for the preview or the run
+  const preparseFile = (selected: File) => {
+    ocrAbortRef.current.abort();
+    ocrAbortRef.current = new AbortController();
+    const promise = readBook(selected, parseOptions(false));
+    parsedRef.current = { file: selected, promise };
+    setBookMetadata(null);
+    setSourceLanguage(null);
+    setScannedPages(0);
+    promise
+      .then(({ document: doc }) => {
+        if (parsedRef.current?.file !== selected) return;
+        setBookMetadata(doc.metadata);
+        setScannedPages(doc.scannedPages || 0);
+        setSourceLanguage(detectLanguage(documentToText(doc), doc.metadata.language));
+      })
+      // Errors are reported when the analysis awaits the same promise
+      .catch(() => {});
+  };
+
+  const selectFile = (selected: File) => {
+    setFile(selected);
+    preparseFile(selected);
+    setPreview(null);
+    setShowPreview(false);
+    setSourceChunks(null);
+    setActiveHistoryItem(null);
+    setAskError("");
+    setFinalSummary("");
+    setLogs([]);
+    setQueueTasks([]);
+    setFailedParts([]);
+    setMissingParts([]);
+    runRef.current = null;
+    setProcessingState(ProcessingState.IDLE);
+    setProgress(0);
+    setStartTime(null);
+    setElapsedSeconds(0);
+    setEstimatedTotalDuration(null);
+    setCurrentStatusMsg("");
+    currentDraftRef.current = "";
+  };
+
+  // A single file is opened as before; several files or a folder go to the batch queue
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
-      setFinalSummary("");
-      setLogs([]);
-      setProcessingState(ProcessingState.IDLE);
-      setProgress(0);
-      setStartTime(null);
-      setElapsedSeconds(0);
-      setEstimatedTotalDuration(null);
-      setCurrentStatusMsg("");
-      currentDraftRef.current = ""; 
+    const selected = Array.from<File>(e.target.files || []).filter(isSupportedFile);
+    e.target.value = '';
+    if (selected.length === 1 && e.target.id === 'fileInput' && batchState !== 'running') {
+      selectFile(selected[0]);
+    } else if (selected.length > 0) {
+      addToBatch(selected);
     }
   };
 
-  const processBook = async () => {
-    if (!file) return;
+  // Schedules one Phase 1 extraction. Resolves once the part is stored, throws after the last retry.
+  const extractPart = async (run: PipelineRun, idx: number): Promise<void> => {
+    const totalChunks = run.chunks.length;
+    const prompts = resolvePrompts(run.language, run.preset, run.templates, {
+      partIndex: idx + 1,
+      partCount: totalChunks,
+      bookTitle: bookTitleOf(run)
+    }, run.sourceLanguage || undefined);
+    const prompt = extractPromptOf(prompts.extract, idx, run.chunks[idx]);
+    let attempt = 0;
+
+    try {
+      const response = await run.scheduler.run(`#${idx + 1}`, estimateTokens(prompt), async () => {
+        attempt++;
+        const chunkStartTime = Date.now();
+        addLog(`[${T.step1}] Analyzing part ${idx + 1}/${totalChunks}${attempt > 1 ? ` (attempt ${attempt})` : ''}...`);
+        try {
+          const result = await run.llm.generate({ prompt, systemInstruction: prompts.systemInstruction, signal: run.abortController.signal });
+          return { ...result, duration: ((Date.now() - chunkStartTime) / 1000).toFixed(1) };
+        } catch (err: any) {
+          if (!run.abortController.signal.aborted) addLog(`[${T.error}] Part ${idx + 1}: ${err.message}`, 'warning');
+          throw err;
+        }
+      });
+
+      const outputText = response.text;
+      run.usage = addPhaseUsage(run.usage, 'extract', response.usage);
+      setSessionTokens(prev => prev + response.usage.totalTokens);
+
+      if (!outputText.trim()) throw new Error("Model returned an empty response.");
+
+      addLog(`[${T.step1}] Part ${idx + 1} extracted (${response.duration}s). Length: ${outputText.length}.`, 'success');
+      run.extractedSummaries[idx] = outputText;
+      await saveChunkResult(run.jobId, idx, outputText, toCounts(response.usage));
+    } catch (err: any) {
+      if (run.abortController.signal.aborted) throw err;
+      console.error(err);
+      addLog(`[${T.error}] Part ${idx + 1} failed after ${attempt} attempt(s): ${err.message}`, 'error');
+      throw err;
+    }
+  };
+
+  // Runs extraction for the given parts and records which ones are still failing
+  const extractParts = async (run: PipelineRun, indexes: number[], onPartDone?: () => void): Promise<FailedPart[]> => {
+    const failures: FailedPart[] = [];
+
+    // All chunks are queued at once; the scheduler decides how many run in parallel
+    await Promise.all(indexes.map(async (idx) => {
+      try {
+        await extractPart(run, idx);
+      } catch (err: any) {
+        failures.push({ index: idx, error: err.message || String(err) });
+      }
+      currentDraftRef.current = run.extractedSummaries.filter(s => s.trim().length > 0).join("\n\n");
+      onPartDone?.();
+    }));
+
+    // Cancelled parts are not failures; stop the pipeline instead of summarizing without them
+    if (run.abortController.signal.aborted) throw new DOMException('Cancelled by user', 'AbortError');
+
+    return failures.sort((a, b) => a.index - b.index);
+  };
+
+  // Streams a Phase 2/3 call. When `show` is set the text is rendered live in the result panel
+  // and the remaining-time estimate follows the actual output rate.
+  const streamStage = async (
+    run: RunControls,
+    label: string,
+    prompt: string,
+    systemInstruction: string,
+    show: boolean,
+    expectedChars: number,
+    remainingAfterChars: number
+  ) => {
+    const streamStart = Date.now();
+    let lastUpdate = 0;
+
+    const publish = (text: string, final: boolean) => {
+      const now = Date.now();
+      // Re-rendering markdown for every token is too slow on large outputs
+      if (!final && now - lastUpdate < STREAM_RENDER_INTERVAL_MS) return;
+      lastUpdate = now;
+      setLiveOutput({ label, text, tokens: estimateTokens(text) });
+
+      const seconds = (now - streamStart) / 1000;
+      if (seconds > 2 && text.length > 0) {
+        const charsPerSecond = text.length / seconds;
+        const remainingChars = Math.max(0, expectedChars - text.length) + remainingAfterChars;
+        setEstimatedTotalDuration(Math.ceil((now - (startTimeRef.current || now)) / 1000 + remainingChars / charsPerSecond));
+      }
+    };
+
+    return run.scheduler.run(label, estimateTokens(prompt), async () => {
+      const result = await run.llm.generateStream(
+        { prompt, systemInstruction, signal: run.abortController.signal },
+        text => { if (show) publish(text, false); }
+      );
+      if (show) publish(result.text, true);
+      return result;
+    });
+  };
+
+  // Phases 2 and 3. Reuses cached results from the saved job when nothing was re-extracted.
+  const finishSummary = async (run: PipelineRun, useCache: boolean) => {
+    const job = useCache ? await getJob(run.jobId) : undefined;
+    if (!useCache) await updateJob(run.jobId, { consolidatedText: undefined, polishedText: undefined });
+
+    const combinedDraft = currentDraftRef.current;
+    
+    if (combinedDraft.length === 0) throw new Error("Failed to extract any text.");
+
+    const missing = run.extractedSummaries
+      .map((text, idx) => (text.trim().length > 0 ? -1 : idx + 1))
+      .filter(n => n > 0);
+
+    setProcessingState(ProcessingState.POLISHING);
+    setCurrentStatusMsg(T.statusThinking);
+    
+    let consolidatedText = job?.consolidatedText || "";
+
+    if (consolidatedText) {
+      addLog(`[${T.step2}] Restored from saved job.`, 'success');
+    } else {
+      // Each draft keeps its part/chapter label so the merged summary can follow the book's structure,
+      // and every statement carries a source marker pointing back to its chunk
+      const drafts = run.extractedSummaries
+        .map((text, idx) => (text.trim().length > 0
+          ? `[${chunkLabel(idx, run.chunks[idx])}]\n${tagWithSource(text, formatSourceMarker(idx, run.chunks[idx]))}`
+          : ""))
+        .filter(s => s.length > 0);
+      const plan = planConsolidation(drafts.length, CONSOLIDATION_GROUP_SIZE);
+      const totalMerges = plan.reduce((sum, l) => sum + l.mergeCount, 0);
+      let mergesDone = 0;
+
+      addLog(`[${T.step2}] Consolidating ${drafts.length} parts in ${plan.length} level(s): ${plan.map(l => l.inputCount).join(' → ')} → 1.`);
+      const consolidateStart = Date.now();
+
+      consolidatedText = await consolidateHierarchically(
+        drafts,
+        CONSOLIDATION_GROUP_SIZE,
+        async (group, level, groupIndex, groupCount) => {
+          const groupText = group.join("\n\n");
+          // In Phase 2 the part variables number the merge groups of the level
+          const consolidatePrompts = resolvePrompts(run.language, run.preset, run.templates, {
+            partIndex: groupIndex + 1,
+            partCount: groupCount,
+            bookTitle: bookTitleOf(run)
+          }, run.sourceLanguage || undefined);
+          const prompt = consolidatePromptOf(consolidatePrompts.consolidate, groupText);
+          const mergeStart = Date.now();
+          // Only the single top-level merge is shown live; parallel groups would overwrite each other
+          const consolidatedResponse = await streamStage(
+            run,
+            `${T.step2} · L${level}.${groupIndex + 1}`,
+            prompt,
+            consolidatePrompts.systemInstruction,
+            groupCount === 1,
+            groupText.length * STREAM_OUTPUT_RATIO,
+            groupText.length * STREAM_OUTPUT_RATIO
+          );
+          run.usage = addPhaseUsage(run.usage, 'consolidate', consolidatedResponse.usage);
+          setSessionTokens(prev => prev + consolidatedResponse.usage.totalTokens);
+
+          mergesDone++;
+          setProgress(60 + Math.round((mergesDone / totalMerges) * 20));
+          const mergeDuration = ((Date.now() - mergeStart) / 1000).toFixed(1);
+          addLog(`[${T.step2}] Level ${level}: group ${groupIndex + 1}/${groupCount} merged (${mergeDuration}s). Size: ${consolidatedResponse.text.length}.`, 'success');
+          return consolidatedResponse.text;
+        },
+        ({ level, inputCount, groupCount }) => {
+          setCurrentStatusMsg(`${T.step2} (L${level}/${plan.length})`);
+          addLog(`[${T.step2}] Level ${level}: merging ${inputCount} drafts into ${groupCount}...`);
+        }
+      );
+      
+      const consolidateDuration = ((Date.now() - consolidateStart) / 1000).toFixed(1);
+      await updateJob(run.jobId, { consolidatedText, usage: run.usage });
+      
+      addLog(`[${T.step2}] Consolidation done (${consolidateDuration}s). Size: ${consolidatedText.length}.`, 'success');
+    }
+    setProgress(80);
+
+    let finalText = job?.polishedText || "";
+
+    if (finalText) {
+      addLog(`[${T.step3}] Restored from saved job.`, 'success');
+    } else {
+      addLog(`[${T.step3}] Final formatting...`);
+      setCurrentStatusMsg(T.statusWriting);
+      
+      const polishStart = Date.now();
+      const polishPrompts = resolvePrompts(run.language, run.preset, run.templates, {
+        partIndex: 1,
+        partCount: 1,
+        bookTitle: bookTitleOf(run)
+      }, run.sourceLanguage || undefined);
+
+      const polishPrompt = polishPromptOf(polishPrompts.polish, consolidatedText);
+      // Polishing restructures without dropping content, so the output is about as long as the input
+      const finalResponse = await streamStage(
+        run,
+        T.step3,
+        polishPrompt,
+        polishPrompts.systemInstruction,
+        true,
+        consolidatedText.length,
+        0
+      );
+      
+      const polishDuration = ((Date.now() - polishStart) / 1000).toFixed(1);
+      finalText = finalResponse.text;
+      run.usage = addPhaseUsage(run.usage, 'polish', finalResponse.usage);
+      setSessionTokens(prev => prev + finalResponse.usage.totalTokens);
+      await updateJob(run.jobId, { polishedText: finalText, usage: run.usage });
+
+      addLog(`[${T.step3}] Finished (${polishDuration}s). Source references: ${parseSourceMarkers(finalText).length}.`, 'success');
+    }
+
+    setFinalSummary(finalText);
+    setLiveOutput(null);
+    setMissingParts(missing);
+    
+    const newHistoryItem: HistoryItem = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+      timestamp: Date.now(),
+      fileName: run.file.name,
+      language: run.language,
+      ...(run.sourceLanguage ? { sourceLanguage: run.sourceLanguage } : {}),
+      summary: finalText,
+      model: run.llm.model,
+      provider: run.llm.id,
+      tokenUsage: totalTokens(sumUsage(run.usage)),
+      usage: run.usage,
+      metadata: run.metadata,
+      preset: run.preset,
+      ...(missing.length > 0 ? { missingParts: missing } : {})
+    };
+    
+    // A rebuilt summary replaces the incomplete one from the same run
+    const replacedId = run.historyId;
+    run.historyId = newHistoryItem.id;
+    storeHistoryItem(newHistoryItem, replacedId, { rawSummaries: run.extractedSummaries, chunks: run.chunks });
+    setActiveHistoryItem(newHistoryItem);
+    setProcessingState(ProcessingState.COMPLETED);
+    setCurrentStatusMsg("");
+    setProgress(100);
+
+    if (missing.length > 0) {
+      addLog(`[${T.step3}] Summary is missing part(s) #${missing.join(', #')}. Retry them and rebuild the summary.`, 'warning');
+    } else {
+      // The result now lives in history, the saved job is no longer needed
+      await deleteJob(run.jobId);
+    }
+    refreshPendingJobs();
+  };
+
+  // Returns the id of the history item holding the partial result, if one was saved
+  const handlePipelineError = (error: any, fileName: string, hasJob: boolean): string | undefined => {
+    let partialId: string | undefined;
+    const wasCancelled = error?.name === 'AbortError';
+    setIsPaused(false);
+    setLiveOutput(null);
+    if (wasCancelled) {
+      addLog(T.cancelledMsg, 'warning');
+    } else {
+      console.error(error);
+    }
+    
+    if (currentDraftRef.current && currentDraftRef.current.length > 500) {
+        if (!wasCancelled) addLog(`[${T.criticalError}] Pipeline failed, but partial data was recovered.`, 'warning');
+        addLog("Displaying raw consolidated draft.", 'info');
+        
+        setFinalSummary(currentDraftRef.current);
+        setProcessingState(ProcessingState.COMPLETED);
+        setCurrentStatusMsg(wasCancelled ? T.cancelledMsg : "Completed with Errors");
+        
+        // Settings may have changed during the run; record what the run actually used
+        const run = runRef.current;
+         const newHistoryItem: HistoryItem = {
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+          timestamp: Date.now(),
+          fileName: fileName + " (PARTIAL)",
+          language: run?.language || outputLanguageRef.current,
+          ...(run?.sourceLanguage ? { sourceLanguage: run.sourceLanguage } : {}),
+          summary: currentDraftRef.current,
+          model: run?.llm.model || providerSettings.model,
+          provider: run?.llm.id || providerSettings.provider,
+          tokenUsage: totalTokens(sumUsage(run?.usage || {})),
+          usage: run?.usage,
+          metadata: run?.metadata,
+          preset: run?.preset || presetRef.current
+        };
+        storeHistoryItem(newHistoryItem, undefined, run && { rawSummaries: run.extractedSummaries, chunks: run.chunks });
+        setActiveHistoryItem(newHistoryItem);
+        partialId = newHistoryItem.id;
+        
+    } else {
+        if (!wasCancelled) addLog(`[${T.criticalError}] ${error.message}`, 'error');
+        setProcessingState(ProcessingState.ERROR);
+        setCurrentStatusMsg(wasCancelled ? T.cancelledMsg : T.error);
+    }
+    if (hasJob) {
+      addLog("Progress is saved, the analysis can be resumed later.", 'info');
+      refreshPendingJobs();
+    }
+    return partialId;
+  };
+
+  // Fresh scheduler + AbortController for each start, retry or rebuild
+  const createRunControls = () => {
+    const scheduler = createRequestScheduler({
+      concurrency: providerSettings.concurrency,
+      requestsPerMinute: providerSettings.requestsPerMinute,
+      tokensPerMinute: providerSettings.tokensPerMinute,
+      maxRetries: MAX_REQUEST_RETRIES,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS
+    });
+    scheduler.onChange(setQueueTasks);
+    setIsPaused(false);
+    return { scheduler, abortController: new AbortController() };
+  };
+
+  const processBook = async (targetFile: File | null = file): Promise<PipelineOutcome | undefined> => {
+    if (!targetFile) return;
+    const file = targetFile;
+    let jobId: string | null = null;
 
     try {
       const startT = Date.now();
       setStartTime(startT);
       setProcessingState(ProcessingState.PARSING);
       setCurrentStatusMsg(T.statusReading);
+      setFailedParts([]);
+      setMissingParts([]);
+      setLiveOutput(null);
+      runRef.current = null;
       
       if (processingState === ProcessingState.ERROR) setLogs([]);
       
@@ -261,76 +1088,124 @@ const App = () => {
       currentDraftRef.current = "";
       
       const parseStart = Date.now();
-      const text = await parseFile(file);
+      const { document: bookDocument, report: cleaning } = await loadBook(file);
+      const text = documentToText(bookDocument);
+      setBookMetadata(bookDocument.metadata);
       const parseDuration = ((Date.now() - parseStart) / 1000).toFixed(2);
       addLog(`${T.fileParsed} ${parseDuration}s. Size: ${text.length.toLocaleString()} ${T.chars}.`, 'success');
+      addLog(`${T.textCleaned}: ${describeCleaning(cleaning, T)}`);
+
+      const detectedLanguage = detectLanguage(text, bookDocument.metadata.language);
+      setSourceLanguage(detectedLanguage);
+      addLog(`${T.sourceLanguage}: ${detectedLanguage ? getLanguagePack(detectedLanguage).name : '?'} → ${T.outputLanguage}: ${getLanguagePack(outputLanguageRef.current).name}`);
 
       if (text.length < 100) throw new Error("Text too short.");
 
-      // --- 1. Initial Calculation ---
-      // Logic: 500k chars ~ 240 seconds (4 mins).
-      // Rate: 240 / 500000 = 0.00048 sec/char.
-      const initialEstimate = Math.ceil(text.length * 0.00048);
-      // Ensure at least 30s for small files to avoid instant "00:00"
-      setEstimatedTotalDuration(Math.max(30, initialEstimate));
+      // --- Saved job lookup (resume after reload/crash) ---
+      jobId = await computeJobId(file, outputLanguageRef.current);
+      let job = await getJob(jobId);
 
       setProcessingState(ProcessingState.CHUNKING);
       setCurrentStatusMsg(T.chunking);
-      
-      const chunks = smartSplitText(text, CHUNK_SIZE);
+
+      const allChunks = chunkDocument(bookDocument, chunkSizeRef.current);
+      // Parts left out in the preview, or by the saved job being resumed; by default the marked pages
+      const excludedParts = preview?.file === file && preview.chunkSize === chunkSizeRef.current
+        ? preview.excluded
+        : job?.excludedParts ?? matterParts(allChunks);
+      const chunks = allChunks.filter((_, idx) => !excludedParts.includes(idx));
+      if (excludedParts.length > 0) {
+        addLog(`${T.chunking}: ${excludedParts.length} of ${allChunks.length} part(s) excluded: #${excludedParts.map(i => i + 1).join(', #')}.`, 'warning');
+      }
+      if (chunks.length === 0) throw new Error("All parts are excluded.");
+      setSourceChunks(chunks);
+
+      // --- 1. Initial Calculation ---
+      const includedChars = chunks.reduce((sum, c) => sum + c.text.length, 0);
+      // Ensure at least 30s for small files to avoid instant "00:00"
+      setEstimatedTotalDuration(Math.max(30, Math.ceil(includedChars * SECONDS_PER_CHAR)));
+
       const totalChunks = chunks.length;
+      const chunkSignature = chunks.map(c => c.text.length).join(',');
+      const titledChapters = bookDocument.chapters.filter(c => c.title).length;
       
-      addLog(`${T.chunking}: ${chunks.length} parts (Smart boundary detection enabled).`);
+      addLog(`${T.chunking}: ${chunks.length} parts from ${bookDocument.chapters.length} section(s)${titledChapters > 0 ? `, ${titledChapters} titled` : ''} (chapter-aware packing).`);
+
+      const extractedSummaries: string[] = new Array(chunks.length).fill("");
+      let usage: PhaseUsage = {};
+
+      if (job && (job.preset || DEFAULT_PRESET) !== presetRef.current) {
+        addLog("Saved job used a different summary preset, starting over.", 'warning');
+        await deleteJob(jobId);
+        job = undefined;
+      }
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      if (job && (job.chunkSize !== chunkSizeRef.current || job.totalChunks !== totalChunks || job.chunkSignature !== chunkSignature)) {
+        addLog("Saved job does not match current chunking, starting over.", 'warning');
+        await deleteJob(jobId);
+        job = undefined;
+      }
+
+      if (job) {
+        const saved = await getChunkResults(jobId);
+        // Phase 1 usage comes from the stored parts, later phases from the job
+        usage = { ...job.usage, extract: undefined };
+        saved.forEach(res => {
+          extractedSummaries[res.index] = res.text;
+          if (res.usage) usage = addPhaseUsage(usage, 'extract', res.usage);
+        });
+        addLog(`Resuming saved job: ${saved.length}/${totalChunks} parts restored.`, 'success');
+      } else {
+        job = {
+          id: jobId,
+          fileName: file.name,
+          file,
+          language: outputLanguageRef.current,
+          preset: presetRef.current,
+          chunkSize: chunkSizeRef.current,
+          totalChunks,
+          excludedParts,
+          chunkSignature,
+          completedChunks: 0,
+          createdAt: Date.now(),
+          updatedAt: Date.now()
+        };
+        await saveJob(job);
+      }
+      refreshPendingJobs();
+
+      const llm = createProvider(providerSettings);
+      addLog(`Provider: ${llm.id} / ${llm.model}`);
+
+      const run: PipelineRun = {
+        file,
+        jobId,
+        language: outputLanguageRef.current,
+        sourceLanguage: detectedLanguage,
+        preset: presetRef.current,
+        templates: promptTemplates,
+        metadata: bookDocument.metadata,
+        chunks,
+        extractedSummaries,
+        usage,
+        llm,
+        ...createRunControls()
+      };
+      runRef.current = run;
       
       setProcessingState(ProcessingState.SUMMARIZING);
       setCurrentStatusMsg(T.statusThinking);
-      const extractedSummaries: string[] = new Array(chunks.length).fill("");
-      
-      for (let i = 0; i < chunks.length; i += MAX_CONCURRENT_REQUESTS) {
-        const batch = chunks.slice(i, i + MAX_CONCURRENT_REQUESTS);
-        const batchPrompts = getPrompts(languageRef.current);
-
-        const batchPromises = batch.map(async (chunk, batchIdx) => {
-          const actualIdx = i + batchIdx;
-          const chunkStartTime = Date.now();
-          addLog(`[${T.step1}] Analyzing part ${actualIdx + 1}/${chunks.length}...`);
-          
-          try {
-            const response = await ai.models.generateContent({
-              model: GEMINI_MODEL,
-              contents: `${batchPrompts.extract}\n\nCONTENT PART ${actualIdx + 1}:\n${chunk}`,
-              config: { systemInstruction: batchPrompts.systemInstruction }
-            });
-
-            const duration = ((Date.now() - chunkStartTime) / 1000).toFixed(1);
-            const outputText = response.text || "";
-            const usage = response.usageMetadata?.totalTokenCount || 0;
-            setSessionTokens(prev => prev + usage);
-            
-            addLog(`[${T.step1}] Part ${actualIdx + 1} extracted (${duration}s). Length: ${outputText.length}.`, 'success');
-            return { idx: actualIdx, text: outputText };
-          } catch (err: any) {
-            console.error(err);
-            addLog(`[${T.error}] Part ${actualIdx + 1}: ${err.message}`, 'warning');
-            return { idx: actualIdx, text: "" };
-          }
-        });
 
-        await Promise.all(batchPromises).then(results => {
-           results.forEach(res => {
-             if (res.text) extractedSummaries[res.idx] = res.text;
-           });
-        });
-        
+      const pendingIndexes = chunks.map((_, idx) => idx).filter(idx => !extractedSummaries[idx]);
+      const restoredCount = totalChunks - pendingIndexes.length;
+      let chunksCompleted = restoredCount;
+
+      const failures = await extractParts(run, pendingIndexes, () => {
         // --- 2. Dynamic Update of Total Duration ---
         // Calculate average time per chunk so far (including parse time as overhead)
-        const now = Date.now();
-        const timeElapsedSoFar = (now - startT) / 1000;
-        const chunksCompleted = i + batch.length;
-        
-        const avgTimePerChunk = timeElapsedSoFar / chunksCompleted;
+        chunksCompleted++;
+        const timeElapsedSoFar = (Date.now() - startT) / 1000;
+        const avgTimePerChunk = timeElapsedSoFar / Math.max(1, chunksCompleted - restoredCount);
         
         // Prediction: Elapsed + (Avg * RemainingChunks) + Fixed Overhead for Consolidation
         const chunksRemaining = totalChunks - chunksCompleted;
@@ -339,115 +1214,467 @@ const App = () => {
         const newTotalEstimate = Math.ceil(timeElapsedSoFar + (avgTimePerChunk * chunksRemaining) + overheadForConsolidation);
         
         setEstimatedTotalDuration(newTotalEstimate);
-        
-        currentDraftRef.current = extractedSummaries.filter(s => s.trim().length > 0).join("\n\n");
-        const extractedPercent = Math.round(((i + batch.length) / chunks.length) * 60);
-        setProgress(extractedPercent);
+        setProgress(Math.round((chunksCompleted / totalChunks) * 60));
+      });
+
+      setFailedParts(failures);
+      if (failures.length > 0) {
+        addLog(`[${T.step1}] ${failures.length} part(s) failed: #${failures.map(f => f.index + 1).join(', #')}. They can be retried from the "${T.failedParts}" list.`, 'error');
       }
 
-      const combinedDraft = currentDraftRef.current;
-      
-      if (combinedDraft.length === 0) throw new Error("Failed to extract any text.");
+      // Cached Phase 2/3 results are only valid if no new parts were extracted in this run
+      await finishSummary(run, pendingIndexes.length === 0);
+      return { status: 'done', historyId: run.historyId };
 
-      setProcessingState(ProcessingState.POLISHING);
-      setCurrentStatusMsg(T.statusThinking);
-      
-      addLog(`[${T.step2}] Consolidating ${chunks.length} parts...`);
-      const consolidateStart = Date.now();
-      const consolidatePrompts = getPrompts(languageRef.current);
+    } catch (error: any) {
+      const historyId = handlePipelineError(error, file.name, jobId !== null);
+      return { status: error?.name === 'AbortError' ? 'cancelled' : 'failed', historyId, error: error?.message };
+    }
+  };
+  processBookRef.current = processBook;
 
-      const consolidatedResponse = await ai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: `${consolidatePrompts.consolidate}\n\nEXTRACTED DRAFTS:\n${combinedDraft}`,
-        config: { systemInstruction: consolidatePrompts.systemInstruction }
-      });
-      
-      const consolidateDuration = ((Date.now() - consolidateStart) / 1000).toFixed(1);
-      const consolidatedText = consolidatedResponse.text || "";
-      const usageConsolidate = consolidatedResponse.usageMetadata?.totalTokenCount || 0;
-      setSessionTokens(prev => prev + usageConsolidate);
-      
-      addLog(`[${T.step2}] Consolidation done (${consolidateDuration}s). Size: ${consolidatedText.length}.`, 'success');
-      setProgress(80);
+  // --- Batch Queue ---
 
-      addLog(`[${T.step3}] Final formatting...`);
-      setCurrentStatusMsg(T.statusWriting);
-      
-      const polishStart = Date.now();
-      const polishPrompts = getPrompts(languageRef.current);
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const dropped = Array.from<File>(e.dataTransfer.files).filter(isSupportedFile);
+    if (dropped.length === 1 && isInteractionEnabled && batchState !== 'running') {
+      selectFile(dropped[0]);
+    } else if (dropped.length > 0) {
+      addToBatch(dropped);
+    }
+  };
 
-      const finalResponse = await ai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: `${polishPrompts.polish}\n\nTEXT TO POLISH:\n${consolidatedText}`,
-        config: { systemInstruction: polishPrompts.systemInstruction }
-      });
-      
-      const polishDuration = ((Date.now() - polishStart) / 1000).toFixed(1);
-      const finalText = finalResponse.text || "";
-      const usagePolish = finalResponse.usageMetadata?.totalTokenCount || 0;
-      setSessionTokens(prev => prev + usagePolish);
+  const updateBatch = (fn: (items: BatchItem[]) => BatchItem[]) => {
+    batchRef.current = fn(batchRef.current);
+    setBatch(batchRef.current);
+  };
+
+  const addToBatch = (files: File[]) => {
+    const known = new Set(batchRef.current.filter(i => i.status === 'queued').map(i => `${i.file.name}:${i.file.size}`));
+    const items: BatchItem[] = files
+      .filter(f => !known.has(`${f.name}:${f.size}`))
+      .map(f => ({
+        id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+        file: f,
+        status: 'queued',
+        progress: 0,
+        logs: []
+      }));
+    updateBatch(prev => [...prev, ...items]);
+  };
+
+  // Runs queued books one after another. Each book gets the full pipeline and its own history entry;
+  // a failed book does not stop the queue, a cancelled one pauses it.
+  useEffect(() => {
+    const waiters = commitWaitersRef.current;
+    commitWaitersRef.current = [];
+    waiters.forEach(resolve => resolve());
+  }, [commitTick]);
+
+  const waitForCommit = () => new Promise<void>(resolve => {
+    commitWaitersRef.current.push(resolve);
+    setCommitTick(t => t + 1);
+  });
+
+  const runBatch = async () => {
+    if (batchRunningRef.current) return;
+    batchRunningRef.current = true;
+    batchPausedRef.current = false;
+    setBatchState('running');
+
+    try {
+      while (!batchPausedRef.current) {
+        const next = batchRef.current.find(i => i.status === 'queued');
+        if (!next) break;
+
+        activeBatchIdRef.current = next.id;
+        updateBatch(items => items.map(i => i.id === next.id ? { ...i, status: 'running', progress: 0, logs: [], error: undefined } : i));
+        selectFile(next.file);
+        // processBook also reads the preview and processing state, so it must see the new file's render
+        await waitForCommit();
+
+        const outcome = await processBookRef.current(next.file);
+        activeBatchIdRef.current = null;
+        updateBatch(items => items.map(i => i.id === next.id
+          ? { ...i, status: outcome?.status || 'failed', historyId: outcome?.historyId, error: outcome?.error }
+          : i));
+
+        if (outcome?.status === 'cancelled') batchPausedRef.current = true;
+      }
+    } finally {
+      batchRunningRef.current = false;
+      activeBatchIdRef.current = null;
+      setBatchState(batchPausedRef.current && batchRef.current.some(i => i.status === 'queued') ? 'paused' : 'idle');
+    }
+  };
+
+  // Stops the queue after the current book; the book itself is paused with the usual controls
+  const handlePauseBatch = () => {
+    batchPausedRef.current = true;
+    if (batchRunningRef.current) addLog(T.batchPausing, 'warning');
+    setBatchState('paused');
+  };
+
+  const handleMoveBatchItem = (id: string, delta: number) => {
+    updateBatch(items => {
+      const from = items.findIndex(i => i.id === id);
+      const to = from + delta;
+      if (from < 0 || to < 0 || to >= items.length) return items;
+      if (items[from].status !== 'queued' || items[to].status !== 'queued') return items;
+      const next = [...items];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  const handleRemoveBatchItem = (id: string) => {
+    updateBatch(items => items.filter(i => i.id !== id || i.status === 'running'));
+  };
+
+  const handleClearFinishedBatch = () => {
+    updateBatch(items => items.filter(i => i.status === 'queued' || i.status === 'running'));
+  };
+
+  const handleViewBatchItem = (item: BatchItem) => {
+    if (item.historyId) openHistoryItemById(item.historyId);
+  };
+
+  // --- Pause / Cancel ---
+
+  const handleTogglePause = () => {
+    const run = runRef.current || synthesisRef.current;
+    if (!run) return;
+    if (isPaused) {
+      run.scheduler.resume();
+      addLog(T.resumedMsg, 'info');
+    } else {
+      run.scheduler.pause();
+      addLog(T.pausedMsg, 'warning');
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const handleCancel = () => {
+    const run = runRef.current || synthesisRef.current;
+    if (!run || !confirm(T.cancel + "?")) return;
+    run.abortController.abort();
+    run.scheduler.cancel();
+  };
+
+  // --- Failed Parts ---
+
+  const handleRetryParts = async (indexes: number[]) => {
+    const run = runRef.current;
+    if (!run || indexes.length === 0) return;
+
+    Object.assign(run, createRunControls());
+    setStartTime(Date.now());
+    setElapsedSeconds(0);
+    setEstimatedTotalDuration(null);
+    setProcessingState(ProcessingState.SUMMARIZING);
+    setCurrentStatusMsg(T.statusThinking);
+    addLog(`[${T.step1}] Retrying part(s) #${indexes.map(i => i + 1).join(', #')}...`);
+
+    let failures: FailedPart[];
+    try {
+      failures = await extractParts(run, indexes);
+    } catch (error: any) {
+      // Only a cancel gets here; the previous summary stays as it was
+      addLog(T.cancelledMsg, 'warning');
+      setIsPaused(false);
+      setProcessingState(ProcessingState.COMPLETED);
+      setCurrentStatusMsg(T.cancelledMsg);
+      return;
+    }
+    const retried = new Set(indexes);
+    setFailedParts(prev => [...prev.filter(f => !retried.has(f.index)), ...failures].sort((a, b) => a.index - b.index));
+
+    const recovered = indexes.length - failures.length;
+    addLog(`[${T.step1}] ${recovered}/${indexes.length} part(s) recovered.`, failures.length === 0 ? 'success' : 'warning');
+    if (recovered > 0) addLog(`Use "${T.rebuildSummary}" to include them in the summary.`, 'info');
+
+    setProcessingState(ProcessingState.COMPLETED);
+    setCurrentStatusMsg("");
+  };
+
+  const handleRebuildSummary = async () => {
+    const run = runRef.current;
+    if (!run) return;
+
+    Object.assign(run, createRunControls());
+    setStartTime(Date.now());
+    setElapsedSeconds(0);
+    setEstimatedTotalDuration(null);
+    setProgress(60);
+
+    try {
+      await finishSummary(run, false);
+    } catch (error: any) {
+      handlePipelineError(error, run.file.name, true);
+    }
+  };
+
+  // --- Saved Jobs ---
+
+  const handleResumeJob = (job: SummaryJob) => {
+    const restoredFile = new File([job.file], job.fileName, { type: job.file.type });
+    setOutputLanguage(job.language);
+    outputLanguageRef.current = job.language;
+    setPreset(job.preset || DEFAULT_PRESET);
+    presetRef.current = job.preset || DEFAULT_PRESET;
+    // The job's parts only match when split with the same size
+    setChunkSize(job.chunkSize);
+    chunkSizeRef.current = job.chunkSize;
+    setPreview(null);
+    setShowPreview(false);
+    setFile(restoredFile);
+    setBookMetadata(null);
+    setSourceLanguage(null);
+    setSourceChunks(null);
+    parsedRef.current = null;
+    setFinalSummary("");
+    setLogs([]);
+    setProgress(0);
+    setElapsedSeconds(0);
+    setEstimatedTotalDuration(null);
+    currentDraftRef.current = "";
+    processBook(restoredFile);
+  };
+
+  const handleDiscardJob = async (job: SummaryJob) => {
+    if (confirm(T.discard + "?")) {
+      await deleteJob(job.id);
+      refreshPendingJobs();
+    }
+  };
+
+  // --- Cross-book Synthesis ---
+
+  const historyTitle = (item: HistoryItem) => item.metadata?.title || item.fileName;
+
+  const toggleHistorySelection = (id: string) => {
+    setSelectedHistoryIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  // Runs the consolidation stage over the selected summaries and saves the report as a 'synthesis' item
+  const handleSynthesize = async () => {
+    // Selected items may be outside the loaded pages after the search changed
+    const items = (await Promise.all(selectedHistoryIds.map(getHistoryItem)))
+      .filter((item): item is HistoryItem => item !== undefined)
+      .sort((a, b) => b.timestamp - a.timestamp);
+    if (items.length < 2) return;
+
+    const llm = createProvider(providerSettings);
+    const controls: RunControls = { llm, ...createRunControls() };
+    const language = outputLanguageRef.current;
+    const prompts = getSynthesisPrompts(language);
+    const fileName = `${T.synthesis}: ${items.map(historyTitle).join(' · ')}`;
+
+    synthesisRef.current = controls;
+    runRef.current = null;
+    setActiveHistoryItem(null);
+    parsedRef.current = null;
+    setFile({ name: fileName } as File);
+    setBookMetadata(null);
+    setSourceLanguage(null);
+    setSourceChunks(null);
+    setFinalSummary("");
+    setLogs([]);
+    setFailedParts([]);
+    setMissingParts([]);
+    setLiveOutput(null);
+    setActiveTab('analyze');
+    setStartTime(Date.now());
+    setElapsedSeconds(0);
+    setEstimatedTotalDuration(null);
+    setProgress(0);
+    setProcessingState(ProcessingState.POLISHING);
+    setCurrentStatusMsg(T.synthesis);
+    currentDraftRef.current = "";
+
+    // Each summary is labelled with its book; markers of different books would collide
+    const drafts = items.map((item, idx) => `[BOOK ${idx + 1}: ${historyTitle(item)}${item.metadata?.authors?.length ? ` — ${item.metadata.authors.join(', ')}` : ''}]\n${stripSourceMarkers(item.summary)}`);
+    const plan = planConsolidation(drafts.length, CONSOLIDATION_GROUP_SIZE);
+    const totalMerges = plan.reduce((sum, l) => sum + l.mergeCount, 0);
+    let mergesDone = 0;
+    let usage: PhaseUsage = {};
+
+    addLog(`[${T.synthesis}] Comparing ${items.length} summaries in ${plan.length} level(s). Provider: ${llm.id} / ${llm.model}`);
+
+    try {
+      const report = await consolidateHierarchically(
+        drafts,
+        CONSOLIDATION_GROUP_SIZE,
+        async (group, level, groupIndex, groupCount) => {
+          const groupText = group.join("\n\n");
+          const mergeStart = Date.now();
+          const response = await streamStage(
+            controls,
+            `${T.synthesis} · L${level}.${groupIndex + 1}`,
+            `${prompts.synthesize}\n\nSUMMARIES:\n${groupText}`,
+            prompts.systemInstruction,
+            groupCount === 1,
+            groupText.length * STREAM_OUTPUT_RATIO,
+            0
+          );
+          usage = addPhaseUsage(usage, 'synthesis', response.usage);
+          setSessionTokens(prev => prev + response.usage.totalTokens);
+
+          mergesDone++;
+          setProgress(Math.round((mergesDone / totalMerges) * 100));
+          addLog(`[${T.synthesis}] Level ${level}: group ${groupIndex + 1}/${groupCount} done (${((Date.now() - mergeStart) / 1000).toFixed(1)}s).`, 'success');
+          return response.text;
+        },
+        ({ level, inputCount, groupCount }) => {
+          addLog(`[${T.synthesis}] Level ${level}: comparing ${inputCount} texts in ${groupCount} group(s)...`);
+        }
+      );
 
-      setFinalSummary(finalText);
-      addLog(`[${T.step3}] Finished (${polishDuration}s).`, 'success');
-      
       const newHistoryItem: HistoryItem = {
         id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
         timestamp: Date.now(),
-        fileName: file.name,
-        language: languageRef.current,
-        summary: finalText,
-        model: GEMINI_MODEL,
-        tokenUsage: usagePolish
+        fileName,
+        language,
+        summary: report,
+        model: llm.model,
+        provider: llm.id,
+        tokenUsage: totalTokens(sumUsage(usage)),
+        usage,
+        kind: 'synthesis',
+        sourceItemIds: items.map(item => item.id),
+        sourceTitles: items.map(historyTitle)
       };
-      
-      setHistory(prev => [newHistoryItem, ...prev]);
+      storeHistoryItem(newHistoryItem);
+      setActiveHistoryItem(newHistoryItem);
+      setSelectedHistoryIds([]);
+      setFinalSummary(report);
+      setLiveOutput(null);
       setProcessingState(ProcessingState.COMPLETED);
       setCurrentStatusMsg("");
       setProgress(100);
-
+      addLog(`[${T.synthesis}] Finished. Size: ${report.length}.`, 'success');
     } catch (error: any) {
-      console.error(error);
-      
-      if (currentDraftRef.current && currentDraftRef.current.length > 500) {
-          addLog(`[${T.criticalError}] Pipeline failed, but partial data was recovered.`, 'warning');
-          addLog("Displaying raw consolidated draft.", 'info');
-          
-          setFinalSummary(currentDraftRef.current);
-          setProcessingState(ProcessingState.COMPLETED);
-          setCurrentStatusMsg("Completed with Errors");
-          
-           const newHistoryItem: HistoryItem = {
-            id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
-            timestamp: Date.now(),
-            fileName: file.name + " (PARTIAL)",
-            language: languageRef.current,
-            summary: currentDraftRef.current,
-            model: GEMINI_MODEL,
-            tokenUsage: sessionTokens
-          };
-          setHistory(prev => [newHistoryItem, ...prev]);
-          
+      setIsPaused(false);
+      setLiveOutput(null);
+      if (error?.name === 'AbortError') {
+        addLog(T.cancelledMsg, 'warning');
+        setCurrentStatusMsg(T.cancelledMsg);
       } else {
-          addLog(`[${T.criticalError}] ${error.message}`, 'error');
-          setProcessingState(ProcessingState.ERROR);
-          setCurrentStatusMsg(T.error);
+        console.error(error);
+        addLog(`[${T.criticalError}] ${error.message}`, 'error');
+        setCurrentStatusMsg(T.error);
       }
+      setProcessingState(ProcessingState.ERROR);
+    } finally {
+      synthesisRef.current = null;
     }
   };
 
   // --- History Logic ---
 
+  const refreshStorageInfo = () => {
+    countHistory().then(setHistoryCount).catch(e => console.error("Failed to count history", e));
+    getHistoryFacets().then(setHistoryFacets).catch(e => console.error("Failed to read history filters", e));
+    getStorageUsage().then(setStorageUsage).catch(e => console.error("Failed to estimate storage", e));
+  };
+
+  // Entries that could not be written stay on screen, so the result can still be copied or downloaded
+  const handleStorageError = (error: any) => {
+    console.error(error);
+    const message = isQuotaError(error) ? T.storageFull : `${T.storageError}: ${error?.message || error}`;
+    setStorageError(message);
+    addLog(message, 'error');
+  };
+
+  const loadHistory = (reset: boolean) => {
+    const offset = reset ? 0 : history.length;
+    queryHistory(historyQuery, offset, HISTORY_PAGE_SIZE)
+      .then(page => {
+        setHistory(prev => reset ? page.items : [...prev, ...page.items.filter(item => !prev.some(p => p.id === item.id))]);
+        setHistoryTotal(page.total);
+      })
+      .catch(handleStorageError);
+    refreshStorageInfo();
+  };
+
+  // Shows the entry at once and writes it in the background; `replacedId` is the entry it supersedes
+  const storeHistoryItem = (item: HistoryItem, replacedId?: string, processed?: Pick<ProcessedBook, 'rawSummaries' | 'chunks'>) => {
+    setHistory(prev => [item, ...prev.filter(i => i.id !== replacedId)]);
+    setHistoryTotal(prev => prev + (replacedId ? 0 : 1));
+    (replacedId ? deleteHistoryItem(replacedId) : Promise.resolve())
+      .then(() => saveHistoryItem(item))
+      .then(() => processed && saveProcessedBook({ historyId: item.id, fileName: item.fileName, finalSummary: item.summary, ...processed }))
+      .then(() => setStorageError(""))
+      .catch(handleStorageError)
+      .finally(refreshStorageInfo);
+  };
+
+  const patchHistoryItem = (id: string, update: (item: HistoryItem) => HistoryItem) => {
+    setHistory(prev => prev.map(item => item.id === id ? update(item) : item));
+    setActiveHistoryItem(prev => prev && prev.id === id ? update(prev) : prev);
+    updateHistoryItem(id, update)
+      .catch(handleStorageError)
+      .finally(refreshStorageInfo);
+  };
+
+  const openHistoryItemById = async (id: string) => {
+    const item = history.find(h => h.id === id) || await getHistoryItem(id).catch(() => undefined);
+    if (item) handleViewHistoryItem(item);
+    else alert(T.deletedItem);
+  };
+
+  // Phase 1 summaries of every part, as stored with the entry
+  const handleDownloadParts = async () => {
+    if (!activeHistoryItem) return;
+    const processed = await getProcessedBook(activeHistoryItem.id).catch(() => undefined);
+    if (!processed) {
+      alert(T.partsUnavailable);
+      return;
+    }
+    const content = processed.rawSummaries
+      .map((text, idx) => `## ${T.part} ${idx + 1}\n\n${text.trim() || '—'}`)
+      .join('\n\n');
+    downloadMarkdown(content, `${processed.fileName}_parts`);
+  };
+
+  const handleViewHistoryItem = (item: HistoryItem) => {
+    setActiveHistoryItem(item);
+    setAskError("");
+    setFinalSummary(item.summary);
+    setMissingParts(item.missingParts || []);
+    setBookMetadata(item.metadata || null);
+    setSourceLanguage(item.sourceLanguage || null);
+    setOutputLanguage(item.language);
+    // Re-running from here reproduces the item with the same preset
+    setPreset(item.preset || DEFAULT_PRESET);
+    parsedRef.current = null;
+    // The parts stored with the entry are loaded by the effect on activeHistoryItem
+    setSourceChunks(null);
+    setFailedParts([]);
+    runRef.current = null;
+    setFile({ name: item.fileName } as File);
+    setActiveTab('analyze');
+    setProcessingState(ProcessingState.COMPLETED);
+  };
+
   const handleDeleteHistory = (id: string) => {
     if (confirm(T.delete + "?")) {
       setHistory(prev => prev.filter(item => item.id !== id));
+      setHistoryTotal(prev => Math.max(0, prev - 1));
+      setSelectedHistoryIds(prev => prev.filter(x => x !== id));
+      deleteHistoryItem(id)
+        .then(() => setStorageError(""))
+        .catch(handleStorageError)
+        .finally(refreshStorageInfo);
     }
   };
 
-  const handleExportBackup = () => {
+  const handleExportBackup = async () => {
     const backup: BackupFile = {
       version: 1,
       createdAt: Date.now(),
-      items: history
+      items: await getAllHistory()
     };
     const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
@@ -465,16 +1692,19 @@ const App = () => {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
         const json = JSON.parse(event.target?.result as string) as BackupFile;
         if (json.version && Array.isArray(json.items)) {
-          setHistory(prev => {
-            const existingIds = new Set(prev.map(i => i.id));
-            const newItems = json.items.filter(i => !existingIds.has(i.id));
-            return [...newItems, ...prev].sort((a,b) => b.timestamp - a.timestamp);
-          });
-          alert(T.restoreMsg);
+          try {
+            const existingIds = new Set((await getAllHistory()).map(i => i.id));
+            await saveHistoryItems(json.items.filter(i => !existingIds.has(i.id)));
+            setStorageError("");
+            alert(T.restoreMsg);
+          } catch (err) {
+            handleStorageError(err);
+          }
+          loadHistory(true);
         } else {
           alert("Invalid JSON format");
         }
@@ -503,8 +1733,128 @@ const App = () => {
     URL.revokeObjectURL(url);
   };
 
+  const handleExport = async (format: ExportFormat, doc: ExportDocument) => {
+    if (format === 'anki' && extractFlashcards(doc.markdown).length === 0) {
+      alert(T.exportNoCards);
+      return;
+    }
+    try {
+      await exportSummary(format, doc, T.exportContents);
+    } catch (e: any) {
+      console.error(e);
+      alert(`${T.exportFailed}: ${e?.message || e}`);
+    }
+  };
+
+  const exportDocumentOf = (item: HistoryItem): ExportDocument => ({
+    title: item.metadata?.title || item.fileName,
+    authors: item.metadata?.authors || [],
+    language: item.language.toLowerCase(),
+    markdown: item.summary,
+    fileName: item.fileName,
+    details: {
+      model: item.model,
+      timestamp: item.timestamp,
+      tokenUsage: item.tokenUsage,
+      tags: item.tags || [],
+      sourceFile: item.fileName
+    }
+  });
+
+  const handleExportNotes = async () => {
+    // Selected items may be outside the loaded pages
+    const items = (await Promise.all(selectedHistoryIds.map(getHistoryItem)))
+      .filter((item): item is HistoryItem => item !== undefined)
+      .sort((a, b) => historyTitle(a).localeCompare(historyTitle(b)));
+    if (items.length === 0) return;
+    try {
+      await exportNotesVault(items.map(exportDocumentOf), T.notesIndex);
+    } catch (e: any) {
+      console.error(e);
+      alert(`${T.exportFailed}: ${e?.message || e}`);
+    }
+  };
+
+  // Reference links are plain HTML inside the rendered markdown, so clicks are caught here
+  const handleSummaryClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const ref = getSourceRefFromTarget(e.target);
+    if (!ref) return;
+    e.preventDefault();
+    setOpenSourceRef(ref);
+  };
+
+  // --- Ask the Book ---
+
+  const updateConversation = (id: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+    patchHistoryItem(id, item => ({ ...item, conversation: update(item.conversation || []) }));
+  };
+
+  // Answers from the best-matching parts of the book; earlier turns are sent for context
+  const handleAsk = async (question: string) => {
+    const item = activeHistoryItem;
+    if (!item || !bookIndex) return;
+
+    const previous = (item.conversation || []).slice(-QA_HISTORY_MESSAGES);
+    const parts = searchBookIndex(bookIndex, question, QA_TOP_PARTS);
+    updateConversation(item.id, messages => [...messages, { role: 'user', text: question, timestamp: Date.now() }]);
+    askAbortRef.current?.abort();
+    const controller = new AbortController();
+    askAbortRef.current = controller;
+    setIsAnswering(true);
+    setAskError("");
+
+    try {
+      const prompts = getAnswerPrompts(item.language);
+      const context = parts.length > 0
+        ? parts.map(part => `[S${part}]\n${partExcerpt(bookIndex, part, question, QA_PART_CHARS, QA_WINDOW_CHARS)}`).join('\n\n')
+        : '(no matching parts)';
+      const conversation = previous.map(m => `${m.role === 'user' ? 'Q' : 'A'}: ${m.text}`).join('\n\n');
+      const prompt = [
+        prompts.answer,
+        `PARTS:\n${context}`,
+        conversation ? `EARLIER CONVERSATION:\n${conversation}` : '',
+        `QUESTION: ${question}`
+      ].filter(Boolean).join('\n\n');
+
+      const llm = createProvider(providerSettings);
+      const response = await askScheduler.run(T.askButton, estimateTokens(prompt), () =>
+        llm.generate({ prompt, systemInstruction: prompts.systemInstruction, signal: controller.signal })
+      );
+      if (controller.signal.aborted) return;
+      setSessionTokens(prev => prev + response.usage.totalTokens);
+      const answer: ChatMessage = {
+        role: 'assistant',
+        text: resolvePartCitations(response.text, bookIndex.parts, parts),
+        timestamp: Date.now(),
+        parts
+      };
+      // Questions count towards the book's token usage
+      patchHistoryItem(item.id, current => ({
+        ...current,
+        conversation: [...(current.conversation || []), answer],
+        usage: addPhaseUsage(current.usage || {}, 'answer', response.usage),
+        tokenUsage: current.tokenUsage + response.usage.totalTokens
+      }));
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      setAskError(`${T.error}: ${error.message}`);
+    } finally {
+      if (askAbortRef.current === controller) setIsAnswering(false);
+    }
+  };
+
+  const handleClearConversation = () => {
+    if (activeHistoryItem && confirm(T.clearConversation + "?")) {
+      askAbortRef.current?.abort();
+      setIsAnswering(false);
+      updateConversation(activeHistoryItem.id, () => []);
+    }
+  };
+
   // --- Render ---
 
+
   // Calculated Remaining for Display
   const remainingDisplay = estimatedTotalDuration !== null 
     ? Math.max(0, estimatedTotalDuration - elapsedSeconds) 
@@ -538,33 +1888,144 @@ const App = () => {
                 className={`px-4 md:px-6 h-full text-base md:text-sm font-semibold rounded-full transition-all flex items-center ${activeTab === 'history' ? 'bg-[#2f2f2f] text-white border border-white/10' : 'text-gray-400 hover:text-gray-200 border border-transparent'}`}
               >
                 {T.tabHistory} 
-                {history.length > 0 && <span className="ml-1 opacity-70">({history.length})</span>}
+                {historyCount > 0 && <span className="ml-1 opacity-70">({historyCount})</span>}
               </button>
            </div>
 
            {/* Custom Language Dropdown */}
-           <LanguageDropdown current={language} onChange={handleLanguageChange} />
+           <LanguageDropdown current={language} onChange={handleLanguageChange} title={T.interfaceLanguage} />
+
+           {/* Output Language Dropdown */}
+           <LanguageDropdown
+              current={outputLanguage}
+              onChange={handleOutputLanguageChange}
+              title={T.outputLanguage}
+              icon={
+                <svg className="w-4 h-4 shrink-0 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                </svg>
+              }
+           />
+
+           {/* Settings Toggle */}
+           <button
+              onClick={() => { setShowSettings(!showSettings); setActiveTab('analyze'); }}
+              title={T.settings}
+              className={`h-full aspect-square flex items-center justify-center rounded-full border border-white/20 transition-all ${showSettings ? 'bg-[#2f2f2f] text-white' : 'bg-[#212121] text-gray-400 hover:text-white'}`}
+           >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+           </button>
         </div>
       </header>
 
+      {/* Storage errors (e.g. quota exceeded) - the result stays on screen even if it was not saved */}
+      {storageError && (
+        <div className="mb-6 flex items-start justify-between gap-4 bg-red-500/10 border border-red-400/30 text-red-400 rounded-2xl px-4 py-3 text-sm">
+          <span>{storageError}</span>
+          <button onClick={() => setStorageError("")} className="shrink-0 text-red-400/70 hover:text-red-300 text-xs uppercase font-bold">✕</button>
+        </div>
+      )}
+
       {/* Content Area */}
       {activeTab === 'analyze' && (
         <div className="animate-fade-in flex flex-col gap-6">
           
+          {/* Provider Settings */}
+          {showSettings && isInteractionEnabled && (
+            <SettingsPanel settings={providerSettings} onChange={handleProviderSettingsChange} T={T} />
+          )}
+
+          {showSettings && isInteractionEnabled && (
+            <PromptEditor
+              templates={promptTemplates}
+              onChange={handlePromptTemplatesChange}
+              language={outputLanguage}
+              preset={preset}
+              T={T}
+            />
+          )}
+
+          {/* Unfinished Jobs (saved in IndexedDB) */}
+          {isInteractionEnabled && pendingJobs.length > 0 && (
+            <div className="bg-[#212121] rounded-[2rem] p-4 md:p-6 border border-amber-400/30 flex flex-col gap-3">
+              <h2 className="text-sm font-bold text-amber-400 uppercase tracking-widest">{T.resumeTitle}</h2>
+              {pendingJobs.map(job => (
+                <div key={job.id} className="flex flex-col md:flex-row justify-between md:items-center gap-3 bg-[#1a1a1a] rounded-xl p-3 border border-white/5">
+                  <div>
+                    <p className="font-serif text-white break-words">{job.fileName}</p>
+                    <div className="flex gap-3 text-xs text-gray-600 mt-1">
+                      <span>{new Date(job.updatedAt).toLocaleString()}</span>
+                      <span className="px-2 py-0.5 bg-[#2f2f2f] rounded-full text-gray-400">{job.language}</span>
+                      <span>{T[getPreset(job.preset).labelKey]}</span>
+                      <span>{job.completedChunks}/{job.totalChunks} {T.partsDone}</span>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleResumeJob(job)}
+                      className="px-4 py-2 bg-[#10a37f] hover:bg-[#0e906f] text-white rounded-full text-xs font-bold uppercase border border-transparent transition-colors"
+                    >
+                      {T.resume}
+                    </button>
+                    <button
+                      onClick={() => handleDiscardJob(job)}
+                      className="px-4 py-2 text-gray-400 hover:text-red-400 rounded-full text-xs font-bold uppercase border border-white/10 transition-colors"
+                    >
+                      {T.discard}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Batch Queue */}
+          {batch.length > 0 && (
+            <BatchQueue
+              items={batch}
+              state={batchState}
+              canView={isInteractionEnabled && batchState !== 'running'}
+              onStart={runBatch}
+              onPause={handlePauseBatch}
+              onMove={handleMoveBatchItem}
+              onRemove={handleRemoveBatchItem}
+              onView={handleViewBatchItem}
+              onClearFinished={handleClearFinishedBatch}
+              onAddFolder={() => document.getElementById('folderInput')?.click()}
+              T={T}
+            />
+          )}
+
           {/* File Upload Area */}
           <div className="relative group">
              {/* Hidden File Input */}
              <input
                 type="file"
                 id="fileInput"
-                accept=".zip,.pdf,.fb2,.xml,.txt,.md"
+                accept={SUPPORTED_EXTENSIONS.join(',')}
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
                 disabled={!isInteractionEnabled}
              />
+             {/* Folder picker - always queued, so it stays available while a book is processed; webkitdirectory is non-standard, hence the spread */}
+             <input
+                type="file"
+                id="folderInput"
+                {...{ webkitdirectory: '' }}
+                onChange={handleFileChange}
+                className="hidden"
+             />
              
              {/* Main Card UI */}
-             <div className="bg-[#212121] rounded-[2rem] p-4 md:p-6 border border-white/20 transition-colors">
+             <div
+                className="bg-[#212121] rounded-[2rem] p-4 md:p-6 border border-white/20 transition-colors"
+                onDragOver={e => e.preventDefault()}
+                onDrop={handleDrop}
+             >
                 
                 {/* 1. STATE: NO FILE SELECTED (Big Clickable Area) */}
                 {!file && (
@@ -579,24 +2040,73 @@ const App = () => {
                         </div>
                         <div className="text-center">
                             <span className="text-gray-200 font-semibold text-xl md:text-lg">{T.selectFile}</span>
-                            <p className="text-gray-500 text-sm md:text-xs mt-1">ZIP, PDF, FB2, TXT, MD</p>
+                            <p className="text-gray-500 text-sm md:text-xs mt-1">ZIP, EPUB, PDF, FB2, TXT, MD</p>
+                            <p className="text-gray-600 text-xs mt-2">{T.batchHint}</p>
                         </div>
                     </label>
                 )}
+                {!file && (
+                    <div className="flex justify-center mt-2">
+                        <label
+                            htmlFor="folderInput"
+                            className="px-4 py-2 text-gray-400 hover:text-white text-xs font-bold uppercase tracking-wider rounded-full border border-white/10 hover:border-white/30 cursor-pointer transition-colors"
+                        >
+                            {T.addFolder}
+                        </label>
+                    </div>
+                )}
 
                 {/* 2. STATE: FILE SELECTED (File Info + Actions) */}
                 {file && (
                     <div className="flex flex-col items-center gap-6 py-4 w-full">
                         {/* File Info */}
-                        <div className="flex flex-col items-center">
-                            <div className="w-12 h-12 bg-[#2f2f2f] rounded-full flex items-center justify-center border border-white/10 mb-3">
-                                <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                                </svg>
-                            </div>
-                            <p className="font-serif text-xl text-white text-center px-4 break-words max-w-full">{file.name}</p>
-                            <p className="text-xs text-[#10a37f] font-mono mt-1 uppercase tracking-wider">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
-                        </div>
+                        <BookCard fileName={file.name} fileSize={file.size} metadata={bookMetadata} sourceLanguage={sourceLanguage} />
+
+                        {/* Scans carry no text to detect the language from, so it is asked for unless the PDF declares it */}
+                        {isInteractionEnabled && scannedPages > 0 && !declaredLanguage(bookMetadata?.language) && (
+                            <label className="flex items-center gap-2 text-xs text-gray-500">
+                                {T.bookLanguage}
+                                <select
+                                    value={bookLanguage}
+                                    onChange={e => handleBookLanguageChange(e.target.value as Language)}
+                                    className="bg-[#212121] border border-white/20 rounded-full px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-white/40"
+                                >
+                                    {getLanguagePacks().map(({ code, nativeName }) => (
+                                        <option key={code} value={code}>{nativeName}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )}
+
+                        {isInteractionEnabled && (
+                            <PresetPicker current={preset} onChange={handlePresetChange} T={T} />
+                        )}
+
+                        {isInteractionEnabled && file instanceof File && (showPreview && preview?.file === file ? (
+                            <PreviewPanel
+                                chunks={preview.chunks}
+                                cleaning={preview.cleaning}
+                                excluded={preview.excluded}
+                                onToggleChunk={handleTogglePreviewChunk}
+                                chunkSize={chunkSize}
+                                onChunkSizeChange={handleChunkSizeChange}
+                                tokenCounts={preview.tokenCounts}
+                                priceTable={priceTable}
+                                model={providerSettings.model}
+                                buildPrompts={buildPreviewPrompts}
+                                onStart={() => { setShowPreview(false); processBook(); }}
+                                onClose={() => setShowPreview(false)}
+                                T={T}
+                            />
+                        ) : (
+                            <button
+                                onClick={handleOpenPreview}
+                                disabled={isPreparingPreview}
+                                className="px-4 py-1.5 text-xs text-gray-500 hover:text-gray-200 rounded-full border border-white/10 hover:border-white/30 transition-colors disabled:opacity-50"
+                            >
+                                {isPreparingPreview ? T.statusReading : `${T.preview}${preview?.file === file && preview.excluded.length > 0 ? ` (${preview.chunks.length - preview.excluded.length}/${preview.chunks.length} ${T.parts})` : ''}`}
+                            </button>
+                        ))}
 
                         {/* Action Buttons */}
                         <div className="w-full max-w-md grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
@@ -613,7 +2123,7 @@ const App = () => {
                             {/* Start Analysis (Primary Green) - text-base for better readability */}
                             {isInteractionEnabled && (
                                 <button
-                                    onClick={processBook}
+                                    onClick={() => processBook()}
                                     className="flex items-center justify-center px-6 py-3 bg-[#10a37f] hover:bg-[#0e906f] text-white rounded-full text-base md:text-sm font-bold uppercase tracking-wider transition-all border border-transparent text-center leading-tight min-h-[64px] md:min-h-[56px] select-none shadow-md"
                                 >
                                     <div className="flex items-center gap-2">
@@ -629,10 +2139,28 @@ const App = () => {
                              {/* Processing State - spans full width in both layouts */}
                              {(!isInteractionEnabled) && (
                                 <div className="col-span-1 sm:col-span-2 flex items-center justify-center px-8 py-3 bg-[#2f2f2f] text-gray-200 rounded-full font-medium border border-white/10 gap-3 min-h-[64px] md:min-h-[56px]">
-                                    <div className="w-5 h-5 border-2 border-gray-500 border-t-white rounded-full animate-spin"></div>
-                                    <span className="text-base md:text-sm uppercase tracking-wider">{currentStatusMsg || T.statusThinking}</span>
+                                    <div className={`w-5 h-5 border-2 border-gray-500 border-t-white rounded-full ${isPaused ? '' : 'animate-spin'}`}></div>
+                                    <span className="text-base md:text-sm uppercase tracking-wider">{isPaused ? T.paused : (currentStatusMsg || T.statusThinking)}</span>
                                 </div>
                              )}
+
+                             {/* Pause / Resume + Cancel - only once the pipeline has a run to control */}
+                             {(!isInteractionEnabled) && (runRef.current || synthesisRef.current) && (
+                                <>
+                                    <button
+                                        onClick={handleTogglePause}
+                                        className="flex items-center justify-center px-6 py-3 bg-transparent hover:bg-white/5 text-white rounded-full text-base md:text-sm font-bold uppercase tracking-wider border border-white/20 transition-all min-h-[56px] md:min-h-[48px] select-none"
+                                    >
+                                        {isPaused ? T.resume : T.pause}
+                                    </button>
+                                    <button
+                                        onClick={handleCancel}
+                                        className="flex items-center justify-center px-6 py-3 bg-transparent hover:bg-red-500/10 text-red-400 rounded-full text-base md:text-sm font-bold uppercase tracking-wider border border-red-400/30 transition-all min-h-[56px] md:min-h-[48px] select-none"
+                                    >
+                                        {T.cancel}
+                                    </button>
+                                </>
+                             )}
                         </div>
                     </div>
                 )}
@@ -689,6 +2217,11 @@ const App = () => {
                 </div>
               )}
 
+              {/* Request Queue - live scheduler state */}
+              {queueTasks.length > 0 && (
+                <QueueView tasks={queueTasks} T={T} />
+              )}
+
               {/* Logs Content - Larger Text */}
               <div className="h-64 overflow-y-auto font-mono text-xs md:text-sm space-y-3 pr-2 custom-scrollbar p-1">
                 {logs.map((log) => (
@@ -706,8 +2239,72 @@ const App = () => {
             </div>
           )}
 
+          {/* Failed Parts - retry individually or all, then rebuild Phase 2/3 */}
+          {runRef.current && (failedParts.length > 0 || missingParts.length > 0) && (
+            <div className="bg-[#212121] border border-red-400/30 rounded-[2rem] p-5 md:p-6 flex flex-col gap-3">
+              <div className="flex flex-col md:flex-row justify-between md:items-center gap-3">
+                <h2 className="text-sm font-bold text-red-400 uppercase tracking-widest">{T.failedParts} ({failedParts.length})</h2>
+                <div className="flex gap-2">
+                  {failedParts.length > 0 && (
+                    <button
+                      onClick={() => handleRetryParts(failedParts.map(f => f.index))}
+                      disabled={!isInteractionEnabled}
+                      className="px-4 py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors disabled:opacity-30"
+                    >
+                      {T.retryAll}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleRebuildSummary}
+                    disabled={!isInteractionEnabled}
+                    className="px-4 py-2 bg-[#10a37f] hover:bg-[#0e906f] text-white text-xs font-bold uppercase rounded-full border border-transparent transition-colors disabled:opacity-30"
+                  >
+                    {T.rebuildSummary}
+                  </button>
+                </div>
+              </div>
+              {failedParts.map(part => (
+                <div key={part.index} className="flex justify-between items-center gap-3 bg-[#1a1a1a] rounded-xl p-3 border border-white/5">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white">{T.part} #{part.index + 1}</p>
+                    <p className="text-xs text-red-400/80 font-mono truncate" title={part.error}>{part.error}</p>
+                  </div>
+                  <button
+                    onClick={() => handleRetryParts([part.index])}
+                    disabled={!isInteractionEnabled}
+                    className="shrink-0 px-4 py-2 text-gray-300 hover:text-white text-xs font-bold uppercase rounded-full border border-white/20 transition-colors disabled:opacity-30"
+                  >
+                    {T.retry}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Live Output - Phase 2/3 streaming */}
+          {liveOutput && (
+            <div className="bg-[#212121] border border-white/20 rounded-[2rem] p-6 md:p-8 relative">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-8 border-b border-white/5 pb-6 gap-4">
+                <div>
+                  <h2 className="text-2xl font-serif text-white">{T.summaryTitle}</h2>
+                  <p className="text-xs text-gray-600 mt-2 tracking-wide uppercase flex items-center gap-2">
+                    <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
+                    {liveOutput.label}
+                  </p>
+                </div>
+                <span className="text-[10px] text-gray-500 font-mono uppercase tracking-wider">
+                  {liveOutput.text.length.toLocaleString()} {T.chars} · ~{liveOutput.tokens.toLocaleString()} tokens
+                </span>
+              </div>
+              <div 
+                className="markdown-content text-gray-300 leading-7 text-sm md:text-base font-light"
+                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(renderSourceLinks(liveOutput.text))) }}
+              />
+            </div>
+          )}
+
           {/* Final Result */}
-          {finalSummary && (
+          {finalSummary && !liveOutput && (
             <div className="bg-[#212121] border border-white/20 rounded-[2rem] p-6 md:p-8 relative">
               <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-8 border-b border-white/5 pb-6 gap-4">
                 <div>
@@ -715,12 +2312,25 @@ const App = () => {
                   <p className="text-xs text-gray-600 mt-2 tracking-wide uppercase">{T.generatedBy}</p>
                 </div>
                 <div className="flex gap-2">
-                     <button
-                      onClick={() => downloadMarkdown(finalSummary, file?.name || 'book')}
-                      className="px-4 py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors flex items-center gap-2"
-                    >
-                      MD
-                    </button>
+                    {activeHistoryItem && activeHistoryItem.kind !== 'synthesis' && (
+                      <button
+                        onClick={handleDownloadParts}
+                        title={T.downloadParts}
+                        className="px-4 py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors flex items-center gap-2"
+                      >
+                        {T.parts}
+                      </button>
+                    )}
+                    <ExportMenu
+                      onExport={format => handleExport(format, activeHistoryItem ? exportDocumentOf(activeHistoryItem) : {
+                        title: bookMetadata?.title || file?.name || 'book',
+                        authors: bookMetadata?.authors || [],
+                        language: outputLanguage.toLowerCase(),
+                        markdown: finalSummary,
+                        fileName: file?.name || 'book'
+                      })}
+                      T={T}
+                    />
                     <button
                       onClick={() => copyToClipboard(finalSummary)}
                       className="px-4 py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors flex items-center gap-2"
@@ -729,19 +2339,67 @@ const App = () => {
                     </button>
                 </div>
               </div>
+              {missingParts.length > 0 && (
+                <div className="mb-6 bg-amber-400/10 border border-amber-400/30 text-amber-400 rounded-xl px-4 py-3 text-sm">
+                  {T.missingPartsNotice} #{missingParts.join(', #')}
+                </div>
+              )}
               <div 
                 className="markdown-content text-gray-300 leading-7 text-sm md:text-base font-light"
-                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(finalSummary)) }}
+                onClick={handleSummaryClick}
+                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(renderSourceLinks(finalSummary))) }}
               />
             </div>
           )}
+
+          {/* Questions about the book */}
+          {finalSummary && !liveOutput && processingState === ProcessingState.COMPLETED && activeHistoryItem && (
+            <AskPanel
+              messages={activeHistoryItem.conversation || []}
+              canAsk={bookIndex !== null && activeHistoryItem.kind !== 'synthesis'}
+              isAnswering={isAnswering}
+              error={askError}
+              onAsk={handleAsk}
+              onClear={handleClearConversation}
+              onAnswerClick={handleSummaryClick}
+              T={T}
+            />
+          )}
         </div>
       )}
 
+      {openSourceRef && (
+        <SourcePanel
+          sourceRef={openSourceRef}
+          part={sourceChunks?.[openSourceRef.part - 1] || null}
+          onClose={() => setOpenSourceRef(null)}
+          T={T}
+        />
+      )}
+
       {/* TAB: HISTORY */}
       {activeTab === 'history' && (
         <div className="animate-fade-in space-y-4">
-            <div className="flex justify-end gap-2 mb-4">
+            {storageUsage && storageUsage.quota > 0 && (
+                <div className="flex items-center gap-3 text-[10px] text-gray-500 uppercase tracking-wider px-1">
+                    <span>{T.storageUsed}</span>
+                    <div className="flex-1 h-1 bg-[#2f2f2f] rounded-full overflow-hidden">
+                        <div
+                            className={`h-full ${storageUsage.usage / storageUsage.quota > 0.9 ? 'bg-red-400' : 'bg-[#10a37f]'}`}
+                            style={{ width: `${Math.min(100, Math.max(1, (storageUsage.usage / storageUsage.quota) * 100))}%` }}
+                        />
+                    </div>
+                    <span className="font-mono normal-case">{formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}</span>
+                </div>
+            )}
+            <div className="flex flex-col md:flex-row md:justify-end gap-2 mb-4">
+                <input
+                    type="search"
+                    value={historyQuery.search}
+                    onChange={e => setHistoryQuery({ ...historyQuery, search: e.target.value })}
+                    placeholder={T.searchHistory}
+                    className="md:mr-auto md:w-72 bg-[#212121] border border-white/20 rounded-full px-4 py-2 text-xs text-gray-200 focus:outline-none focus:border-white/40"
+                />
                 <input 
                     type="file" 
                     ref={fileInputRef}
@@ -749,6 +2407,12 @@ const App = () => {
                     className="hidden"
                     onChange={handleImportBackup}
                 />
+                <button
+                    onClick={handleToggleUsage}
+                    className={`text-xs px-4 py-2 rounded-full border transition-colors ${usageRecords ? 'bg-[#2f2f2f] text-white border-white/40' : 'text-gray-400 hover:text-white bg-[#212121] hover:bg-[#2f2f2f] border-white/20'}`}
+                >
+                    {T.usage}
+                </button>
                 <button 
                     onClick={() => fileInputRef.current?.click()}
                     className="text-xs text-gray-400 hover:text-white bg-[#212121] hover:bg-[#2f2f2f] px-4 py-2 rounded-full border border-white/20 transition-colors"
@@ -757,13 +2421,49 @@ const App = () => {
                 </button>
                 <button 
                     onClick={handleExportBackup}
-                    disabled={history.length === 0}
+                    disabled={historyCount === 0}
                     className="text-xs text-gray-400 hover:text-white bg-[#212121] hover:bg-[#2f2f2f] px-4 py-2 rounded-full border border-white/20 transition-colors disabled:opacity-30"
                 >
                     {T.export}
                 </button>
             </div>
 
+            {usageRecords && (
+                <UsageDashboard records={usageRecords} priceTable={priceTable} onPriceTableChange={handlePriceTableChange} T={T} />
+            )}
+
+            {historyCount > 0 && (
+                <HistoryFilters query={historyQuery} facets={historyFacets} onChange={setHistoryQuery} T={T} />
+            )}
+
+            {selectedHistoryIds.length > 0 && (
+                <div className="flex flex-wrap items-center justify-between gap-3 bg-[#212121] border border-[#10a37f]/40 rounded-full px-5 py-2">
+                    <span className="text-xs text-gray-400">{T.selectedForSynthesis}: {selectedHistoryIds.length}</span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setSelectedHistoryIds([])}
+                            className="text-xs text-gray-400 hover:text-white px-4 py-2 rounded-full border border-white/20 transition-colors"
+                        >
+                            {T.clearSelection}
+                        </button>
+                        <button
+                            onClick={handleExportNotes}
+                            className="text-xs text-gray-400 hover:text-white px-4 py-2 rounded-full border border-white/20 transition-colors"
+                        >
+                            {T.exportNotes}
+                        </button>
+                        <button
+                            onClick={handleSynthesize}
+                            disabled={selectedHistoryIds.length < 2 || !isInteractionEnabled || batchState === 'running'}
+                            title={selectedHistoryIds.length < 2 ? T.synthesisHint : undefined}
+                            className="px-4 py-2 bg-[#10a37f] hover:bg-[#0e906f] text-white text-xs font-bold uppercase rounded-full border border-transparent transition-colors disabled:opacity-30"
+                        >
+                            {T.synthesize}
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {history.length === 0 ? (
                 <div className="text-center py-20 text-gray-800">
                     <p>{T.historyEmpty}</p>
@@ -773,21 +2473,66 @@ const App = () => {
                     {history.map((item) => (
                         <div key={item.id} className="bg-[#212121] border border-white/20 rounded-3xl p-6 hover:bg-[#262626] transition-colors group">
                             <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
-                                <div>
-                                    <h3 className="font-serif text-lg text-white mb-1 group-hover:text-green-400 transition-colors">{item.fileName}</h3>
-                                    <div className="flex gap-3 text-xs text-gray-600">
+                                <div className="flex gap-4 items-center min-w-0">
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedHistoryIds.includes(item.id)}
+                                    onChange={() => toggleHistorySelection(item.id)}
+                                    title={T.selectForSynthesis}
+                                    className="w-4 h-4 shrink-0 accent-[#10a37f] cursor-pointer"
+                                  />
+                                  {item.metadata?.coverImage && (
+                                    <img src={item.metadata.coverImage} alt="" className="w-10 rounded border border-white/10 shrink-0" />
+                                  )}
+                                  <div className="min-w-0">
+                                    <div className="flex items-start gap-2">
+                                      <button
+                                        onClick={() => patchHistoryItem(item.id, i => ({ ...i, favorite: !i.favorite }))}
+                                        title={T.favorite}
+                                        className={`text-lg leading-7 shrink-0 transition-colors ${item.favorite ? 'text-amber-400' : 'text-gray-700 hover:text-amber-400'}`}
+                                      >
+                                        {item.favorite ? '★' : '☆'}
+                                      </button>
+                                      <h3 className="font-serif text-lg text-white mb-1 group-hover:text-green-400 transition-colors break-words">{item.metadata?.title || item.fileName}</h3>
+                                    </div>
+                                    {item.metadata?.authors && item.metadata.authors.length > 0 && (
+                                        <p className="text-sm text-gray-400 mb-1">{item.metadata.authors.join(', ')}</p>
+                                    )}
+                                    <div className="flex flex-wrap gap-3 text-xs text-gray-600">
                                         <span>{new Date(item.timestamp).toLocaleString()}</span>
-                                        <span className="px-2 py-0.5 bg-[#2f2f2f] rounded-full text-gray-400">{item.language}</span>
+                                        <span className="px-2 py-0.5 bg-[#2f2f2f] rounded-full text-gray-400">{item.sourceLanguage ? `${item.sourceLanguage} → ` : ''}{item.language}</span>
+                                        <span>{item.kind === 'synthesis' ? T.synthesis : T[getPreset(item.preset).labelKey]}</span>
+                                        <span>{item.provider || 'gemini'} / {item.model}</span>
+                                        <span
+                                            className="font-mono"
+                                            title={item.usage ? describeUsage(item.usage) : undefined}
+                                        >
+                                            {item.tokenUsage.toLocaleString()} tok
+                                            {itemCost(item, priceTable) !== null && ` · ${formatCost(itemCost(item, priceTable)!, priceTable.currency)}`}
+                                        </span>
                                     </div>
+                                    {item.kind === 'synthesis' && item.sourceItemIds && (
+                                        <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                                            <span className="text-gray-600">{T.synthesisSources}:</span>
+                                            {item.sourceItemIds.map((id, idx) => (
+                                                <button key={id} onClick={() => openHistoryItemById(id)} className="text-gray-400 hover:text-green-400 underline decoration-dotted">
+                                                    {item.sourceTitles?.[idx] || history.find(h => h.id === id)?.fileName || `#${idx + 1}`}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <TagEditor
+                                        tags={item.tags || []}
+                                        onChange={tags => patchHistoryItem(item.id, i => ({ ...i, tags }))}
+                                        onSelect={tag => setHistoryQuery({ ...historyQuery, tag })}
+                                        T={T}
+                                    />
+                                  </div>
                                 </div>
                                 <div className="flex gap-2">
+                                    <ExportMenu onExport={format => handleExport(format, exportDocumentOf(item))} compact T={T} />
                                     <button 
-                                        onClick={() => {
-                                            setFinalSummary(item.summary);
-                                            setFile({ name: item.fileName } as File);
-                                            setActiveTab('analyze');
-                                            setProcessingState(ProcessingState.COMPLETED);
-                                        }}
+                                        onClick={() => handleViewHistoryItem(item)}
                                         className="px-4 py-2 bg-[#2f2f2f] hover:bg-[#10a37f] text-gray-300 hover:text-white rounded-full text-xs font-bold uppercase border border-white/20 transition-colors"
                                     >
                                         {T.view}
@@ -806,6 +2551,17 @@ const App = () => {
                     ))}
                 </div>
             )}
+
+            {history.length < historyTotal && (
+                <div className="flex justify-center">
+                    <button
+                        onClick={() => loadHistory(false)}
+                        className="text-xs text-gray-400 hover:text-white bg-[#212121] hover:bg-[#2f2f2f] px-6 py-2 rounded-full border border-white/20 transition-colors"
+                    >
+                        {T.loadMore} ({history.length}/{historyTotal})
+                    </button>
+                </div>
+            )}
         </div>
       )}
     </div>
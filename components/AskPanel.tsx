@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { renderSourceLinks } from '../utils/citations';
+import { ChatMessage } from '../types';
+
+declare const marked: any;
+declare const DOMPurify: any;
+
+// Follow-up questions about a finished book; answers cite parts as links that open the source panel
+const AskPanel = ({
+  messages,
+  canAsk,
+  isAnswering,
+  error,
+  onAsk,
+  onClear,
+  onAnswerClick,
+  T
+}: {
+  messages: ChatMessage[],
+  // False when the book text is not loaded, e.g. for items opened from history
+  canAsk: boolean,
+  isAnswering: boolean,
+  error: string,
+  onAsk: (question: string) => void,
+  onClear: () => void,
+  onAnswerClick: (e: React.MouseEvent<HTMLDivElement>) => void,
+  T: any
+}) => {
+  const [question, setQuestion] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages.length, isAnswering]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || !canAsk || isAnswering) return;
+    onAsk(text);
+    setQuestion("");
+  };
+
+  return (
+    <div className="bg-[#212121] rounded-[2rem] p-4 md:p-6 border border-white/20 flex flex-col gap-4">
+      <div className="flex justify-between items-center gap-2">
+        <h2 className="text-sm font-bold text-gray-500 uppercase tracking-widest">{T.ask}</h2>
+        {messages.length > 0 && (
+          <button
+            onClick={onClear}
+            disabled={isAnswering}
+            className="text-xs text-gray-500 hover:text-red-400 px-3 py-1 rounded-full border border-white/10 transition-colors disabled:opacity-30"
+          >
+            {T.clearConversation}
+          </button>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <div className="flex flex-col gap-3 max-h-[60vh] overflow-y-auto custom-scrollbar pr-1">
+          {messages.map((message, idx) => message.role === 'user' ? (
+            <div key={idx} className="self-end max-w-[85%] bg-[#2f2f2f] text-gray-200 rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap">
+              {message.text}
+            </div>
+          ) : (
+            <div key={idx} className="self-start max-w-full">
+              <div
+                className="markdown-content text-gray-300 leading-7 text-sm font-light"
+                onClick={onAnswerClick}
+                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(renderSourceLinks(message.text))) }}
+              />
+              {message.parts && message.parts.length > 0 && (
+                <p className="text-[10px] text-gray-600 font-mono mt-1">{T.partsUsed}: {message.parts.join(', ')}</p>
+              )}
+            </div>
+          ))}
+          {isAnswering && (
+            <div className="self-start flex items-center gap-2 text-xs text-gray-500">
+              <div className="w-3 h-3 border-2 border-gray-500 border-t-white rounded-full animate-spin"></div>
+              {T.statusThinking}
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 break-words">{error}</p>}
+
+      {canAsk ? (
+        <form onSubmit={submit} className="flex gap-2">
+          <input
+            type="text"
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder={T.askPlaceholder}
+            disabled={isAnswering}
+            className="flex-1 bg-[#1a1a1a] border border-white/10 rounded-full px-4 py-2 text-sm text-gray-200 focus:outline-none focus:border-white/30 disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={isAnswering || question.trim().length === 0}
+            className="px-5 py-2 bg-[#10a37f] hover:bg-[#0e906f] text-white text-xs font-bold uppercase rounded-full transition-colors disabled:opacity-30"
+          >
+            {T.askButton}
+          </button>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500">{T.askUnavailable}</p>
+      )}
+    </div>
+  );
+};
+
+export default AskPanel;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchItemStatus, UiTextKey } from '../types';
+
+const STATUS_LABEL_KEYS: Record<BatchItemStatus, UiTextKey> = {
+  queued: 'batchQueued',
+  running: 'batchRunning',
+  done: 'batchDone',
+  failed: 'batchFailed',
+  cancelled: 'batchCancelled'
+};
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-[#2f2f2f] text-gray-400 border-white/10',
+  running: 'bg-[#10a37f]/20 text-[#10a37f] border-[#10a37f]/40 animate-pulse',
+  done: 'bg-[#10a37f] text-white border-transparent',
+  failed: 'bg-red-500/20 text-red-400 border-red-400/40',
+  cancelled: 'bg-amber-400/10 text-amber-400 border-amber-400/40'
+};
+
+const buttonClass = "px-4 py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors disabled:opacity-30";
+const iconButtonClass = "px-2 py-1 text-gray-500 hover:text-white text-xs rounded-full border border-white/10 transition-colors disabled:opacity-20 disabled:hover:text-gray-500";
+
+// Books processed one after another; each keeps its own status, progress and log
+const BatchQueue = ({
+  items,
+  state,
+  canView,
+  onStart,
+  onPause,
+  onMove,
+  onRemove,
+  onView,
+  onClearFinished,
+  onAddFolder,
+  T
+}: {
+  items: BatchItem[],
+  state: 'idle' | 'running' | 'paused',
+  canView: boolean,
+  onStart: () => void,
+  onPause: () => void,
+  onMove: (id: string, delta: number) => void,
+  onRemove: (id: string) => void,
+  onView: (item: BatchItem) => void,
+  onClearFinished: () => void,
+  onAddFolder: () => void,
+  T: any
+}) => {
+  const [openLogs, setOpenLogs] = useState<string | null>(null);
+
+  const queuedCount = items.filter(i => i.status === 'queued').length;
+  const finishedCount = items.filter(i => i.status !== 'queued' && i.status !== 'running').length;
+
+  return (
+    <div className="bg-[#212121] rounded-[2rem] p-4 md:p-6 border border-white/20 flex flex-col gap-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-sm font-bold text-gray-500 uppercase tracking-widest">
+          {T.batchQueue} <span className="font-mono">({finishedCount}/{items.length})</span>
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onAddFolder} className={buttonClass}>{T.addFolder}</button>
+          <button onClick={onClearFinished} disabled={finishedCount === 0} className={buttonClass}>{T.clearFinished}</button>
+          {state === 'running' ? (
+            <button onClick={onPause} className={buttonClass}>{T.pauseQueue}</button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={queuedCount === 0}
+              className="px-4 py-2 bg-[#10a37f] hover:bg-[#0e906f] text-white text-xs font-bold uppercase rounded-full border border-transparent transition-colors disabled:opacity-30"
+            >
+              {state === 'paused' ? T.resumeQueue : T.startQueue}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {state === 'paused' && queuedCount > 0 && (
+        <p className="text-xs text-amber-400">{T.batchPausing}</p>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {items.map((item, idx) => (
+          <div key={item.id} className="bg-[#1a1a1a] rounded-xl p-3 border border-white/5 flex flex-col gap-2">
+            <div className="flex items-center gap-3">
+              <span className={`px-2 py-0.5 rounded-md border text-[10px] font-mono uppercase shrink-0 ${STATUS_STYLES[item.status]}`}>
+                {T[STATUS_LABEL_KEYS[item.status]]}
+              </span>
+              <span className="flex-1 min-w-0 text-sm text-gray-200 truncate" title={item.file.name}>{item.file.name}</span>
+              <span className="text-[10px] text-gray-500 font-mono shrink-0">{item.progress}%</span>
+              <div className="flex gap-1 shrink-0">
+                {item.status === 'queued' ? (
+                  <>
+                    <button onClick={() => onMove(item.id, -1)} disabled={items[idx - 1]?.status !== 'queued'} title={T.moveUp} className={iconButtonClass}>↑</button>
+                    <button onClick={() => onMove(item.id, 1)} disabled={items[idx + 1]?.status !== 'queued'} title={T.moveDown} className={iconButtonClass}>↓</button>
+                    <button onClick={() => onRemove(item.id)} title={T.remove} className={iconButtonClass}>✕</button>
+                  </>
+                ) : (
+                  <>
+                    {item.logs.length > 0 && (
+                      <button onClick={() => setOpenLogs(openLogs === item.id ? null : item.id)} className={iconButtonClass}>{T.showLogs}</button>
+                    )}
+                    {item.historyId && (
+                      <button onClick={() => onView(item)} disabled={!canView} className={iconButtonClass}>{T.view}</button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="h-1 bg-[#2f2f2f] rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all ${item.status === 'failed' ? 'bg-red-400' : item.status === 'cancelled' ? 'bg-amber-400' : 'bg-[#10a37f]'}`}
+                style={{ width: `${item.progress}%` }}
+              />
+            </div>
+
+            {item.error && <p className="text-xs text-red-400 break-words">{item.error}</p>}
+
+            {openLogs === item.id && (
+              <div className="max-h-48 overflow-y-auto font-mono text-[11px] space-y-1 custom-scrollbar">
+                {item.logs.map(log => (
+                  <div key={log.id} className={
+                    log.type === 'error' ? 'text-red-400' :
+                    log.type === 'success' ? 'text-[#10a37f]' :
+                    log.type === 'warning' ? 'text-amber-400' : 'text-gray-500'
+                  }>
+                    <span className="opacity-50">{log.timestamp.toLocaleTimeString()}</span> {log.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
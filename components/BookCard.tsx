@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { BookMetadata } from '../types';
+
+// File card content: cover, title and author when the book declares them, file name otherwise
+const BookCard = ({
+  fileName,
+  fileSize,
+  metadata,
+  sourceLanguage
+}: {
+  fileName: string,
+  fileSize?: number,
+  metadata: BookMetadata | null,
+  // Detected from the text; preferred over the language the file declares
+  sourceLanguage?: string | null
+}) => {
+  const [showAnnotation, setShowAnnotation] = useState(false);
+
+  const title = metadata?.title || fileName;
+  const details = [
+    ...(metadata?.genres || []).slice(0, 2),
+    sourceLanguage || metadata?.language?.toUpperCase(),
+    metadata?.year,
+    metadata?.publisher
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-col items-center">
+      {metadata?.coverImage ? (
+        <img
+          src={metadata.coverImage}
+          alt={title}
+          className="w-24 md:w-28 rounded-lg border border-white/10 shadow-lg mb-4 object-cover"
+        />
+      ) : (
+        <div className="w-12 h-12 bg-[#2f2f2f] rounded-full flex items-center justify-center border border-white/10 mb-3">
+          <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+        </div>
+      )}
+
+      <p className="font-serif text-xl text-white text-center px-4 break-words max-w-full">{title}</p>
+      {metadata?.authors && metadata.authors.length > 0 && (
+        <p className="text-sm text-gray-400 text-center mt-1">{metadata.authors.join(', ')}</p>
+      )}
+      {details.length > 0 && (
+        <p className="text-[10px] text-gray-500 uppercase tracking-wider mt-2 text-center">{details.join(' · ')}</p>
+      )}
+
+      {/* Show the file name too when the title replaced it */}
+      <p className="text-xs text-[#10a37f] font-mono mt-1 uppercase tracking-wider text-center break-all">
+        {metadata?.title ? `${fileName}` : ''}
+        {metadata?.title && fileSize !== undefined ? ' · ' : ''}
+        {fileSize !== undefined ? `${(fileSize / 1024 / 1024).toFixed(2)} MB` : ''}
+      </p>
+
+      {metadata?.annotation && (
+        <button
+          onClick={() => setShowAnnotation(!showAnnotation)}
+          className={`mt-3 max-w-md text-xs text-gray-500 text-center leading-relaxed hover:text-gray-300 transition-colors ${showAnnotation ? '' : 'line-clamp-2'}`}
+        >
+          {metadata.annotation}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BookCard;
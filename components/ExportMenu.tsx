@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/exporters';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  md: 'Markdown (.md)',
+  note: 'Obsidian / Notion (.md)',
+  html: 'HTML (.html)',
+  pdf: 'PDF',
+  docx: 'Word (.docx)',
+  epub: 'EPUB (.epub)',
+  anki: 'Anki (.csv)'
+};
+
+// Dropdown of download formats; `onExport` builds and saves the file
+const ExportMenu = ({
+  onExport,
+  compact = false,
+  T
+}: {
+  onExport: (format: ExportFormat) => Promise<void>,
+  // Smaller button for history entries
+  compact?: boolean,
+  T: any
+}) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const choose = async (format: ExportFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      await onExport(format);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={busy}
+        className={`${compact ? 'px-3' : 'px-4'} py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors flex items-center gap-2 disabled:opacity-50`}
+      >
+        {busy ? <div className="w-3 h-3 border-2 border-gray-500 border-t-white rounded-full animate-spin"></div> : T.exportMenu}
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-52 bg-[#2f2f2f] border border-white/20 rounded-2xl py-2 shadow-xl z-20">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => choose(format)}
+              className="w-full text-left px-4 py-1.5 text-xs text-gray-300 hover:bg-[#3f3f3f] hover:text-white transition-colors"
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
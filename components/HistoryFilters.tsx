@@ -0,0 +1,105 @@
+import React from 'react';
+import { getLanguagePack } from '../languages';
+import { HistoryFacets } from '../utils/historyStore';
+import { HistoryQuery, HistorySort } from '../types';
+
+const SORT_LABELS: Record<HistorySort, string> = {
+  'date-desc': 'sortNewest',
+  'date-asc': 'sortOldest',
+  name: 'sortName',
+  tokens: 'sortTokens'
+};
+
+// <input type="date"> works with local calendar days
+const toDateInput = (timestamp?: number): string => {
+  if (timestamp === undefined) return '';
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+};
+
+const selectClass = "bg-[#212121] border border-white/20 rounded-full px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-white/40";
+
+// Filter and sort controls of the History tab; the options come from the values present in history
+const HistoryFilters = ({
+  query,
+  facets,
+  onChange,
+  T
+}: {
+  query: HistoryQuery,
+  facets: HistoryFacets,
+  onChange: (query: HistoryQuery) => void,
+  T: any
+}) => {
+  const update = (patch: Partial<HistoryQuery>) => onChange({ ...query, ...patch });
+  const isFiltered = !!(query.language || query.model || query.tag || query.favoritesOnly ||
+    query.dateFrom !== undefined || query.dateTo !== undefined || query.sort !== 'date-desc');
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={query.language || ''} onChange={e => update({ language: e.target.value || undefined })} className={selectClass}>
+        <option value="">{T.allLanguages}</option>
+        {facets.languages.map(code => (
+          <option key={code} value={code}>{getLanguagePack(code).nativeName}</option>
+        ))}
+      </select>
+      <select value={query.model || ''} onChange={e => update({ model: e.target.value || undefined })} className={`${selectClass} max-w-[12rem]`}>
+        <option value="">{T.allModels}</option>
+        {facets.models.map(model => <option key={model} value={model}>{model}</option>)}
+      </select>
+      {facets.tags.length > 0 && (
+        <select value={query.tag || ''} onChange={e => update({ tag: e.target.value || undefined })} className={selectClass}>
+          <option value="">{T.allTags}</option>
+          {facets.tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+      )}
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        {T.dateFrom}
+        <input
+          type="date"
+          value={toDateInput(query.dateFrom)}
+          onChange={e => update({ dateFrom: fromDateInput(e.target.value, false) })}
+          className={selectClass}
+        />
+      </label>
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        {T.dateTo}
+        <input
+          type="date"
+          value={toDateInput(query.dateTo)}
+          onChange={e => update({ dateTo: fromDateInput(e.target.value, true) })}
+          className={selectClass}
+        />
+      </label>
+      <button
+        onClick={() => update({ favoritesOnly: !query.favoritesOnly })}
+        className={`px-3 py-1.5 rounded-full text-xs border transition-colors ${query.favoritesOnly ? 'bg-amber-400/10 text-amber-400 border-amber-400/40' : 'text-gray-400 border-white/20 hover:text-gray-200'}`}
+      >
+        ★ {T.favorites}
+      </button>
+      <label className="flex items-center gap-1 text-xs text-gray-500 md:ml-auto">
+        {T.sortBy}
+        <select value={query.sort} onChange={e => update({ sort: e.target.value as HistorySort })} className={selectClass}>
+          {(Object.keys(SORT_LABELS) as HistorySort[]).map(sort => (
+            <option key={sort} value={sort}>{T[SORT_LABELS[sort]]}</option>
+          ))}
+        </select>
+      </label>
+      {isFiltered && (
+        <button
+          onClick={() => onChange({ search: query.search, sort: 'date-desc' })}
+          className="text-xs text-gray-500 hover:text-white px-3 py-1.5 rounded-full border border-white/10 transition-colors"
+        >
+          {T.resetFilters}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default HistoryFilters;
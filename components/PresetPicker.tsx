@@ -0,0 +1,36 @@
+import React from 'react';
+import { SUMMARY_PRESETS } from '../constants';
+import { SummaryPresetId } from '../types';
+
+// Chips for choosing the summary preset; each shows its target length
+const PresetPicker = ({
+  current,
+  onChange,
+  T
+}: {
+  current: SummaryPresetId,
+  onChange: (id: SummaryPresetId) => void,
+  T: any
+}) => {
+  return (
+    <div className="w-full max-w-md">
+      <span className="text-[10px] text-gray-500 uppercase tracking-wider mb-2 block text-center">{T.preset}</span>
+      <div className="flex flex-wrap justify-center gap-2">
+        {SUMMARY_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.id)}
+            className={`px-3 py-1.5 rounded-full text-xs border transition-colors ${current === preset.id ? 'bg-[#2f2f2f] text-white border-white/40' : 'text-gray-400 border-white/10 hover:text-gray-200 hover:border-white/20'}`}
+          >
+            <span className="font-semibold">{T[preset.labelKey]}</span>
+            <span className="ml-1.5 text-[10px] text-gray-500 font-mono">
+              {preset.targetWords === null ? T.noLengthLimit : `~${preset.targetWords.toLocaleString()} ${T.words}`}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, SECONDS_PER_CHAR } from '../constants';
+import { costOf, describeUsage, findPrice, formatCost, projectRunUsage, PromptTokenCounts, sumUsage } from '../utils/usage';
+import { CleaningReport } from '../utils/textCleaning';
+import { DocumentChunk, MatterKind, PriceTable } from '../types';
+
+export interface PreviewPrompts {
+  system: string;
+  extract: string;
+  consolidate: string;
+  polish: string;
+}
+
+type PromptTab = keyof PreviewPrompts;
+
+const PROMPT_TABS: { id: PromptTab; labelKey: string }[] = [
+  { id: 'system', labelKey: 'promptSystem' },
+  { id: 'extract', labelKey: 'promptExtract' },
+  { id: 'consolidate', labelKey: 'promptConsolidate' },
+  { id: 'polish', labelKey: 'promptPolish' }
+];
+
+export const MATTER_LABEL_KEYS: Record<MatterKind, string> = {
+  toc: 'matterToc',
+  index: 'matterIndex',
+  bibliography: 'matterBibliography',
+  copyright: 'matterCopyright'
+};
+
+// "812,345 → 760,112 chars (-6.4%); …" for the log and the preview
+export const describeCleaning = (report: CleaningReport, T: any): string => {
+  const change = report.before > 0 ? ((report.after - report.before) / report.before * 100).toFixed(1) : '0';
+  const marked = (Object.keys(report.marked) as MatterKind[])
+    .map(kind => `${T[MATTER_LABEL_KEYS[kind]]} ${report.marked[kind]!.toLocaleString()}`);
+  return [
+    `${report.before.toLocaleString()} → ${report.after.toLocaleString()} ${T.chars} (${change}%)`,
+    `${report.headerLines.toLocaleString()} ${T.headerLinesRemoved}`,
+    `${report.hyphenations.toLocaleString()} ${T.hyphenationsJoined}`,
+    ...(marked.length > 0 ? [`${T.markedForExclusion}: ${marked.join(', ')} ${T.chars}`] : [])
+  ].join('; ');
+};
+
+const LINE_PREVIEW_CHARS = 140;
+
+const edgeLines = (text: string): [string, string] => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const clip = (line = '') => line.length > LINE_PREVIEW_CHARS ? `${line.slice(0, LINE_PREVIEW_CHARS)}…` : line;
+  return [clip(lines[0]), clip(lines[lines.length - 1])];
+};
+
+const formatDuration = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  return m > 0 ? `~${m} min` : `~${seconds} s`;
+};
+
+// Dry run of processBook: the parts the book is split into, what the run is expected to
+// cost, and the prompts that will be sent. Nothing is generated until onStart.
+const PreviewPanel = ({
+  chunks,
+  cleaning,
+  excluded,
+  onToggleChunk,
+  chunkSize,
+  onChunkSizeChange,
+  tokenCounts,
+  priceTable,
+  model,
+  buildPrompts,
+  onStart,
+  onClose,
+  T
+}: {
+  chunks: DocumentChunk[],
+  cleaning: CleaningReport,
+  // Indexes of parts that will not be sent
+  excluded: number[],
+  onToggleChunk: (idx: number) => void,
+  chunkSize: number,
+  onChunkSizeChange: (size: number) => void,
+  // Null while counting
+  tokenCounts: PromptTokenCounts | null,
+  priceTable: PriceTable,
+  model: string,
+  buildPrompts: (idx: number) => PreviewPrompts,
+  onStart: () => void,
+  onClose: () => void,
+  T: any
+}) => {
+  const [sizeDraft, setSizeDraft] = useState(String(chunkSize));
+  const [promptTab, setPromptTab] = useState<PromptTab>('extract');
+  const [promptPart, setPromptPart] = useState(0);
+
+  useEffect(() => setSizeDraft(String(chunkSize)), [chunkSize]);
+  useEffect(() => setPromptPart(0), [chunks]);
+
+  const included = chunks.map((_, idx) => idx).filter(idx => !excluded.includes(idx));
+  const includedChars = included.reduce((sum, idx) => sum + chunks[idx].text.length, 0);
+  const usage = tokenCounts && included.length > 0 ? projectRunUsage(tokenCounts, included.map(idx => tokenCounts.parts[idx])) : null;
+  const totals = usage && sumUsage(usage);
+  const price = findPrice(model, priceTable);
+  const prompts = chunks.length > 0 ? buildPrompts(Math.min(promptPart, chunks.length - 1)) : null;
+
+  const applySize = () => {
+    const size = Math.round(Number(sizeDraft));
+    if (!size || size === chunkSize) {
+      setSizeDraft(String(chunkSize));
+      return;
+    }
+    onChunkSizeChange(Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, size)));
+  };
+
+  return (
+    <div className="w-full bg-[#1a1a1a] border border-white/10 rounded-2xl p-4 md:p-5 space-y-5 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-sm font-bold text-gray-500 uppercase tracking-widest">{T.preview}</h2>
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          {T.chunkSize}
+          <input
+            type="number"
+            min={MIN_CHUNK_SIZE}
+            max={MAX_CHUNK_SIZE}
+            step={10000}
+            value={sizeDraft}
+            onChange={e => setSizeDraft(e.target.value)}
+            onBlur={applySize}
+            onKeyDown={e => { if (e.key === 'Enter') applySize(); }}
+            className="w-28 bg-[#212121] border border-white/20 rounded-full px-3 py-1 text-xs text-gray-200 font-mono focus:outline-none focus:border-white/40"
+          />
+          {T.chars}
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          [T.parts, `${included.length} / ${chunks.length}`],
+          [T.tokens, totals ? `≈ ${(totals.input + totals.output).toLocaleString()}` : '…'],
+          [T.timeRem, formatDuration(Math.max(30, Math.ceil(includedChars * SECONDS_PER_CHAR)))],
+          [T.cost, totals && price ? `≈ ${formatCost(costOf(totals, price), priceTable.currency)}` : '—']
+        ].map(([label, value]) => (
+          <div key={label} className="bg-[#212121] rounded-xl p-3 border border-white/5 flex flex-col items-center">
+            <span className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">{label}</span>
+            <span className="text-sm font-mono text-white" title={usage ? describeUsage(usage) : undefined}>{value}</span>
+          </div>
+        ))}
+      </div>
+      {tokenCounts && !tokenCounts.exact && (
+        <p className="text-[10px] text-gray-600">{T.estimateApproximate}</p>
+      )}
+      <p className="text-[10px] text-gray-600">{T.textCleaned}: {describeCleaning(cleaning, T)}</p>
+
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+        {chunks.map((chunk, idx) => {
+          const [first, last] = edgeLines(chunk.text);
+          const isExcluded = excluded.includes(idx);
+          return (
+            <div key={idx} className={`rounded-xl border px-3 py-2 text-xs transition-opacity ${isExcluded ? 'border-white/5 opacity-40' : 'border-white/10'}`}>
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={!isExcluded}
+                  onChange={() => onToggleChunk(idx)}
+                  title={T.includePart}
+                  className="w-4 h-4 shrink-0 accent-[#10a37f] cursor-pointer"
+                />
+                <span className="font-bold text-gray-300">{T.part} {idx + 1}</span>
+                {chunk.matter && (
+                  <span className="px-2 py-0.5 rounded-full bg-amber-400/10 text-amber-400 text-[10px]">{T[MATTER_LABEL_KEYS[chunk.matter]]}</span>
+                )}
+                <span className="font-mono text-gray-600">{chunk.start.toLocaleString()}–{chunk.end.toLocaleString()}</span>
+                <span className="font-mono text-gray-600">{chunk.text.length.toLocaleString()} {T.chars}</span>
+                {tokenCounts && <span className="font-mono text-gray-600">{tokenCounts.parts[idx]?.toLocaleString()} tok</span>}
+                <button
+                  onClick={() => { setPromptPart(idx); setPromptTab('extract'); }}
+                  className="ml-auto text-gray-500 hover:text-white"
+                >
+                  {T.prompts}
+                </button>
+              </div>
+              {chunk.titles.length > 0 && (
+                <p className="mt-1 text-gray-500 truncate">{chunk.titles.join(' · ')}</p>
+              )}
+              <p className="mt-1 text-gray-400 font-serif truncate">{first}</p>
+              {last !== first && <p className="text-gray-400 font-serif truncate">… {last}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {prompts && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {PROMPT_TABS.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setPromptTab(tab.id)}
+                className={`px-3 py-1 rounded-full text-xs border transition-colors ${promptTab === tab.id ? 'bg-[#2f2f2f] text-white border-white/40' : 'text-gray-400 border-white/10 hover:text-gray-200'}`}
+              >
+                {T[tab.labelKey]}{tab.id === 'extract' ? ` · ${T.part} ${promptPart + 1}` : ''}
+              </button>
+            ))}
+          </div>
+          <pre className="bg-[#212121] border border-white/5 rounded-xl p-3 text-[11px] text-gray-400 whitespace-pre-wrap break-words max-h-64 overflow-y-auto custom-scrollbar">
+            {prompts[promptTab]}
+          </pre>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-xs text-gray-400 hover:text-white rounded-full border border-white/20 transition-colors"
+        >
+          {T.cancel}
+        </button>
+        <button
+          onClick={onStart}
+          disabled={included.length === 0}
+          className="px-5 py-2 bg-[#10a37f] hover:bg-[#0e906f] text-white text-xs font-bold uppercase rounded-full transition-colors disabled:opacity-30"
+        >
+          {T.startAnalysis}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPanel;
@@ -0,0 +1,165 @@
+import React, { useRef, useState } from 'react';
+import { getPreset, getPromptParts } from '../constants';
+import { getLanguagePacks } from '../languages';
+import { PROMPT_PHASES, TEMPLATE_VARIABLES, sanitizeTemplates } from '../utils/promptTemplates';
+import { Language, PromptPhase, PromptTemplates, PromptTemplatesFile, SummaryPresetId, UiTextKey } from '../types';
+
+const PHASE_LABEL_KEYS: Record<PromptPhase, UiTextKey> = {
+  systemInstruction: 'promptSystem',
+  extract: 'promptExtract',
+  consolidate: 'promptConsolidate',
+  polish: 'promptPolish'
+};
+
+const tabClass = (active: boolean) =>
+  `px-3 py-1.5 text-xs font-semibold rounded-full transition-all ${active ? 'bg-[#2f2f2f] text-white' : 'text-gray-400 hover:text-gray-200'}`;
+const buttonClass = "px-4 py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors disabled:opacity-30";
+
+// Edits the body of the current preset's prompts; the generated rule lines are shown below it
+// and always appended, so an override never freezes them
+const PromptEditor = ({
+  templates,
+  onChange,
+  language,
+  preset,
+  T
+}: {
+  templates: PromptTemplates,
+  onChange: (t: PromptTemplates) => void,
+  language: Language,
+  preset: SummaryPresetId,
+  T: any
+}) => {
+  const [editLanguage, setEditLanguage] = useState<Language>(language);
+  const [phase, setPhase] = useState<PromptPhase>('extract');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const parts = getPromptParts(editLanguage, preset);
+  const override = templates[editLanguage]?.[preset]?.[phase];
+  const isCustom = (lang: Language, p: PromptPhase) => templates[lang]?.[preset]?.[p] !== undefined;
+
+  const setOverride = (value: string | undefined) => {
+    const presets = { ...templates[editLanguage] };
+    const phases = { ...presets[preset] };
+    // Text equal to the built-in body is not an override
+    if (value === undefined || value === parts[phase].body || value.trim().length === 0) {
+      delete phases[phase];
+    } else {
+      phases[phase] = value;
+    }
+    if (Object.keys(phases).length > 0) presets[preset] = phases;
+    else delete presets[preset];
+    const next = { ...templates };
+    if (Object.keys(presets).length > 0) next[editLanguage] = presets;
+    else delete next[editLanguage];
+    onChange(next);
+  };
+
+  const handleExport = () => {
+    const data: PromptTemplatesFile = {
+      version: 1,
+      createdAt: Date.now(),
+      templates
+    };
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `aibooksum_prompts_${new Date().toISOString().slice(0,10)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const json = JSON.parse(event.target?.result as string) as PromptTemplatesFile;
+        if (json.version && json.templates) {
+          const imported = sanitizeTemplates(json.templates);
+          // Imported prompts replace the same language/preset/phase, other overrides are kept
+          const next = { ...templates };
+          (Object.keys(imported) as Language[]).forEach(lang => {
+            const presets = { ...next[lang] };
+            (Object.keys(imported[lang]!) as SummaryPresetId[]).forEach(id => {
+              presets[id] = { ...presets[id], ...imported[lang]![id] };
+            });
+            next[lang] = presets;
+          });
+          onChange(next);
+          alert(T.promptsImported);
+        } else {
+          alert("Invalid JSON format");
+        }
+      } catch (err) {
+        alert("Error parsing JSON");
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-[#212121] rounded-[2rem] p-4 md:p-6 border border-white/20 flex flex-col gap-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-sm font-bold text-gray-500 uppercase tracking-widest">{T.prompts} · {T[getPreset(preset).labelKey]}</h2>
+        <div className="flex gap-2">
+          <input type="file" ref={importInputRef} onChange={handleImport} accept=".json" className="hidden" />
+          <button onClick={() => importInputRef.current?.click()} className={buttonClass}>{T.import}</button>
+          <button onClick={handleExport} disabled={Object.keys(templates).length === 0} className={buttonClass}>{T.export}</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <div className="bg-[#1a1a1a] p-1 rounded-[1.25rem] flex flex-wrap gap-1 border border-white/10 w-fit">
+          {getLanguagePacks().map(({ code: lang }) => (
+            <button key={lang} onClick={() => setEditLanguage(lang)} className={tabClass(editLanguage === lang)}>
+              {lang}{PROMPT_PHASES.some(p => isCustom(lang, p)) && <span className="text-[#10a37f]"> •</span>}
+            </button>
+          ))}
+        </div>
+        <div className="bg-[#1a1a1a] p-1 rounded-full flex flex-wrap gap-1 border border-white/10 w-fit">
+          {PROMPT_PHASES.map(p => (
+            <button key={p} onClick={() => setPhase(p)} className={tabClass(phase === p)}>
+              {T[PHASE_LABEL_KEYS[p]]}{isCustom(editLanguage, p) && <span className="text-[#10a37f]"> •</span>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <textarea
+        value={override ?? parts[phase].body}
+        onChange={e => setOverride(e.target.value)}
+        rows={10}
+        className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl px-4 py-3 text-xs font-mono text-gray-200 leading-relaxed focus:outline-none focus:border-white/30 resize-y"
+      />
+      <div>
+        <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">{T.promptAppended}</p>
+        <pre className="bg-[#1a1a1a] border border-white/5 rounded-xl px-4 py-3 text-[11px] font-mono text-gray-500 whitespace-pre-wrap break-words">
+          {parts[phase].rules.trim()}
+        </pre>
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <p className="text-[10px] text-gray-500 font-mono">
+          {T.promptVariables}: {TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(' ')}
+        </p>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] uppercase tracking-wider text-gray-500">
+            {override !== undefined ? T.promptCustom : T.promptBuiltIn}
+          </span>
+          <button onClick={() => setOverride(undefined)} disabled={override === undefined} className={buttonClass}>
+            {T.promptReset}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptEditor;
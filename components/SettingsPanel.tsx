@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { createProvider } from '../utils/llmProvider';
+import { DEFAULT_PROVIDER_SETTINGS, GEMINI_MODEL } from '../constants';
+import { ProviderId, ProviderSettings } from '../types';
+
+const PROVIDERS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI-compatible' }
+];
+
+const inputClass = "w-full bg-[#1a1a1a] border border-white/10 rounded-xl px-4 py-2 text-sm text-gray-200 focus:outline-none focus:border-white/30";
+const labelClass = "text-[10px] text-gray-500 uppercase tracking-wider mb-1 block";
+
+const SettingsPanel = ({
+  settings,
+  onChange,
+  T
+}: {
+  settings: ProviderSettings,
+  onChange: (s: ProviderSettings) => void,
+  T: any
+}) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelError, setModelError] = useState<string>("");
+
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  const handleProviderChange = (provider: ProviderId) => {
+    if (provider === settings.provider) return;
+    setModels([]);
+    setModelError("");
+    // Gemini model names make no sense for a local server and vice versa
+    update({ provider, model: provider === 'gemini' ? GEMINI_MODEL : '' });
+  };
+
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true);
+    setModelError("");
+    try {
+      const list = await createProvider(settings).listModels();
+      setModels(list);
+      if (!settings.model && list.length > 0) update({ model: list[0] });
+    } catch (err: any) {
+      console.error(err);
+      setModelError(err.message || "Failed to load models");
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#212121] rounded-[2rem] p-4 md:p-6 border border-white/20 flex flex-col gap-4">
+      <h2 className="text-sm font-bold text-gray-500 uppercase tracking-widest">{T.settings}</h2>
+
+      {/* Provider Segmented Control */}
+      <div>
+        <span className={labelClass}>{T.provider}</span>
+        <div className="bg-[#1a1a1a] p-1 rounded-full flex gap-1 border border-white/10 w-fit">
+          {PROVIDERS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => handleProviderChange(p.id)}
+              className={`px-4 py-1.5 text-xs font-semibold rounded-full transition-all ${settings.provider === p.id ? 'bg-[#2f2f2f] text-white' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.provider === 'openai' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label>
+            <span className={labelClass}>{T.baseUrl}</span>
+            <input
+              className={inputClass}
+              value={settings.baseUrl}
+              placeholder={DEFAULT_PROVIDER_SETTINGS.baseUrl}
+              onChange={e => update({ baseUrl: e.target.value })}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>{T.apiKey}</span>
+            <input
+              type="password"
+              className={inputClass}
+              value={settings.apiKey}
+              onChange={e => update({ apiKey: e.target.value })}
+            />
+          </label>
+        </div>
+      )}
+
+      <div>
+        <span className={labelClass}>{T.model}</span>
+        <div className="flex gap-2">
+          <input
+            className={inputClass}
+            list="provider-models"
+            value={settings.model}
+            onChange={e => update({ model: e.target.value })}
+          />
+          <datalist id="provider-models">
+            {models.map(m => <option key={m} value={m} />)}
+          </datalist>
+          <button
+            onClick={handleLoadModels}
+            disabled={isLoadingModels}
+            className="shrink-0 px-4 py-2 bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-200 text-xs font-bold uppercase rounded-full border border-white/20 transition-colors disabled:opacity-30"
+          >
+            {T.loadModels}
+          </button>
+        </div>
+        {modelError && <p className="text-xs text-red-400 mt-2">{modelError}</p>}
+      </div>
+
+      {/* Request Scheduler Limits */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label>
+          <span className={labelClass}>{T.concurrency}</span>
+          <input
+            type="number"
+            min={1}
+            className={inputClass}
+            value={settings.concurrency}
+            onChange={e => update({ concurrency: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>{T.requestsPerMinute}</span>
+          <input
+            type="number"
+            min={0}
+            className={inputClass}
+            value={settings.requestsPerMinute}
+            onChange={e => update({ requestsPerMinute: Math.max(0, parseInt(e.target.value) || 0) })}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>{T.tokensPerMinute}</span>
+          <input
+            type="number"
+            min={0}
+            className={inputClass}
+            value={settings.tokensPerMinute}
+            onChange={e => update({ tokensPerMinute: Math.max(0, parseInt(e.target.value) || 0) })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
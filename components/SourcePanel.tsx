@@ -0,0 +1,65 @@
+import React, { useEffect } from 'react';
+import { DocumentChunk, SourceRef } from '../types';
+
+// Side panel with the book passage a summary reference points to
+const SourcePanel = ({
+  sourceRef,
+  part,
+  onClose,
+  T
+}: {
+  sourceRef: SourceRef,
+  // The part the reference points to, null when the entry was saved without it
+  part: DocumentChunk | null,
+  onClose: () => void,
+  T: any
+}) => {
+  // Close on Escape
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const passage = part?.text || '';
+  const titles = part?.titles || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40 animate-fade-in" onClick={onClose}>
+      <aside
+        className="h-full w-full md:w-[520px] bg-[#212121] border-l border-white/20 flex flex-col shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-white/10">
+          <div className="min-w-0">
+            <h3 className="text-sm font-bold text-gray-500 uppercase tracking-widest">{T.sourceTitle} · {T.part} {sourceRef.part}</h3>
+            <p className="text-xs text-gray-600 font-mono mt-1">
+              {T.chars} {sourceRef.start.toLocaleString()}–{sourceRef.end.toLocaleString()}
+            </p>
+            {titles.length > 0 && (
+              <p className="text-xs text-gray-400 mt-2 break-words">{titles.join('; ')}</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="shrink-0 w-8 h-8 rounded-full bg-[#2f2f2f] hover:bg-[#3f3f3f] text-gray-300 flex items-center justify-center border border-white/10"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {passage ? (
+            <p className="font-serif text-sm text-gray-300 leading-relaxed whitespace-pre-wrap">{passage}</p>
+          ) : (
+            <p className="text-sm text-gray-500">{T.sourceUnavailable}</p>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SourcePanel;
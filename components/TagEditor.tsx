@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+
+// Tags of a history entry: chips with a remove button and an input that adds on Enter
+const TagEditor = ({
+  tags,
+  onChange,
+  onSelect,
+  T
+}: {
+  tags: string[],
+  onChange: (tags: string[]) => void,
+  // Clicking a chip filters history by that tag
+  onSelect: (tag: string) => void,
+  T: any
+}) => {
+  const [draft, setDraft] = useState("");
+
+  const add = () => {
+    const tag = draft.trim().replace(/^#/, '').toLowerCase();
+    setDraft("");
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-[#2f2f2f] rounded-full text-[11px] text-gray-300">
+          <button onClick={() => onSelect(tag)} className="hover:text-green-400">#{tag}</button>
+          <button
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            title={T.removeTag}
+            className="w-4 h-4 flex items-center justify-center rounded-full text-gray-500 hover:text-red-400"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') add();
+          if (e.key === 'Escape') setDraft("");
+        }}
+        onBlur={add}
+        placeholder={T.addTag}
+        className="w-28 bg-transparent border-b border-white/10 px-1 py-0.5 text-[11px] text-gray-400 focus:outline-none focus:border-white/30"
+      />
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,208 @@
+import React, { useMemo } from 'react';
+import { DEFAULT_PRICE_TABLE } from '../constants';
+import { UsageRecord } from '../utils/historyStore';
+import { EMPTY_COUNTS, addCounts, findPrice, formatCost, itemCost, sumUsage, totalTokens } from '../utils/usage';
+import { ModelPrice, PriceTable, TokenCounts } from '../types';
+
+interface UsageGroup {
+  key: string;
+  entries: number;
+  counts: TokenCounts;
+  // Entries without a per-phase breakdown only have a total
+  untracked: number;
+  cost: number;
+  // Some entries of the group have no price
+  unpriced: boolean;
+}
+
+const groupUsage = (records: UsageRecord[], keyOf: (r: UsageRecord) => string, table: PriceTable): UsageGroup[] => {
+  const groups = new Map<string, UsageGroup>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key) || { key, entries: 0, counts: EMPTY_COUNTS, untracked: 0, cost: 0, unpriced: false };
+    const cost = itemCost(record, table);
+    groups.set(key, {
+      key,
+      entries: group.entries + 1,
+      counts: record.usage ? addCounts(group.counts, sumUsage(record.usage)) : group.counts,
+      untracked: group.untracked + (record.usage ? 0 : record.tokenUsage),
+      cost: group.cost + (cost || 0),
+      unpriced: group.unpriced || cost === null
+    });
+  }
+  return Array.from(groups.values());
+};
+
+const dayKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Days shown in the daily table, newest first
+const MAX_DAYS = 30;
+
+const numberInputClass = "w-20 bg-[#1a1a1a] border border-white/10 rounded px-2 py-1 text-xs text-gray-200 font-mono focus:outline-none focus:border-white/30";
+
+// Token usage and cost of all history entries, per day and per model, with the editable price table
+const UsageDashboard = ({
+  records,
+  priceTable,
+  onPriceTableChange,
+  T
+}: {
+  records: UsageRecord[],
+  priceTable: PriceTable,
+  onPriceTableChange: (table: PriceTable) => void,
+  T: any
+}) => {
+  const byDay = useMemo(() => groupUsage(records, r => dayKey(r.timestamp), priceTable)
+    .sort((a, b) => b.key.localeCompare(a.key))
+    .slice(0, MAX_DAYS), [records, priceTable]);
+  const byModel = useMemo(() => groupUsage(records, r => r.model, priceTable)
+    .sort((a, b) => totalTokens(b.counts) + b.untracked - totalTokens(a.counts) - a.untracked), [records, priceTable]);
+  const overall = useMemo(() => groupUsage(records, () => '', priceTable)[0], [records, priceTable]);
+
+  const cost = (group: UsageGroup) => `${formatCost(group.cost, priceTable.currency)}${group.unpriced ? '*' : ''}`;
+  const tokens = (group: UsageGroup) => (totalTokens(group.counts) + group.untracked).toLocaleString();
+
+  const updatePrice = (idx: number, patch: Partial<ModelPrice>) => {
+    onPriceTableChange({ ...priceTable, prices: priceTable.prices.map((p, i) => i === idx ? { ...p, ...patch } : p) });
+  };
+
+  return (
+    <div className="bg-[#212121] border border-white/20 rounded-3xl p-5 md:p-6 space-y-6">
+      {overall ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              [T.tokensInput, overall.counts.input.toLocaleString()],
+              [T.tokensOutput, overall.counts.output.toLocaleString()],
+              [T.tokensThinking, overall.counts.thinking.toLocaleString()],
+              [T.cost, cost(overall)]
+            ].map(([label, value]) => (
+              <div key={label} className="bg-[#1a1a1a] rounded-xl p-3 border border-white/5 flex flex-col items-center">
+                <span className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">{label}</span>
+                <span className="text-base font-mono text-white">{value}</span>
+              </div>
+            ))}
+          </div>
+          {overall.untracked > 0 && (
+            <p className="text-[11px] text-gray-500">{T.untrackedTokens}: {overall.untracked.toLocaleString()}</p>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <table className="w-full text-xs text-gray-400">
+              <thead>
+                <tr className="text-[10px] text-gray-600 uppercase tracking-wider text-left">
+                  <th className="font-normal pb-2">{T.usagePerDay}</th>
+                  <th className="font-normal pb-2 text-right">{T.tokens}</th>
+                  <th className="font-normal pb-2 text-right">{T.cost}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byDay.map(group => (
+                  <tr key={group.key} className="border-t border-white/5">
+                    <td className="py-1">{group.key} <span className="text-gray-600">({group.entries})</span></td>
+                    <td className="py-1 text-right font-mono">{tokens(group)}</td>
+                    <td className="py-1 text-right font-mono">{cost(group)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <table className="w-full text-xs text-gray-400">
+              <thead>
+                <tr className="text-[10px] text-gray-600 uppercase tracking-wider text-left">
+                  <th className="font-normal pb-2">{T.usagePerModel}</th>
+                  <th className="font-normal pb-2 text-right">{T.tokens}</th>
+                  <th className="font-normal pb-2 text-right">{T.cost}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byModel.map(group => (
+                  <tr key={group.key} className="border-t border-white/5">
+                    <td className="py-1 break-all">{group.key} <span className="text-gray-600">({group.entries})</span></td>
+                    <td className="py-1 text-right font-mono" title={`${T.tokensInput}: ${group.counts.input.toLocaleString()} · ${T.tokensOutput}: ${group.counts.output.toLocaleString()} · ${T.tokensThinking}: ${group.counts.thinking.toLocaleString()}`}>
+                      {tokens(group)}
+                    </td>
+                    <td className="py-1 text-right font-mono">{findPrice(group.key, priceTable) ? cost(group) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-gray-600">* {T.costIncomplete}</p>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">{T.historyEmpty}</p>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest">{T.priceTable}</h3>
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            {T.currency}
+            <input
+              type="text"
+              value={priceTable.currency}
+              onChange={e => onPriceTableChange({ ...priceTable, currency: e.target.value.toUpperCase() })}
+              className={numberInputClass}
+            />
+          </label>
+          <span className="text-[10px] text-gray-600">{T.pricePerMillion}</span>
+        </div>
+        {priceTable.prices.map((price, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={price.model}
+              onChange={e => updatePrice(idx, { model: e.target.value.trim() })}
+              placeholder={T.model}
+              className="flex-1 bg-[#1a1a1a] border border-white/10 rounded px-2 py-1 text-xs text-gray-200 font-mono focus:outline-none focus:border-white/30"
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={price.input}
+              onChange={e => updatePrice(idx, { input: Math.max(0, Number(e.target.value) || 0) })}
+              title={T.tokensInput}
+              className={numberInputClass}
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={price.output}
+              onChange={e => updatePrice(idx, { output: Math.max(0, Number(e.target.value) || 0) })}
+              title={T.tokensOutput}
+              className={numberInputClass}
+            />
+            <button
+              onClick={() => onPriceTableChange({ ...priceTable, prices: priceTable.prices.filter((_, i) => i !== idx) })}
+              title={T.remove}
+              className="w-6 h-6 flex items-center justify-center rounded-full text-gray-500 hover:text-red-400"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <button
+            onClick={() => onPriceTableChange({ ...priceTable, prices: [...priceTable.prices, { model: '', input: 0, output: 0 }] })}
+            className="text-xs text-gray-400 hover:text-white px-3 py-1 rounded-full border border-white/20 transition-colors"
+          >
+            {T.addPrice}
+          </button>
+          <button
+            onClick={() => onPriceTableChange(DEFAULT_PRICE_TABLE)}
+            className="text-xs text-gray-500 hover:text-white px-3 py-1 rounded-full border border-white/10 transition-colors"
+          >
+            {T.promptReset}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
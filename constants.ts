@@ -1,241 +1,205 @@
-import { Language } from "./types";
+import { Language, PriceTable, PromptParts, PromptPhase, ProviderSettings, SummaryPreset, SummaryPresetId } from "./types";
+import { getLanguagePack, getPromptPack } from "./languages";
 
 // Chunk size updated to 100,000 as requested for broader context per chunk
 export const CHUNK_SIZE = 100000; 
+// Limits for the chunk size set in the preview
+export const MIN_CHUNK_SIZE = 10000;
+export const MAX_CHUNK_SIZE = 1000000;
+// Default worker pool size for the request scheduler (adjustable in settings)
 export const MAX_CONCURRENT_REQUESTS = 1;
+// How many drafts are merged per consolidation call; larger books get more levels
+export const CONSOLIDATION_GROUP_SIZE = 5;
+// Streaming: how often the live markdown is re-rendered, and the expected
+// consolidation output size relative to its input (for the time estimate)
+export const STREAM_RENDER_INTERVAL_MS = 250;
+export const STREAM_OUTPUT_RATIO = 0.5;
 export const GEMINI_MODEL = 'gemini-3-pro-preview';
 
-// UI Dictionary
-export const UI_TEXT: Record<Language, any> = {
-  EN: {
-    title: "AI Book Summarizer",
-    subtitle: "Deep knowledge extraction",
-    selectFile: "Select Book (ZIP, PDF, FB2, TXT, MD)",
-    changeFile: "Select Different Book",
-    startAnalysis: "Start Deep Analysis",
-    logs: "Process Log",
-    timeElapsed: "Elapsed",
-    timeRem: "Est. Left",
-    summaryTitle: "Summary",
-    generatedBy: "Generated by AI Book Summarizer",
-    download: "Download .md",
-    copy: "Copy",
-    copySuccess: "Copied to clipboard",
-    fileParsed: "File parsed in",
-    chars: "chars",
-    chunking: "Splitting text",
-    step1: "Phase 1: Deep Extraction",
-    step2: "Phase 2: Consolidation",
-    step3: "Phase 3: Polishing & Formatting",
-    error: "Error",
-    criticalError: "Critical Error",
-    tokenUsage: "Session Token Usage",
-    checkQuota: "Check Google Quota",
-    tabAnalyze: "Analyze",
-    tabHistory: "History",
-    historyEmpty: "No summaries found yet.",
-    import: "Import JSON",
-    export: "Export JSON",
-    delete: "Delete",
-    view: "View",
-    restoreMsg: "History imported successfully",
-    statusThinking: "Analyzing content...",
-    statusReading: "Reading document...",
-    statusWriting: "Structuring final notes..."
+// Ollama's OpenAI-compatible endpoint; llama.cpp server uses http://localhost:8080/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: GEMINI_MODEL,
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: '',
+  concurrency: MAX_CONCURRENT_REQUESTS,
+  requestsPerMinute: 0,
+  tokensPerMinute: 0
+};
+
+// --- Cost estimates ---
+// Processing time: 500k chars take about 240 seconds, i.e. 0.00048 s/char
+export const SECONDS_PER_CHAR = 0.00048;
+// Expected Phase 1 output relative to its input, for estimates made before a run
+export const EXTRACT_OUTPUT_RATIO = 0.1;
+// The preview counts tokens once the prompts stop changing for this long
+export const TOKEN_COUNT_DELAY_MS = 800;
+
+// List prices in USD per million tokens (standard tier, prompts up to 200k tokens).
+// Editable in the History usage panel; local models are free unless a price is added.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: 'USD',
+  prices: [
+    { model: 'gemini-3-pro', input: 2, output: 12 },
+    { model: 'gemini-2.5-pro', input: 1.25, output: 10 },
+    { model: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+    { model: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+    { model: 'gemini-2.0-flash', input: 0.1, output: 0.4 }
+  ]
+};
+
+// Backoff for 429/503 responses: 2s, 4s, 8s, ... capped at 2 minutes
+export const MAX_REQUEST_RETRIES = 5;
+export const RETRY_BASE_DELAY_MS = 2000;
+export const RETRY_MAX_DELAY_MS = 120000;
+
+// --- Summary presets ---
+// Each preset sets a target length and the tone of the system instruction; its phase
+// prompts live in the language packs. Shared rules (heading levels, chapter order,
+// source markers, output language) are added by getPromptParts and kept outside user edits by resolvePrompts.
+export const DEFAULT_PRESET: SummaryPresetId = 'deep';
+
+export const SUMMARY_PRESETS: SummaryPreset[] = [
+  {
+    id: 'deep',
+    labelKey: 'presetDeep',
+    // No cap: the original exhaustive extraction
+    targetWords: null,
+    allowEmphasis: false,
+    role: 'a strict technical editor'
+  },
+  {
+    id: 'executive',
+    labelKey: 'presetExecutive',
+    targetWords: 600,
+    allowEmphasis: true,
+    role: 'an executive briefing writer'
+  },
+  {
+    id: 'study',
+    labelKey: 'presetStudy',
+    targetWords: 5000,
+    allowEmphasis: false,
+    role: 'a careful tutor preparing study notes'
   },
-  RU: {
-    title: "AI Book Summarizer",
-    subtitle: "Глубокий анализ книг",
-    selectFile: "Выберите книгу (ZIP, PDF, FB2, TXT, MD)",
-    changeFile: "Выбрать другую книгу",
-    startAnalysis: "Начать глубокий анализ",
-    logs: "Лог процесса",
-    timeElapsed: "В работе",
-    timeRem: "Осталось",
-    summaryTitle: "Резюме",
-    generatedBy: "Сгенерировано AI Book Summarizer",
-    download: "Скачать .md",
-    copy: "Копировать",
-    copySuccess: "Скопировано в буфер",
-    fileParsed: "Файл прочитан за",
-    chars: "симв.",
-    chunking: "Разбиение текста",
-    step1: "Этап 1: Глубокое извлечение",
-    step2: "Этап 2: Сборка (Консолидация)",
-    step3: "Этап 3: Шлифовка и структура",
-    error: "Ошибка",
-    criticalError: "Критическая ошибка",
-    tokenUsage: "Токенов за сессию",
-    checkQuota: "Проверить квоты Google",
-    tabAnalyze: "Анализ",
-    tabHistory: "История",
-    historyEmpty: "История пуста.",
-    import: "Импорт JSON",
-    export: "Экспорт JSON",
-    delete: "Удалить",
-    view: "Открыть",
-    restoreMsg: "История успешно восстановлена",
-    statusThinking: "Анализ содержимого...",
-    statusReading: "Чтение файла...",
-    statusWriting: "Формирование заметки..."
+  {
+    id: 'outline',
+    labelKey: 'presetOutline',
+    targetWords: 2500,
+    allowEmphasis: false,
+    role: 'a precise editor writing a book outline'
   },
-  ES: {
-    title: "Resumidor de Libros IA",
-    subtitle: "Extracción profunda",
-    selectFile: "Seleccionar Libro (ZIP, PDF, FB2, TXT, MD)",
-    changeFile: "Seleccionar otro libro",
-    startAnalysis: "Iniciar Análisis Profundo",
-    logs: "Registro del Proceso",
-    timeElapsed: "Transcurrido",
-    timeRem: "Restante",
-    summaryTitle: "Resumen",
-    generatedBy: "Generado por AI Book Summarizer",
-    download: "Descargar .md",
-    copy: "Copiar",
-    copySuccess: "Copiado",
-    fileParsed: "Archivo analizado en",
-    chars: "caracteres",
-    chunking: "Dividiendo texto",
-    step1: "Fase 1: Extracción Profunda",
-    step2: "Fase 2: Consolidación",
-    step3: "Fase 3: Pulido y Estructura",
-    error: "Error",
-    criticalError: "Error Crítico",
-    tokenUsage: "Uso de Tokens",
-    checkQuota: "Verificar Cuota",
-    tabAnalyze: "Analizar",
-    tabHistory: "Historial",
-    historyEmpty: "No hay historial.",
-    import: "Importar JSON",
-    export: "Exportar JSON",
-    delete: "Borrar",
-    view: "Ver",
-    restoreMsg: "Historial restaurado",
-    statusThinking: "Analizando contenido...",
-    statusReading: "Leyendo...",
-    statusWriting: "Estructurando..."
+  {
+    id: 'flashcards',
+    labelKey: 'presetFlashcards',
+    targetWords: 2500,
+    allowEmphasis: true,
+    role: 'an author of spaced-repetition flashcards'
   },
-  DE: {
-    title: "AI Buch-Zusammenfasser",
-    subtitle: "Tiefe Extraktion",
-    selectFile: "Buch auswählen (ZIP, PDF, FB2, TXT, MD)",
-    changeFile: "Anderes Buch wählen",
-    startAnalysis: "Tiefenanalyse starten",
-    logs: "Prozessprotokoll",
-    timeElapsed: "Vergangen",
-    timeRem: "Verbleibend",
-    summaryTitle: "Zusammenfassung",
-    generatedBy: "Erstellt mit AI Book Summarizer",
-    download: "Download .md",
-    copy: "Kopieren",
-    copySuccess: "Kopiert",
-    fileParsed: "Datei analysiert in",
-    chars: "Zeichen",
-    chunking: "Textaufteilung",
-    step1: "Phase 1: Tiefe Extraktion",
-    step2: "Phase 2: Konsolidierung",
-    step3: "Phase 3: Strukturierung",
-    error: "Fehler",
-    criticalError: "Kritischer Fehler",
-    tokenUsage: "Token-Verbrauch",
-    checkQuota: "Quote prüfen",
-    tabAnalyze: "Analysieren",
-    tabHistory: "Verlauf",
-    historyEmpty: "Kein Verlauf.",
-    import: "JSON Importieren",
-    export: "JSON Exportieren",
-    delete: "Löschen",
-    view: "Ansehen",
-    restoreMsg: "Verlauf wiederhergestellt",
-    statusThinking: "Inhaltsanalyse...",
-    statusReading: "Lese...",
-    statusWriting: "Strukturierung..."
+  {
+    id: 'quotes',
+    labelKey: 'presetQuotes',
+    targetWords: 2000,
+    allowEmphasis: false,
+    role: 'a meticulous editor collecting quotations'
   },
-  FR: {
-    title: "Résumeur de Livres IA",
-    subtitle: "Extraction approfondie",
-    selectFile: "Sélectionner un livre (ZIP, PDF, FB2, TXT, MD)",
-    changeFile: "Choisir un autre livre",
-    startAnalysis: "Analyse approfondie",
-    logs: "Journal",
-    timeElapsed: "Écoulé",
-    timeRem: "Restant",
-    summaryTitle: "Résumé",
-    generatedBy: "Généré par AI Book Summarizer",
-    download: "Télécharger .md",
-    copy: "Copier",
-    copySuccess: "Copié",
-    fileParsed: "Fichier analysé en",
-    chars: "caractères",
-    chunking: "Découpage",
-    step1: "Phase 1 : Extraction approfondie",
-    step2: "Phase 2 : Consolidation",
-    step3: "Phase 3 : Structure finale",
-    error: "Error",
-    criticalError: "Erreur Critique",
-    tokenUsage: "Usage des jetons",
-    checkQuota: "Vérifier quota",
-    tabAnalyze: "Analyser",
-    tabHistory: "Historique",
-    historyEmpty: "Historique vide.",
-    import: "Importer JSON",
-    export: "Exporter JSON",
-    delete: "Supprimer",
-    view: "Voir",
-    restoreMsg: "Historique restauré",
-    statusThinking: "Analyse du contenu...",
-    statusReading: "Lecture...",
-    statusWriting: "Rédaction..."
+  {
+    id: 'checklist',
+    labelKey: 'presetChecklist',
+    targetWords: 1200,
+    allowEmphasis: true,
+    role: 'a practical coach turning books into action plans'
   }
+];
+
+export const getPreset = (id?: SummaryPresetId): SummaryPreset => {
+  return SUMMARY_PRESETS.find(p => p.id === id) || SUMMARY_PRESETS[0];
 };
 
-export const getPrompts = (lang: Language) => {
-  const langNameMap = {
-    EN: "ENGLISH",
-    RU: "RUSSIAN",
-    ES: "SPANISH",
-    DE: "GERMAN",
-    FR: "FRENCH"
+// `lang` is the output language; `sourceLanguage` is the book's language when it was detected.
+// Every phase prompt is the preset's own text (`body`, which users may override) followed by
+// `rules` that are always generated: language, marker and length lines. `rules` starts with its separator.
+export const getPromptParts = (
+  lang: Language,
+  presetId: SummaryPresetId = DEFAULT_PRESET,
+  sourceLanguage?: Language
+): Record<PromptPhase, PromptParts> => {
+  const pack = getLanguagePack(lang);
+  const rules = getPromptPack(lang);
+  const preset = getPreset(presetId);
+  const texts = rules.presets[preset.id];
+  const source = sourceLanguage ? getLanguagePack(sourceLanguage) : null;
+
+  const outputLanguage = rules.outputLanguage.replace('{{language}}', pack.promptName);
+  // Only Phase 1 reads the book itself; later phases work on drafts already in the output language
+  const languageLines = source
+    ? `${rules.sourceLanguage.replace('{{source}}', `${source.nativeName} (${source.promptName})`)}\n${outputLanguage}`
+    : outputLanguage;
+
+  const polishRules = [
+    preset.allowEmphasis ? '' : rules.noEmphasis,
+    preset.targetWords === null ? '' : rules.targetLength.replace('{{words}}', String(preset.targetWords)),
+    rules.polishMarkers,
+    outputLanguage
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    systemInstruction: {
+      body: `You are ${preset.role}.`,
+      rules: `${source ? ` The source book is written in ${source.promptName}.` : ''} Your output language is ${pack.promptName}. You follow instructions literally.${preset.allowEmphasis ? '' : ' No Markdown bold or italics allowed.'}`
+    },
+    extract: { body: texts.extract, rules: `\n\n${languageLines}` },
+    consolidate: { body: texts.consolidate, rules: ` ${rules.consolidateRules}\n\n${rules.consolidateMarkers}\n\n${outputLanguage}` },
+    polish: { body: texts.polish, rules: `\n\n${polishRules}` }
+  };
+};
+
+// Cross-book synthesis runs the consolidation stage over whole summaries instead of parts of one book
+export const getSynthesisPrompts = (lang: Language) => {
+  const pack = getLanguagePack(lang);
+  const rules = getPromptPack(lang);
+
+  return {
+    systemInstruction: `You are a critical reviewer comparing several books. Your output language is ${pack.promptName}. You follow instructions literally.`,
+    synthesize: `${rules.synthesis}\n\n${rules.outputLanguage.replace('{{language}}', pack.promptName)}`
   };
+};
+
+// Ask panel: how many of the best-matching parts go into one question, how much of each,
+// and the window size used to pick the matching passages of a longer part
+export const QA_TOP_PARTS = 3;
+export const QA_PART_CHARS = 20000;
+export const QA_WINDOW_CHARS = 2000;
+// Earlier questions and answers sent along for follow-up questions
+export const QA_HISTORY_MESSAGES = 6;
 
-  const targetLang = langNameMap[lang];
-  
-  const extractPrompt = lang === 'RU' 
-    ? `Извлеки и синтезируй самую ценную, важную и практически применимую информацию из всех предоставленных источников. Полностью исключи теоретическую "воду", исторические отступления, анекдоты и любые другие неessentialные детали. Сформируй структурированное резюме, которое позволит понять суть всех источников без необходимости читать их целиком.
-    
-    Точно всё? Ты ничего не упустил? Перепроверь.
-    Язык вывода: РУССКИЙ.`
-    : `Extract and synthesize the most valuable, important, and practically applicable information from the provided text. Completely exclude theoretical "fluff", historical digressions, anecdotes, and any other non-essential details. Form a structured summary that allows understanding the essence of all sources without reading them entirely.
-    
-    Make sure you haven't missed anything important. Double check.
-    OUTPUT LANGUAGE: ${targetLang}.`;
-
-  const consolidatePrompt = lang === 'RU'
-    ? `В документе представлено несколько пересказов одного и того же источника (последовательных частей книги). Твоя задача скомпилировать из них единый, исчерпывающий пересказ, без потери полезной информации. Если используешь заголовки, то не используй заголовки старше 3 (###) включительно, используй 4, 5, 6. Изменения следует вносить в сам документ.
-    
-    Язык вывода: РУССКИЙ.`
-    : `The document contains several summaries of sequential parts of a single book. Your task is to compile them into a single, exhaustive summary without losing useful information. If using headers, do not use headers larger than Level 3 (###). Use ####, #####, ######. Merge into a cohesive text.
-    
-    OUTPUT LANGUAGE: ${targetLang}.`;
-
-  const polishPrompt = lang === 'RU'
-    ? `Структурируй текст ниже. Используй, если необходимо, заголовки H4 - H6, вложенные списки, нумерованные списки и т.д. 
-    
-    ТЕБЕ ЗАПРЕЩЕНО ИСПОЛЬЗОВАНИЕ **ЖИРНОГО** (bold) И *КУРСИВА* (italics). Не используй символы ** или * для выделения текста. ВЕСЬ ТЕКСТ ДОЛЖЕН БЫТЬ ОБЫЧНЫМ (Regular weight).
-    
-    Важно не потерять информацию, а структурировать её.
-    Язык вывода: РУССКИЙ.`
-    : `Structure the text below. Use headers H4 - H6, nested lists, numbered lists, etc.
-    
-    YOU ARE PROHIBITED FROM USING **BOLD** OR *ITALICS*. Do not use ** or * markers.
-    
-    It is important not to lose information.
-    OUTPUT LANGUAGE: ${targetLang}.`;
+export const getAnswerPrompts = (lang: Language) => {
+  const pack = getLanguagePack(lang);
+  const rules = getPromptPack(lang);
 
   return {
-    systemInstruction: `You are a strict technical editor. Your output language is ${targetLang}. You follow instructions literally. No Markdown bold or italics allowed.`,
-    extract: extractPrompt,
-    consolidate: consolidatePrompt,
-    polish: polishPrompt
+    systemInstruction: `You answer questions about a book strictly from the parts of it you are given. Your output language is ${pack.promptName}. You follow instructions literally.`,
+    answer: `${rules.answer}\n\n${rules.outputLanguage.replace('{{language}}', pack.promptName)}`
   };
-};
\ No newline at end of file
+};
+
+// History entries loaded per page in the History tab
+export const HISTORY_PAGE_SIZE = 20;
+
+// --- OCR for scanned PDFs ---
+// Loaded on the first scanned page and kept in Cache Storage, so OCR works offline afterwards.
+// Language data is kept in the same cache, one file per language pack's ocrLanguage.
+export const OCR_SCRIPT_URL = 'https://cdn.jsdelivr.net/npm/tesseract.js@5.1.1/dist/tesseract.min.js';
+export const OCR_WORKER_URL = 'https://cdn.jsdelivr.net/npm/tesseract.js@5.1.1/dist/worker.min.js';
+export const OCR_CORE_URL = 'https://cdn.jsdelivr.net/npm/tesseract.js-core@5.1.1/tesseract-core-simd-lstm.wasm.js';
+// Folder of {{language}}.traineddata.gz, the LSTM models Tesseract.js uses by default
+export const OCR_LANG_URL = 'https://cdn.jsdelivr.net/npm/@tesseract.js-data/{{language}}@1.0.0/4.0.0_best_int';
+export const OCR_CACHE_NAME = 'ocr-assets';
+// Used when the language pack names no OCR language
+export const DEFAULT_OCR_LANGUAGE = 'eng';
+// A page with fewer characters in its text layer counts as a scan if it has an image
+export const OCR_MIN_PAGE_CHARS = 20;
+// Pages are rendered at this multiple of 72 dpi
+export const OCR_RENDER_SCALE = 2.5;
@@ -0,0 +1,241 @@
+import { LanguagePack } from '../types';
+
+const de: LanguagePack = {
+  code: 'DE',
+  name: 'German',
+  nativeName: 'Deutsch',
+  promptName: 'GERMAN',
+  ocrLanguage: 'deu',
+  ui: {
+    title: "AI Buch-Zusammenfasser",
+    subtitle: "Tiefe Extraktion",
+    selectFile: "Buch auswählen (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Anderes Buch wählen",
+    startAnalysis: "Tiefenanalyse starten",
+    logs: "Prozessprotokoll",
+    timeElapsed: "Vergangen",
+    timeRem: "Verbleibend",
+    summaryTitle: "Zusammenfassung",
+    generatedBy: "Erstellt mit AI Book Summarizer",
+    download: "Download .md",
+    copy: "Kopieren",
+    copySuccess: "Kopiert",
+    fileParsed: "Datei analysiert in",
+    chars: "Zeichen",
+    chunking: "Textaufteilung",
+    step1: "Phase 1: Tiefe Extraktion",
+    step2: "Phase 2: Konsolidierung",
+    step3: "Phase 3: Strukturierung",
+    error: "Fehler",
+    criticalError: "Kritischer Fehler",
+    tokenUsage: "Token-Verbrauch",
+    checkQuota: "Quote prüfen",
+    tabAnalyze: "Analysieren",
+    tabHistory: "Verlauf",
+    historyEmpty: "Kein Verlauf.",
+    import: "JSON Importieren",
+    export: "JSON Exportieren",
+    delete: "Löschen",
+    view: "Ansehen",
+    restoreMsg: "Verlauf wiederhergestellt",
+    statusThinking: "Inhaltsanalyse...",
+    statusReading: "Lese...",
+    statusWriting: "Strukturierung...",
+    resumeTitle: "Unvollständige Analyse",
+    resume: "Fortsetzen",
+    discard: "Verwerfen",
+    partsDone: "Teile fertig",
+    settings: "Einstellungen",
+    provider: "Anbieter",
+    baseUrl: "Basis-URL",
+    model: "Modell",
+    apiKey: "API-Schlüssel (optional)",
+    loadModels: "Modelle laden",
+    concurrency: "Parallele Anfragen",
+    requestsPerMinute: "Anfragen / Min (0 = kein Limit)",
+    tokensPerMinute: "Token / Min (0 = kein Limit)",
+    queue: "Anfragewarteschlange",
+    queueRunning: "laufend",
+    queueWaiting: "wartend",
+    queueRetrying: "Wiederholung",
+    queueDone: "fertig",
+    queueFailed: "fehlgeschlagen",
+    failedParts: "Fehlgeschlagene Teile",
+    part: "Teil",
+    retry: "Wiederholen",
+    retryAll: "Alle wiederholen",
+    rebuildSummary: "Zusammenfassung neu erstellen",
+    missingPartsNotice: "Diese Zusammenfassung ist unvollständig. Fehlende Teile des Buches:",
+    pause: "Pause",
+    paused: "Pausiert",
+    cancel: "Abbrechen",
+    pausedMsg: "Pausiert. Laufende Anfragen werden beendet, neue werden nicht gestartet.",
+    resumedMsg: "Fortgesetzt.",
+    cancelledMsg: "Vom Benutzer abgebrochen.",
+    searchHistory: "Titel, Autoren und Zusammenfassungen durchsuchen...",
+    sourceTitle: "Quelle",
+    sourceUnavailable: "Der Buchtext ist bei diesem Eintrag nicht gespeichert. Analysieren Sie das Buch erneut, um die Quelle zu lesen.",
+    preset: "Art der Zusammenfassung",
+    presetDeep: "Tiefe Extraktion",
+    presetExecutive: "Management-Übersicht",
+    presetStudy: "Lernnotizen",
+    presetOutline: "Kapitelübersicht",
+    presetFlashcards: "Lernkarten",
+    presetQuotes: "Schlüsselzitate",
+    presetChecklist: "Aktions-Checkliste",
+    words: "Wörter",
+    noLengthLimit: "ohne Limit",
+    prompts: "Prompts",
+    promptSystem: "System",
+    promptExtract: "Extraktion",
+    promptConsolidate: "Konsolidierung",
+    promptPolish: "Feinschliff",
+    promptVariables: "Variablen",
+    promptAppended: "Wird automatisch an den Prompt angehängt",
+    promptCustom: "Eigener",
+    promptBuiltIn: "Standard",
+    promptReset: "Zurücksetzen",
+    promptsImported: "Prompts importiert",
+    interfaceLanguage: "Sprache der Oberfläche",
+    outputLanguage: "Sprache der Zusammenfassung",
+    sourceLanguage: "Sprache des Buches",
+    batchQueue: "Warteschlange",
+    startQueue: "Warteschlange starten",
+    pauseQueue: "Warteschlange pausieren",
+    resumeQueue: "Warteschlange fortsetzen",
+    addFolder: "Ordner hinzufügen",
+    moveUp: "Nach oben",
+    moveDown: "Nach unten",
+    remove: "Entfernen",
+    clearFinished: "Fertige entfernen",
+    batchQueued: "Wartend",
+    batchRunning: "Läuft",
+    batchDone: "Fertig",
+    batchFailed: "Fehler",
+    batchCancelled: "Abgebrochen",
+    showLogs: "Protokoll",
+    batchPausing: "Warteschlange pausiert: Das aktuelle Buch wird beendet, das nächste wartet auf Fortsetzung.",
+    batchHint: "Mehrere Dateien wählen oder einen Ordner ablegen, um sie einzureihen",
+    synthesis: "Synthese",
+    synthesize: "Vergleichen",
+    selectForSynthesis: "Für Synthese auswählen",
+    selectedForSynthesis: "Ausgewählt",
+    clearSelection: "Aufheben",
+    synthesisHint: "Mindestens zwei Zusammenfassungen zum Vergleich auswählen",
+    synthesisSources: "Quellen",
+    deletedItem: "gelöscht",
+    ask: "Das Buch fragen",
+    askPlaceholder: "Stelle eine Frage zum Buch...",
+    askButton: "Fragen",
+    askUnavailable: "Dieser Eintrag wurde ohne Buchtext gespeichert. Analysiere das Buch erneut, um Fragen zu stellen.",
+    partsUsed: "Durchsuchte Teile",
+    clearConversation: "Unterhaltung löschen",
+    storageUsed: "Speicher",
+    storageFull: "Der Browserspeicher ist voll: Die Zusammenfassung wurde nicht im Verlauf gespeichert. Lade sie herunter oder lösche alte Einträge.",
+    storageError: "Speichern im Verlauf fehlgeschlagen",
+    loadMore: "Mehr laden",
+    parts: "Teile",
+    downloadParts: "Zusammenfassung jedes Teils herunterladen (.md)",
+    partsUnavailable: "Für diesen Eintrag wurden keine Teilzusammenfassungen gespeichert.",
+    allLanguages: "Alle Sprachen",
+    allModels: "Alle Modelle",
+    allTags: "Alle Tags",
+    dateFrom: "Von",
+    dateTo: "Bis",
+    favorites: "Favoriten",
+    favorite: "Favorit",
+    sortBy: "Sortieren",
+    sortNewest: "Neueste zuerst",
+    sortOldest: "Älteste zuerst",
+    sortName: "Name",
+    sortTokens: "Token-Verbrauch",
+    resetFilters: "Zurücksetzen",
+    addTag: "Tag hinzufügen...",
+    removeTag: "Tag entfernen",
+    exportMenu: "Exportieren",
+    exportContents: "Inhalt",
+    exportFailed: "Export fehlgeschlagen",
+    exportNoCards: "In dieser Zusammenfassung wurden keine Frage/Antwort-Karten oder Abschnitte gefunden.",
+    exportNotes: "Notizen exportieren (ZIP)",
+    notesIndex: "Buchzusammenfassungen",
+    usage: "Verbrauch",
+    tokens: "Tokens",
+    tokensInput: "Eingabe",
+    tokensOutput: "Ausgabe",
+    tokensThinking: "Denken",
+    cost: "Kosten",
+    usagePerDay: "Pro Tag",
+    usagePerModel: "Pro Modell",
+    untrackedTokens: "Tokens älterer Einträge ohne Aufschlüsselung (ohne Preis)",
+    costIncomplete: "Einträge ohne Preis oder Token-Aufschlüsselung sind in den Kosten nicht enthalten.",
+    priceTable: "Preise",
+    currency: "Währung",
+    pricePerMillion: "pro 1 Mio. Tokens: Eingabe, Ausgabe (Denken wird als Ausgabe berechnet)",
+    addPrice: "Modell hinzufügen",
+    estimateApproximate: "ungefähr",
+    preview: "Vorschau",
+    chunkSize: "Teilgröße",
+    includePart: "Diesen Teil einbeziehen",
+    textCleaned: "Textbereinigung",
+    headerLinesRemoved: "Kopf-/Fußzeilen entfernt",
+    hyphenationsJoined: "Worttrennungen zusammengefügt",
+    markedForExclusion: "Zum Ausschluss markiert",
+    matterToc: "Inhaltsverzeichnis",
+    matterIndex: "Register",
+    matterBibliography: "Literaturverzeichnis",
+    matterCopyright: "Impressum",
+    ocrStarted: "Gescannte Seiten ohne Textebene, Texterkennung (OCR) läuft",
+    ocrPage: "OCR: Seite",
+    bookLanguage: "Sprache der gescannten Seiten"
+  },
+  prompts: {
+    outputLanguage: "AUSGABESPRACHE: DEUTSCH.",
+    sourceLanguage: "SPRACHE DES BUCHES: {{source}}.",
+    consolidateRules: "Wenn du Überschriften verwendest, verwende keine Überschriften größer als Ebene 3 (###). Verwende ####, #####, ######. Die Zusammenfassungen sind mit den Kapiteltiteln des Buches gekennzeichnet: Behalte die Reihenfolge und Struktur des Inhaltsverzeichnisses bei.",
+    consolidateMarkers: "Aussagen sind mit Quellenmarkierungen wie [S3:120000-215000] versehen. Behalte diese Markierungen unverändert am Ende der Aussagen, die sie belegen; wenn du Aussagen zusammenführst, behalte alle ihre Markierungen. Erfinde niemals neue Markierungen.",
+    polishMarkers: "Behalte Quellenmarkierungen wie [S3:120000-215000] unverändert neben den Aussagen, zu denen sie gehören.",
+    noEmphasis: "DU DARFST KEIN **FETT** UND KEIN *KURSIV* VERWENDEN. Verwende keine ** oder * Markierungen.",
+    targetLength: "ZIELLÄNGE: etwa {{words}} Wörter.",
+    synthesis: "Das Dokument enthält Zusammenfassungen mehrerer verschiedener Bücher, jeweils mit Titel. Vergleiche sie und schreibe einen gemeinsamen Bericht: worin die Bücher übereinstimmen, wo sie sich widersprechen und welche Ideen nur in einem von ihnen vorkommen. Nenne immer das Buch, aus dem eine Aussage stammt. Teile des Dokuments können bereits Teilvergleichsberichte sein; führe sie zusammen, ohne eine Übereinstimmung, einen Widerspruch oder eine eigene Idee zu verlieren. Verwende keine Überschriften größer als Ebene 4 (####).",
+    answer: "Beantworte die Frage ausschließlich anhand der unten nummerierten Teile des Buches. Gib nach jeder Aussage die Teile an, auf denen sie beruht, als [S<Nummer>], z. B. [S3]. Wenn die Teile die Antwort nicht enthalten, sage das klar, statt zu raten. Antworte knapp.",
+    presets: {
+      deep: {
+        extract: "Extrahiere und verdichte die wertvollsten, wichtigsten und praktisch anwendbaren Informationen aus dem bereitgestellten Text. Lass theoretisches „Füllmaterial“, historische Exkurse, Anekdoten und alle anderen unwesentlichen Details vollständig weg. Erstelle eine strukturierte Zusammenfassung, die das Wesentliche aller Quellen verständlich macht, ohne sie vollständig lesen zu müssen.\n\nStelle sicher, dass du nichts Wichtiges übersehen hast. Prüfe es noch einmal.",
+        consolidate: "Das Dokument enthält mehrere Zusammenfassungen aufeinanderfolgender Teile desselben Buches. Deine Aufgabe ist es, sie zu einer einzigen, umfassenden Zusammenfassung zusammenzuführen, ohne nützliche Informationen zu verlieren. Füge sie zu einem zusammenhängenden Text zusammen.",
+        polish: "Strukturiere den folgenden Text. Verwende Überschriften H4 - H6, verschachtelte Listen, nummerierte Listen usw.\n\nEs ist wichtig, keine Informationen zu verlieren."
+      },
+      executive: {
+        extract: "Extrahiere nur die zentrale These, die wichtigsten Argumente, die bedeutendsten Belege und die Schlussfolgerungen des bereitgestellten Textes. Lass Beispiele, Geschichten und Nebensächliches weg, sofern sie die Schlussfolgerungen nicht verändern.",
+        consolidate: "Das Dokument enthält Notizen zu aufeinanderfolgenden Teilen desselben Buches. Führe sie zu einem kurzen Briefing zusammen: die Hauptthese des Buches, seine Kernideen nach Wichtigkeit und was der Leser mitnehmen sollte. Entferne Wiederholungen und Nebenpunkte.",
+        polish: "Mache aus dem folgenden Text eine einseitige Management-Übersicht: zuerst das Fazit in einem Absatz, dann die Kernideen als kurze Liste, dann die praktischen Konsequenzen. Jeder Satz muss notwendig sein."
+      },
+      study: {
+        extract: "Schreibe ausführliche Lernnotizen zum bereitgestellten Text: Schlüsselbegriffe mit Definitionen, die Begründung jeder Hauptidee, wichtige Fakten, Namen, Zahlen und Beispiele, die beim Merken helfen. Behalte die Terminologie des Autors bei.",
+        consolidate: "Das Dokument enthält Lernnotizen zu aufeinanderfolgenden Teilen desselben Buches. Führe sie zu einem vollständigen Satz Lernnotizen zusammen, ohne Begriffe, Definitionen oder Beispiele zu verlieren. Wiederholt sich eine Idee, behalte die klarste Erklärung.",
+        polish: "Strukturiere die folgenden Lernnotizen zum Lernen: Begriffe und Definitionen, Erklärungen, Beispiele. Schließe jeden größeren Abschnitt mit zwei oder drei Wiederholungsfragen ab. Verliere keine Informationen."
+      },
+      outline: {
+        extract: "Schreibe für jedes Kapitel oder jeden Abschnitt des bereitgestellten Textes eine kurze Gliederung: worum es im Kapitel geht und seine Hauptpunkte in der Reihenfolge ihres Auftretens.",
+        consolidate: "Das Dokument enthält Kapitelgliederungen aufeinanderfolgender Teile desselben Buches. Führe sie zu einer Übersicht Kapitel für Kapitel zusammen. Behalte genau einen Eintrag pro Kapitel; führe Einträge nur zusammen, wenn sie dasselbe Kapitel beschreiben.",
+        polish: "Formatiere den folgenden Text als Kapitelübersicht: eine Überschrift pro Kapitel in der Reihenfolge des Buches, gefolgt von einer kurzen Liste seiner Hauptpunkte."
+      },
+      flashcards: {
+        extract: "Mache aus den wichtigsten Fakten, Definitionen und Ideen des bereitgestellten Textes Lernkarten. Jede Karte besteht aus einer Frage und einer kurzen, eigenständigen Antwort. Prüfe pro Karte genau einen Fakt.",
+        consolidate: "Das Dokument enthält Lernkarten zu aufeinanderfolgenden Teilen desselben Buches. Führe sie zu einem Kartenstapel zusammen: entferne doppelte Karten, behalte die beste Formulierung und die Reihenfolge des Buches.",
+        polish: "Formatiere den folgenden Kartenstapel als nummerierte Liste. Jeder Eintrag ist „F: Frage“, gefolgt von „A: Antwort“ in der nächsten Zeile. Gruppiere die Karten unter kurzen Themenüberschriften."
+      },
+      quotes: {
+        extract: "Wähle die wichtigsten und einprägsamsten Zitate aus dem bereitgestellten Text aus. Übernimm jedes Zitat wortwörtlich, paraphrasiere nie. Füge nach jedem Zitat einen Satz hinzu, warum es wichtig ist.",
+        consolidate: "Das Dokument enthält Schlüsselzitate aus aufeinanderfolgenden Teilen desselben Buches. Führe sie zu einer Sammlung zusammen: Zitate bleiben wortwörtlich, schwächere Wiederholungen desselben Gedankens entfallen, die Reihenfolge des Buches bleibt erhalten.",
+        polish: "Formatiere die folgende Sammlung: gruppiere die Zitate unter kurzen Themenüberschriften, jedes Zitat als Blockzitat (>) gefolgt von seinem Kommentar in einem Satz. Ändere niemals den Wortlaut eines Zitats."
+      },
+      checklist: {
+        extract: "Extrahiere aus dem bereitgestellten Text jede konkrete Empfehlung, Methode, Regel und jeden Schritt, den der Leser umsetzen kann. Formuliere jeden Punkt als Anweisung, die mit einem Verb beginnt. Lass Theorie weg, die zu keiner Handlung führt.",
+        consolidate: "Das Dokument enthält Handlungspunkte aus aufeinanderfolgenden Teilen desselben Buches. Führe sie zu einer Liste von Aktionen zusammen: entferne Dopplungen, fasse Schritte derselben Methode zusammen und ordne sie in einer logischen Ausführungsreihenfolge.",
+        polish: "Formatiere den folgenden Text als umsetzbare Checkliste: kurze Abschnitte mit Aufgabenpunkten („- [ ] ...“), jeder Punkt eine einzelne konkrete Aktion."
+      }
+    }
+  }
+};
+
+export default de;
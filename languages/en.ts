@@ -0,0 +1,245 @@
+import { LanguagePack } from '../types';
+
+// English is the reference pack: its UI keys define UiText, and its prompts
+// are used for every pack that does not bring its own
+export const EN_UI = {
+  title: "AI Book Summarizer",
+  subtitle: "Deep knowledge extraction",
+  selectFile: "Select Book (ZIP, EPUB, PDF, FB2, TXT, MD)",
+  changeFile: "Select Different Book",
+  startAnalysis: "Start Deep Analysis",
+  logs: "Process Log",
+  timeElapsed: "Elapsed",
+  timeRem: "Est. Left",
+  summaryTitle: "Summary",
+  generatedBy: "Generated by AI Book Summarizer",
+  download: "Download .md",
+  copy: "Copy",
+  copySuccess: "Copied to clipboard",
+  fileParsed: "File parsed in",
+  chars: "chars",
+  chunking: "Splitting text",
+  step1: "Phase 1: Deep Extraction",
+  step2: "Phase 2: Consolidation",
+  step3: "Phase 3: Polishing & Formatting",
+  error: "Error",
+  criticalError: "Critical Error",
+  tokenUsage: "Session Token Usage",
+  checkQuota: "Check Google Quota",
+  tabAnalyze: "Analyze",
+  tabHistory: "History",
+  historyEmpty: "No summaries found yet.",
+  import: "Import JSON",
+  export: "Export JSON",
+  delete: "Delete",
+  view: "View",
+  restoreMsg: "History imported successfully",
+  statusThinking: "Analyzing content...",
+  statusReading: "Reading document...",
+  statusWriting: "Structuring final notes...",
+  resumeTitle: "Unfinished analysis",
+  resume: "Resume",
+  discard: "Discard",
+  partsDone: "parts done",
+  settings: "Settings",
+  provider: "Provider",
+  baseUrl: "Base URL",
+  model: "Model",
+  apiKey: "API Key (optional)",
+  loadModels: "Load models",
+  concurrency: "Parallel requests",
+  requestsPerMinute: "Requests / min (0 = no limit)",
+  tokensPerMinute: "Tokens / min (0 = no limit)",
+  queue: "Request queue",
+  queueRunning: "running",
+  queueWaiting: "waiting",
+  queueRetrying: "retrying",
+  queueDone: "done",
+  queueFailed: "failed",
+  failedParts: "Failed parts",
+  part: "Part",
+  retry: "Retry",
+  retryAll: "Retry all",
+  rebuildSummary: "Rebuild summary",
+  missingPartsNotice: "This summary is incomplete. Missing parts of the book:",
+  pause: "Pause",
+  paused: "Paused",
+  cancel: "Cancel",
+  pausedMsg: "Paused. Running requests will finish, no new ones will start.",
+  resumedMsg: "Resumed.",
+  cancelledMsg: "Cancelled by user.",
+  searchHistory: "Search titles, authors and summaries...",
+  sourceTitle: "Source",
+  sourceUnavailable: "The book text is not stored with this entry. Analyze the book again to read the source.",
+  preset: "Summary type",
+  presetDeep: "Deep extraction",
+  presetExecutive: "Executive one-pager",
+  presetStudy: "Study notes",
+  presetOutline: "Chapter outline",
+  presetFlashcards: "Flashcards",
+  presetQuotes: "Key quotes",
+  presetChecklist: "Action checklist",
+  words: "words",
+  noLengthLimit: "no limit",
+  prompts: "Prompts",
+  promptSystem: "System",
+  promptExtract: "Extract",
+  promptConsolidate: "Consolidate",
+  promptPolish: "Polish",
+  promptVariables: "Variables",
+  promptAppended: "Added automatically after the prompt",
+  promptCustom: "Custom",
+  promptBuiltIn: "Built-in",
+  promptReset: "Reset",
+  promptsImported: "Prompts imported",
+  interfaceLanguage: "Interface language",
+  outputLanguage: "Summary language",
+  sourceLanguage: "Book language",
+  batchQueue: "Batch Queue",
+  startQueue: "Start Queue",
+  pauseQueue: "Pause Queue",
+  resumeQueue: "Resume Queue",
+  addFolder: "Add Folder",
+  moveUp: "Move up",
+  moveDown: "Move down",
+  remove: "Remove",
+  clearFinished: "Clear Finished",
+  batchQueued: "Queued",
+  batchRunning: "Running",
+  batchDone: "Done",
+  batchFailed: "Failed",
+  batchCancelled: "Cancelled",
+  showLogs: "Logs",
+  batchPausing: "Queue paused: the current book finishes, the next one waits until the queue is resumed.",
+  batchHint: "Select several files or drop a folder to queue them",
+  synthesis: "Synthesis",
+  synthesize: "Synthesize",
+  selectForSynthesis: "Select for synthesis",
+  selectedForSynthesis: "Selected",
+  clearSelection: "Clear",
+  synthesisHint: "Select at least two summaries to compare",
+  synthesisSources: "Sources",
+  deletedItem: "deleted",
+  ask: "Ask the Book",
+  askPlaceholder: "Ask a question about the book...",
+  askButton: "Ask",
+  askUnavailable: "This entry was saved without the book text. Analyze the book again to ask questions.",
+  partsUsed: "Parts searched",
+  clearConversation: "Clear Conversation",
+  storageUsed: "Storage",
+  storageFull: "Browser storage is full: the summary was not saved to history. Download it or delete old entries to free space.",
+  storageError: "Could not save to history",
+  loadMore: "Load More",
+  parts: "Parts",
+  downloadParts: "Download the summary of every part (.md)",
+  partsUnavailable: "The part summaries were not stored for this entry.",
+  allLanguages: "All languages",
+  allModels: "All models",
+  allTags: "All tags",
+  dateFrom: "From",
+  dateTo: "To",
+  favorites: "Favourites",
+  favorite: "Favourite",
+  sortBy: "Sort",
+  sortNewest: "Newest first",
+  sortOldest: "Oldest first",
+  sortName: "Name",
+  sortTokens: "Token usage",
+  resetFilters: "Reset",
+  addTag: "Add tag...",
+  removeTag: "Remove tag",
+  exportMenu: "Export",
+  exportContents: "Contents",
+  exportFailed: "Export failed",
+  exportNoCards: "No question/answer cards or sections were found in this summary.",
+  exportNotes: "Export notes (ZIP)",
+  notesIndex: "Book summaries",
+  usage: "Usage",
+  tokens: "Tokens",
+  tokensInput: "input",
+  tokensOutput: "output",
+  tokensThinking: "thinking",
+  cost: "Cost",
+  usagePerDay: "Per day",
+  usagePerModel: "Per model",
+  untrackedTokens: "Tokens of older entries without a breakdown (not priced)",
+  costIncomplete: "Entries without a price or a token breakdown are not included in the cost.",
+  priceTable: "Prices",
+  currency: "Currency",
+  pricePerMillion: "per 1M tokens: input, output (thinking is billed as output)",
+  addPrice: "Add model",
+  estimateApproximate: "approximate",
+  preview: "Preview",
+  chunkSize: "Part size",
+  includePart: "Include this part",
+  textCleaned: "Text cleaning",
+  headerLinesRemoved: "header/footer lines removed",
+  hyphenationsJoined: "hyphenated words joined",
+  markedForExclusion: "Marked for exclusion",
+  matterToc: "Contents",
+  matterIndex: "Index",
+  matterBibliography: "Bibliography",
+  matterCopyright: "Copyright",
+  ocrStarted: "Scanned pages without a text layer, reading them with OCR",
+  ocrPage: "OCR: page",
+  bookLanguage: "Language of scanned pages"
+};
+
+const en: LanguagePack = {
+  code: 'EN',
+  name: 'English',
+  nativeName: 'English',
+  promptName: 'ENGLISH',
+  ocrLanguage: 'eng',
+  ui: EN_UI,
+  prompts: {
+    outputLanguage: "OUTPUT LANGUAGE: {{language}}.",
+    sourceLanguage: "SOURCE LANGUAGE (the book): {{source}}.",
+    consolidateRules: "If using headers, do not use headers larger than Level 3 (###). Use ####, #####, ######. The summaries are labelled with the book's chapter titles: keep the order and structure of the book's table of contents.",
+    consolidateMarkers: "Statements are tagged with source markers like [S3:120000-215000]. Keep these markers unchanged at the end of the statements they support; when merging statements, keep all of their markers. Never invent new markers.",
+    polishMarkers: "Keep source markers like [S3:120000-215000] unchanged next to the statements they belong to.",
+    noEmphasis: "YOU ARE PROHIBITED FROM USING **BOLD** OR *ITALICS*. Do not use ** or * markers.",
+    targetLength: "TARGET LENGTH: about {{words}} words.",
+    synthesis: "The document contains summaries of several different books, each labelled with its title. Compare them and write one combined report: where the books agree, where they contradict each other, and which ideas appear in only one of them. Always name the book a statement comes from. Parts of the document may already be partial comparison reports; merge them without losing any agreement, contradiction or unique idea. Use headers no larger than Level 4 (####).",
+    answer: "Answer the question using only the numbered parts of the book below. After every statement, cite the parts it is based on as [S<number>], e.g. [S3]. If the parts do not contain the answer, say so plainly instead of guessing. Be concise.",
+    presets: {
+      deep: {
+        extract: "Extract and synthesize the most valuable, important, and practically applicable information from the provided text. Completely exclude theoretical \"fluff\", historical digressions, anecdotes, and any other non-essential details. Form a structured summary that allows understanding the essence of all sources without reading them entirely.\n\nMake sure you haven't missed anything important. Double check.",
+        consolidate: "The document contains several summaries of sequential parts of a single book. Your task is to compile them into a single, exhaustive summary without losing useful information. Merge into a cohesive text.",
+        polish: "Structure the text below. Use headers H4 - H6, nested lists, numbered lists, etc.\n\nIt is important not to lose information."
+      },
+      executive: {
+        extract: "Extract only the central thesis, the key arguments, the most important evidence and the conclusions of the provided text. Skip examples, stories and secondary details unless they change the conclusions.",
+        consolidate: "The document contains notes on sequential parts of a single book. Merge them into one short briefing: the book's main thesis, its key ideas in order of importance, and what the reader should take away. Drop repetitions and secondary points.",
+        polish: "Turn the text below into an executive one-pager: a one-paragraph bottom line first, then the key ideas as a short list, then the practical implications. Every sentence must earn its place."
+      },
+      study: {
+        extract: "Write detailed study notes on the provided text: key concepts with their definitions, the reasoning behind each main idea, important facts, names, numbers and examples that help remember them. Keep the author's terminology.",
+        consolidate: "The document contains study notes on sequential parts of a single book. Merge them into one complete set of study notes without losing concepts, definitions or examples. Where parts repeat an idea, keep the clearest explanation.",
+        polish: "Structure the study notes below for learning: concepts and definitions, explanations, examples. End each major section with two or three review questions. Do not drop information."
+      },
+      outline: {
+        extract: "For every chapter or section of the provided text, write a short outline: what the chapter is about and its main points, in the order they appear.",
+        consolidate: "The document contains chapter outlines of sequential parts of a single book. Merge them into one chapter-by-chapter outline. Keep exactly one entry per chapter; merge entries only when they describe the same chapter.",
+        polish: "Format the text below as a chapter-by-chapter outline: one heading per chapter in book order, followed by a short list of its main points."
+      },
+      flashcards: {
+        extract: "Turn the most important facts, definitions and ideas of the provided text into flashcards. Each card is one question and one short, self-contained answer. Test one fact per card.",
+        consolidate: "The document contains flashcards for sequential parts of a single book. Merge them into one deck: remove duplicate cards, keep the best wording, and keep the cards in book order.",
+        polish: "Format the deck below as a numbered list. Each item is \"Q: question\" followed by \"A: answer\" on the next line. Group the cards under short topic headings."
+      },
+      quotes: {
+        extract: "Select the most important and memorable quotes from the provided text. Copy every quote word for word, never paraphrase. After each quote add one sentence on why it matters.",
+        consolidate: "The document contains key quotes from sequential parts of a single book. Merge them into one collection: keep the quotes verbatim, drop weaker duplicates of the same idea, keep book order.",
+        polish: "Format the collection below: group the quotes under short topic headings, each quote as a block quote (>) followed by its one-sentence comment. Never change the wording of a quote."
+      },
+      checklist: {
+        extract: "Extract every concrete recommendation, method, rule and step from the provided text that a reader can act on. Phrase each one as an instruction starting with a verb. Skip theory that does not lead to an action.",
+        consolidate: "The document contains action items from sequential parts of a single book. Merge them into one list of actions: remove duplicates, combine steps of the same method, keep them in a logical order of execution.",
+        polish: "Format the text below as an actionable checklist: short sections with task-list items (\"- [ ] ...\"), each a single concrete action."
+      }
+    }
+  }
+};
+
+export default en;
@@ -0,0 +1,241 @@
+import { LanguagePack } from '../types';
+
+const es: LanguagePack = {
+  code: 'ES',
+  name: 'Spanish',
+  nativeName: 'Español',
+  promptName: 'SPANISH',
+  ocrLanguage: 'spa',
+  ui: {
+    title: "Resumidor de Libros IA",
+    subtitle: "Extracción profunda",
+    selectFile: "Seleccionar Libro (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Seleccionar otro libro",
+    startAnalysis: "Iniciar Análisis Profundo",
+    logs: "Registro del Proceso",
+    timeElapsed: "Transcurrido",
+    timeRem: "Restante",
+    summaryTitle: "Resumen",
+    generatedBy: "Generado por AI Book Summarizer",
+    download: "Descargar .md",
+    copy: "Copiar",
+    copySuccess: "Copiado",
+    fileParsed: "Archivo analizado en",
+    chars: "caracteres",
+    chunking: "Dividiendo texto",
+    step1: "Fase 1: Extracción Profunda",
+    step2: "Fase 2: Consolidación",
+    step3: "Fase 3: Pulido y Estructura",
+    error: "Error",
+    criticalError: "Error Crítico",
+    tokenUsage: "Uso de Tokens",
+    checkQuota: "Verificar Cuota",
+    tabAnalyze: "Analizar",
+    tabHistory: "Historial",
+    historyEmpty: "No hay historial.",
+    import: "Importar JSON",
+    export: "Exportar JSON",
+    delete: "Borrar",
+    view: "Ver",
+    restoreMsg: "Historial restaurado",
+    statusThinking: "Analizando contenido...",
+    statusReading: "Leyendo...",
+    statusWriting: "Estructurando...",
+    resumeTitle: "Análisis sin terminar",
+    resume: "Reanudar",
+    discard: "Descartar",
+    partsDone: "partes listas",
+    settings: "Ajustes",
+    provider: "Proveedor",
+    baseUrl: "URL base",
+    model: "Modelo",
+    apiKey: "Clave API (opcional)",
+    loadModels: "Cargar modelos",
+    concurrency: "Solicitudes paralelas",
+    requestsPerMinute: "Solicitudes / min (0 = sin límite)",
+    tokensPerMinute: "Tokens / min (0 = sin límite)",
+    queue: "Cola de solicitudes",
+    queueRunning: "en curso",
+    queueWaiting: "en espera",
+    queueRetrying: "reintentando",
+    queueDone: "listas",
+    queueFailed: "fallidas",
+    failedParts: "Partes fallidas",
+    part: "Parte",
+    retry: "Reintentar",
+    retryAll: "Reintentar todas",
+    rebuildSummary: "Reconstruir resumen",
+    missingPartsNotice: "Este resumen está incompleto. Faltan partes del libro:",
+    pause: "Pausar",
+    paused: "En pausa",
+    cancel: "Cancelar",
+    pausedMsg: "En pausa. Las solicitudes en curso terminarán, no se iniciarán nuevas.",
+    resumedMsg: "Reanudado.",
+    cancelledMsg: "Cancelado por el usuario.",
+    searchHistory: "Buscar en títulos, autores y resúmenes...",
+    sourceTitle: "Fuente",
+    sourceUnavailable: "El texto del libro no está guardado con esta entrada. Analice el libro de nuevo para leer la fuente.",
+    preset: "Tipo de resumen",
+    presetDeep: "Extracción profunda",
+    presetExecutive: "Resumen ejecutivo",
+    presetStudy: "Apuntes de estudio",
+    presetOutline: "Esquema por capítulos",
+    presetFlashcards: "Tarjetas",
+    presetQuotes: "Citas clave",
+    presetChecklist: "Lista de acciones",
+    words: "palabras",
+    noLengthLimit: "sin límite",
+    prompts: "Prompts",
+    promptSystem: "Sistema",
+    promptExtract: "Extracción",
+    promptConsolidate: "Consolidación",
+    promptPolish: "Pulido",
+    promptVariables: "Variables",
+    promptAppended: "Se añade automáticamente tras el prompt",
+    promptCustom: "Personalizado",
+    promptBuiltIn: "Predeterminado",
+    promptReset: "Restablecer",
+    promptsImported: "Prompts importados",
+    interfaceLanguage: "Idioma de la interfaz",
+    outputLanguage: "Idioma del resumen",
+    sourceLanguage: "Idioma del libro",
+    batchQueue: "Cola de libros",
+    startQueue: "Iniciar cola",
+    pauseQueue: "Pausar cola",
+    resumeQueue: "Reanudar cola",
+    addFolder: "Añadir carpeta",
+    moveUp: "Subir",
+    moveDown: "Bajar",
+    remove: "Quitar",
+    clearFinished: "Quitar terminados",
+    batchQueued: "En cola",
+    batchRunning: "En curso",
+    batchDone: "Hecho",
+    batchFailed: "Error",
+    batchCancelled: "Cancelado",
+    showLogs: "Registro",
+    batchPausing: "Cola en pausa: el libro actual termina, el siguiente espera hasta reanudar la cola.",
+    batchHint: "Selecciona varios archivos o suelta una carpeta para ponerlos en cola",
+    synthesis: "Síntesis",
+    synthesize: "Sintetizar",
+    selectForSynthesis: "Seleccionar para síntesis",
+    selectedForSynthesis: "Seleccionados",
+    clearSelection: "Limpiar",
+    synthesisHint: "Selecciona al menos dos resúmenes para comparar",
+    synthesisSources: "Fuentes",
+    deletedItem: "eliminado",
+    ask: "Preguntar al libro",
+    askPlaceholder: "Haz una pregunta sobre el libro...",
+    askButton: "Preguntar",
+    askUnavailable: "Esta entrada se guardó sin el texto del libro. Analiza el libro de nuevo para hacer preguntas.",
+    partsUsed: "Partes consultadas",
+    clearConversation: "Borrar conversación",
+    storageUsed: "Almacenamiento",
+    storageFull: "El almacenamiento del navegador está lleno: el resumen no se guardó en el historial. Descárgalo o elimina entradas antiguas para liberar espacio.",
+    storageError: "No se pudo guardar en el historial",
+    loadMore: "Cargar más",
+    parts: "Partes",
+    downloadParts: "Descargar el resumen de cada parte (.md)",
+    partsUnavailable: "Los resúmenes de las partes no se guardaron para esta entrada.",
+    allLanguages: "Todos los idiomas",
+    allModels: "Todos los modelos",
+    allTags: "Todas las etiquetas",
+    dateFrom: "Desde",
+    dateTo: "Hasta",
+    favorites: "Favoritos",
+    favorite: "Favorito",
+    sortBy: "Ordenar",
+    sortNewest: "Más recientes",
+    sortOldest: "Más antiguos",
+    sortName: "Nombre",
+    sortTokens: "Uso de tokens",
+    resetFilters: "Restablecer",
+    addTag: "Añadir etiqueta...",
+    removeTag: "Quitar etiqueta",
+    exportMenu: "Exportar",
+    exportContents: "Índice",
+    exportFailed: "Error al exportar",
+    exportNoCards: "No se encontraron tarjetas de pregunta/respuesta ni secciones en este resumen.",
+    exportNotes: "Exportar notas (ZIP)",
+    notesIndex: "Resúmenes de libros",
+    usage: "Uso",
+    tokens: "Tokens",
+    tokensInput: "entrada",
+    tokensOutput: "salida",
+    tokensThinking: "razonamiento",
+    cost: "Coste",
+    usagePerDay: "Por día",
+    usagePerModel: "Por modelo",
+    untrackedTokens: "Tokens de entradas antiguas sin desglose (sin precio)",
+    costIncomplete: "Las entradas sin precio o sin desglose de tokens no se incluyen en el coste.",
+    priceTable: "Precios",
+    currency: "Moneda",
+    pricePerMillion: "por 1M de tokens: entrada, salida (el razonamiento se factura como salida)",
+    addPrice: "Añadir modelo",
+    estimateApproximate: "aproximado",
+    preview: "Vista previa",
+    chunkSize: "Tamaño de parte",
+    includePart: "Incluir esta parte",
+    textCleaned: "Limpieza del texto",
+    headerLinesRemoved: "líneas de encabezado/pie eliminadas",
+    hyphenationsJoined: "palabras con guion unidas",
+    markedForExclusion: "Marcado para excluir",
+    matterToc: "Índice",
+    matterIndex: "Índice alfabético",
+    matterBibliography: "Bibliografía",
+    matterCopyright: "Créditos",
+    ocrStarted: "Páginas escaneadas sin capa de texto, se leen con OCR",
+    ocrPage: "OCR: página",
+    bookLanguage: "Idioma de las páginas escaneadas"
+  },
+  prompts: {
+    outputLanguage: "IDIOMA DE SALIDA: ESPAÑOL.",
+    sourceLanguage: "IDIOMA DEL LIBRO: {{source}}.",
+    consolidateRules: "Si usas encabezados, no uses encabezados mayores que el nivel 3 (###). Usa ####, #####, ######. Los resúmenes están etiquetados con los títulos de los capítulos del libro: conserva el orden y la estructura del índice del libro.",
+    consolidateMarkers: "Las afirmaciones llevan marcas de fuente como [S3:120000-215000]. Conserva estas marcas sin cambios al final de las afirmaciones que respaldan; al fusionar afirmaciones, conserva todas sus marcas. Nunca inventes marcas nuevas.",
+    polishMarkers: "Conserva sin cambios las marcas de fuente como [S3:120000-215000] junto a las afirmaciones a las que pertenecen.",
+    noEmphasis: "TIENES PROHIBIDO USAR **NEGRITA** O *CURSIVA*. No uses los marcadores ** ni *.",
+    targetLength: "EXTENSIÓN OBJETIVO: unas {{words}} palabras.",
+    synthesis: "El documento contiene resúmenes de varios libros distintos, cada uno con su título. Compáralos y redacta un único informe: en qué coinciden los libros, en qué se contradicen y qué ideas aparecen solo en uno de ellos. Indica siempre de qué libro procede cada afirmación. Algunas partes del documento pueden ser ya informes comparativos parciales; combínalos sin perder ninguna coincidencia, contradicción o idea única. Usa encabezados no mayores que el nivel 4 (####).",
+    answer: "Responde a la pregunta usando solo las partes numeradas del libro que aparecen abajo. Después de cada afirmación, cita las partes en las que se basa como [S<número>], por ejemplo [S3]. Si las partes no contienen la respuesta, dilo claramente en lugar de suponer. Sé conciso.",
+    presets: {
+      deep: {
+        extract: "Extrae y sintetiza la información más valiosa, importante y aplicable en la práctica del texto proporcionado. Excluye por completo el \"relleno\" teórico, las digresiones históricas, las anécdotas y cualquier otro detalle no esencial. Elabora un resumen estructurado que permita comprender la esencia de todas las fuentes sin leerlas por completo.\n\nAsegúrate de no haber omitido nada importante. Vuelve a comprobarlo.",
+        consolidate: "El documento contiene varios resúmenes de partes consecutivas de un mismo libro. Tu tarea es reunirlos en un único resumen exhaustivo sin perder información útil. Fusiónalos en un texto coherente.",
+        polish: "Estructura el texto siguiente. Usa encabezados H4 - H6, listas anidadas, listas numeradas, etc.\n\nEs importante no perder información."
+      },
+      executive: {
+        extract: "Extrae solo la tesis central, los argumentos clave, las pruebas más importantes y las conclusiones del texto proporcionado. Omite ejemplos, historias y detalles secundarios salvo que cambien las conclusiones.",
+        consolidate: "El documento contiene notas sobre partes consecutivas de un mismo libro. Fusiónalas en un informe breve: la tesis principal del libro, sus ideas clave por orden de importancia y lo que el lector debe llevarse. Elimina repeticiones y puntos secundarios.",
+        polish: "Convierte el texto siguiente en un resumen ejecutivo de una página: primero la conclusión principal en un párrafo, después las ideas clave en una lista breve y por último las implicaciones prácticas. Cada frase debe ser imprescindible."
+      },
+      study: {
+        extract: "Redacta apuntes de estudio detallados del texto proporcionado: conceptos clave con sus definiciones, el razonamiento detrás de cada idea principal, hechos, nombres, cifras y ejemplos importantes que ayuden a recordarlos. Conserva la terminología del autor.",
+        consolidate: "El documento contiene apuntes de estudio de partes consecutivas de un mismo libro. Fusiónalos en un único conjunto completo de apuntes sin perder conceptos, definiciones ni ejemplos. Si varias partes repiten una idea, conserva la explicación más clara.",
+        polish: "Estructura los apuntes siguientes para el estudio: conceptos y definiciones, explicaciones, ejemplos. Termina cada sección principal con dos o tres preguntas de repaso. No pierdas información."
+      },
+      outline: {
+        extract: "Para cada capítulo o sección del texto proporcionado, escribe un esquema breve: de qué trata el capítulo y sus puntos principales, en el orden en que aparecen.",
+        consolidate: "El documento contiene esquemas de capítulos de partes consecutivas de un mismo libro. Fusiónalos en un único esquema capítulo a capítulo. Deja exactamente una entrada por capítulo; fusiona entradas solo cuando describan el mismo capítulo.",
+        polish: "Da al texto siguiente formato de esquema capítulo a capítulo: un encabezado por capítulo en el orden del libro, seguido de una lista breve de sus puntos principales."
+      },
+      flashcards: {
+        extract: "Convierte los hechos, definiciones e ideas más importantes del texto proporcionado en tarjetas de estudio. Cada tarjeta es una pregunta y una respuesta breve y autónoma. Evalúa un solo hecho por tarjeta.",
+        consolidate: "El documento contiene tarjetas de partes consecutivas de un mismo libro. Fusiónalas en un único mazo: elimina tarjetas duplicadas, conserva la mejor redacción y mantén el orden del libro.",
+        polish: "Da al mazo siguiente formato de lista numerada. Cada elemento es \"P: pregunta\" seguido de \"R: respuesta\" en la línea siguiente. Agrupa las tarjetas bajo encabezados temáticos breves."
+      },
+      quotes: {
+        extract: "Selecciona las citas más importantes y memorables del texto proporcionado. Copia cada cita palabra por palabra, nunca la parafrasees. Después de cada cita añade una frase sobre por qué es importante.",
+        consolidate: "El documento contiene citas clave de partes consecutivas de un mismo libro. Fusiónalas en una única colección: mantén las citas literales, descarta los duplicados más débiles de una misma idea y conserva el orden del libro.",
+        polish: "Da formato a la colección siguiente: agrupa las citas bajo encabezados temáticos breves, cada cita como bloque de cita (>) seguida de su comentario de una frase. Nunca cambies el texto de una cita."
+      },
+      checklist: {
+        extract: "Extrae del texto proporcionado cada recomendación, método, regla y paso concreto que el lector pueda poner en práctica. Formula cada uno como una instrucción que empiece por un verbo. Omite la teoría que no conduzca a una acción.",
+        consolidate: "El documento contiene acciones de partes consecutivas de un mismo libro. Fusiónalas en una única lista de acciones: elimina duplicados, combina los pasos de un mismo método y ordénalas de forma lógica para su ejecución.",
+        polish: "Da al texto siguiente formato de lista de comprobación: secciones breves con elementos de tarea (\"- [ ] ...\"), cada uno una única acción concreta."
+      }
+    }
+  }
+};
+
+export default es;
@@ -0,0 +1,241 @@
+import { LanguagePack } from '../types';
+
+const fr: LanguagePack = {
+  code: 'FR',
+  name: 'French',
+  nativeName: 'Français',
+  promptName: 'FRENCH',
+  ocrLanguage: 'fra',
+  ui: {
+    title: "Résumeur de Livres IA",
+    subtitle: "Extraction approfondie",
+    selectFile: "Sélectionner un livre (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Choisir un autre livre",
+    startAnalysis: "Analyse approfondie",
+    logs: "Journal",
+    timeElapsed: "Écoulé",
+    timeRem: "Restant",
+    summaryTitle: "Résumé",
+    generatedBy: "Généré par AI Book Summarizer",
+    download: "Télécharger .md",
+    copy: "Copier",
+    copySuccess: "Copié",
+    fileParsed: "Fichier analysé en",
+    chars: "caractères",
+    chunking: "Découpage",
+    step1: "Phase 1 : Extraction approfondie",
+    step2: "Phase 2 : Consolidation",
+    step3: "Phase 3 : Structure finale",
+    error: "Error",
+    criticalError: "Erreur Critique",
+    tokenUsage: "Usage des jetons",
+    checkQuota: "Vérifier quota",
+    tabAnalyze: "Analyser",
+    tabHistory: "Historique",
+    historyEmpty: "Historique vide.",
+    import: "Importer JSON",
+    export: "Exporter JSON",
+    delete: "Supprimer",
+    view: "Voir",
+    restoreMsg: "Historique restauré",
+    statusThinking: "Analyse du contenu...",
+    statusReading: "Lecture...",
+    statusWriting: "Rédaction...",
+    resumeTitle: "Analyse inachevée",
+    resume: "Reprendre",
+    discard: "Abandonner",
+    partsDone: "parties terminées",
+    settings: "Paramètres",
+    provider: "Fournisseur",
+    baseUrl: "URL de base",
+    model: "Modèle",
+    apiKey: "Clé API (facultatif)",
+    loadModels: "Charger les modèles",
+    concurrency: "Requêtes parallèles",
+    requestsPerMinute: "Requêtes / min (0 = sans limite)",
+    tokensPerMinute: "Jetons / min (0 = sans limite)",
+    queue: "File de requêtes",
+    queueRunning: "en cours",
+    queueWaiting: "en attente",
+    queueRetrying: "nouvel essai",
+    queueDone: "terminées",
+    queueFailed: "échouées",
+    failedParts: "Parties en échec",
+    part: "Partie",
+    retry: "Réessayer",
+    retryAll: "Tout réessayer",
+    rebuildSummary: "Reconstruire le résumé",
+    missingPartsNotice: "Ce résumé est incomplet. Parties du livre manquantes :",
+    pause: "Pause",
+    paused: "En pause",
+    cancel: "Annuler",
+    pausedMsg: "En pause. Les requêtes en cours se terminent, aucune nouvelle ne démarre.",
+    resumedMsg: "Reprise.",
+    cancelledMsg: "Annulé par l'utilisateur.",
+    searchHistory: "Rechercher dans les titres, auteurs et résumés...",
+    sourceTitle: "Source",
+    sourceUnavailable: "Le texte du livre n'est pas enregistré avec cette entrée. Analysez de nouveau le livre pour lire la source.",
+    preset: "Type de résumé",
+    presetDeep: "Extraction approfondie",
+    presetExecutive: "Synthèse d'une page",
+    presetStudy: "Fiches d'étude",
+    presetOutline: "Plan par chapitre",
+    presetFlashcards: "Cartes mémoire",
+    presetQuotes: "Citations clés",
+    presetChecklist: "Liste d'actions",
+    words: "mots",
+    noLengthLimit: "sans limite",
+    prompts: "Prompts",
+    promptSystem: "Système",
+    promptExtract: "Extraction",
+    promptConsolidate: "Consolidation",
+    promptPolish: "Mise en forme",
+    promptVariables: "Variables",
+    promptAppended: "Ajouté automatiquement après le prompt",
+    promptCustom: "Personnalisé",
+    promptBuiltIn: "Intégré",
+    promptReset: "Réinitialiser",
+    promptsImported: "Prompts importés",
+    interfaceLanguage: "Langue de l'interface",
+    outputLanguage: "Langue du résumé",
+    sourceLanguage: "Langue du livre",
+    batchQueue: "File de livres",
+    startQueue: "Lancer la file",
+    pauseQueue: "Mettre la file en pause",
+    resumeQueue: "Reprendre la file",
+    addFolder: "Ajouter un dossier",
+    moveUp: "Monter",
+    moveDown: "Descendre",
+    remove: "Retirer",
+    clearFinished: "Retirer les terminés",
+    batchQueued: "En attente",
+    batchRunning: "En cours",
+    batchDone: "Terminé",
+    batchFailed: "Échec",
+    batchCancelled: "Annulé",
+    showLogs: "Journal",
+    batchPausing: "File en pause : le livre en cours se termine, le suivant attend la reprise de la file.",
+    batchHint: "Sélectionnez plusieurs fichiers ou déposez un dossier pour les mettre en file",
+    synthesis: "Synthèse",
+    synthesize: "Synthétiser",
+    selectForSynthesis: "Sélectionner pour la synthèse",
+    selectedForSynthesis: "Sélectionnés",
+    clearSelection: "Effacer",
+    synthesisHint: "Sélectionnez au moins deux résumés à comparer",
+    synthesisSources: "Sources",
+    deletedItem: "supprimé",
+    ask: "Interroger le livre",
+    askPlaceholder: "Posez une question sur le livre...",
+    askButton: "Demander",
+    askUnavailable: "Cette entrée a été enregistrée sans le texte du livre. Analysez de nouveau le livre pour poser des questions.",
+    partsUsed: "Parties consultées",
+    clearConversation: "Effacer la conversation",
+    storageUsed: "Stockage",
+    storageFull: "Le stockage du navigateur est plein : le résumé n'a pas été enregistré dans l'historique. Téléchargez-le ou supprimez d'anciennes entrées.",
+    storageError: "Impossible d'enregistrer dans l'historique",
+    loadMore: "Charger plus",
+    parts: "Parties",
+    downloadParts: "Télécharger le résumé de chaque partie (.md)",
+    partsUnavailable: "Les résumés des parties n'ont pas été enregistrés pour cette entrée.",
+    allLanguages: "Toutes les langues",
+    allModels: "Tous les modèles",
+    allTags: "Tous les tags",
+    dateFrom: "Du",
+    dateTo: "Au",
+    favorites: "Favoris",
+    favorite: "Favori",
+    sortBy: "Trier",
+    sortNewest: "Plus récents",
+    sortOldest: "Plus anciens",
+    sortName: "Nom",
+    sortTokens: "Tokens utilisés",
+    resetFilters: "Réinitialiser",
+    addTag: "Ajouter un tag...",
+    removeTag: "Retirer le tag",
+    exportMenu: "Exporter",
+    exportContents: "Sommaire",
+    exportFailed: "Échec de l'export",
+    exportNoCards: "Aucune carte question/réponse ni section trouvée dans ce résumé.",
+    exportNotes: "Exporter les notes (ZIP)",
+    notesIndex: "Résumés de livres",
+    usage: "Consommation",
+    tokens: "Tokens",
+    tokensInput: "entrée",
+    tokensOutput: "sortie",
+    tokensThinking: "réflexion",
+    cost: "Coût",
+    usagePerDay: "Par jour",
+    usagePerModel: "Par modèle",
+    untrackedTokens: "Tokens des anciennes entrées sans détail (non tarifés)",
+    costIncomplete: "Les entrées sans prix ou sans détail des tokens ne sont pas incluses dans le coût.",
+    priceTable: "Tarifs",
+    currency: "Devise",
+    pricePerMillion: "par million de tokens : entrée, sortie (la réflexion est facturée comme sortie)",
+    addPrice: "Ajouter un modèle",
+    estimateApproximate: "approximatif",
+    preview: "Aperçu",
+    chunkSize: "Taille des parties",
+    includePart: "Inclure cette partie",
+    textCleaned: "Nettoyage du texte",
+    headerLinesRemoved: "lignes d’en-tête/pied de page supprimées",
+    hyphenationsJoined: "césures recollées",
+    markedForExclusion: "Marqué pour exclusion",
+    matterToc: "Table des matières",
+    matterIndex: "Index",
+    matterBibliography: "Bibliographie",
+    matterCopyright: "Mentions légales",
+    ocrStarted: "Pages numérisées sans couche de texte, lecture par OCR",
+    ocrPage: "OCR : page",
+    bookLanguage: "Langue des pages numérisées"
+  },
+  prompts: {
+    outputLanguage: "LANGUE DE SORTIE : FRANÇAIS.",
+    sourceLanguage: "LANGUE DU LIVRE : {{source}}.",
+    consolidateRules: "Si tu utilises des titres, n'utilise pas de titres de niveau supérieur à 3 (###). Utilise ####, #####, ######. Les résumés sont étiquetés avec les titres des chapitres du livre : conserve l'ordre et la structure de la table des matières du livre.",
+    consolidateMarkers: "Les affirmations portent des marqueurs de source comme [S3:120000-215000]. Conserve ces marqueurs inchangés à la fin des affirmations qu'ils étayent ; en fusionnant des affirmations, conserve tous leurs marqueurs. N'invente jamais de nouveaux marqueurs.",
+    polishMarkers: "Conserve inchangés les marqueurs de source comme [S3:120000-215000] à côté des affirmations auxquelles ils appartiennent.",
+    noEmphasis: "IL T'EST INTERDIT D'UTILISER LE **GRAS** OU L'*ITALIQUE*. N'utilise pas les marqueurs ** ou *.",
+    targetLength: "LONGUEUR CIBLE : environ {{words}} mots.",
+    synthesis: "Le document contient les résumés de plusieurs livres différents, chacun identifié par son titre. Compare-les et rédige un rapport unique : les points d'accord entre les livres, leurs contradictions et les idées propres à un seul d'entre eux. Indique toujours le livre d'où vient chaque affirmation. Certaines parties du document peuvent déjà être des rapports comparatifs partiels ; fusionne-les sans perdre aucun accord, contradiction ou idée propre. N'utilise pas de titres plus grands que le niveau 4 (####).",
+    answer: "Réponds à la question en t'appuyant uniquement sur les parties numérotées du livre ci-dessous. Après chaque affirmation, cite les parties sur lesquelles elle repose sous la forme [S<numéro>], par exemple [S3]. Si les parties ne contiennent pas la réponse, dis-le clairement au lieu de deviner. Sois concis.",
+    presets: {
+      deep: {
+        extract: "Extrais et synthétise les informations les plus précieuses, importantes et applicables en pratique du texte fourni. Exclus complètement le « remplissage » théorique, les digressions historiques, les anecdotes et tout autre détail non essentiel. Rédige un résumé structuré qui permet de comprendre l'essentiel de toutes les sources sans les lire en entier.\n\nAssure-toi de n'avoir rien oublié d'important. Vérifie à nouveau.",
+        consolidate: "Le document contient plusieurs résumés de parties successives d'un même livre. Ta tâche est de les réunir en un résumé unique et exhaustif sans perdre d'information utile. Fusionne-les en un texte cohérent.",
+        polish: "Structure le texte ci-dessous. Utilise des titres H4 - H6, des listes imbriquées, des listes numérotées, etc.\n\nIl est important de ne perdre aucune information."
+      },
+      executive: {
+        extract: "Extrais uniquement la thèse centrale, les arguments clés, les preuves les plus importantes et les conclusions du texte fourni. Ignore les exemples, les histoires et les détails secondaires, sauf s'ils changent les conclusions.",
+        consolidate: "Le document contient des notes sur des parties successives d'un même livre. Fusionne-les en une note de synthèse courte : la thèse principale du livre, ses idées clés par ordre d'importance et ce que le lecteur doit en retenir. Supprime les répétitions et les points secondaires.",
+        polish: "Transforme le texte ci-dessous en synthèse d'une page pour décideurs : d'abord la conclusion en un paragraphe, puis les idées clés en une courte liste, puis les implications pratiques. Chaque phrase doit être indispensable."
+      },
+      study: {
+        extract: "Rédige des fiches d'étude détaillées du texte fourni : concepts clés avec leurs définitions, le raisonnement derrière chaque idée principale, faits, noms, chiffres et exemples importants qui aident à les retenir. Conserve la terminologie de l'auteur.",
+        consolidate: "Le document contient des fiches d'étude de parties successives d'un même livre. Fusionne-les en un ensemble complet de fiches sans perdre de concepts, de définitions ou d'exemples. Si une idée se répète, garde l'explication la plus claire.",
+        polish: "Structure les fiches ci-dessous pour l'apprentissage : concepts et définitions, explications, exemples. Termine chaque grande section par deux ou trois questions de révision. Ne perds aucune information."
+      },
+      outline: {
+        extract: "Pour chaque chapitre ou section du texte fourni, rédige un plan court : le sujet du chapitre et ses points principaux, dans leur ordre d'apparition.",
+        consolidate: "Le document contient les plans des chapitres de parties successives d'un même livre. Fusionne-les en un plan unique chapitre par chapitre. Garde exactement une entrée par chapitre ; ne fusionne des entrées que si elles décrivent le même chapitre.",
+        polish: "Mets en forme le texte ci-dessous comme un plan chapitre par chapitre : un titre par chapitre dans l'ordre du livre, suivi d'une courte liste de ses points principaux."
+      },
+      flashcards: {
+        extract: "Transforme les faits, définitions et idées les plus importants du texte fourni en cartes mémoire. Chaque carte comporte une question et une réponse courte et autonome. Une carte teste un seul fait.",
+        consolidate: "Le document contient des cartes mémoire de parties successives d'un même livre. Fusionne-les en un seul paquet : supprime les doublons, garde la meilleure formulation et conserve l'ordre du livre.",
+        polish: "Mets en forme le paquet ci-dessous sous forme de liste numérotée. Chaque élément est « Q : question » suivi de « R : réponse » à la ligne suivante. Regroupe les cartes sous de courts titres thématiques."
+      },
+      quotes: {
+        extract: "Sélectionne les citations les plus importantes et marquantes du texte fourni. Recopie chaque citation mot pour mot, ne paraphrase jamais. Après chaque citation, ajoute une phrase expliquant pourquoi elle compte.",
+        consolidate: "Le document contient des citations clés de parties successives d'un même livre. Fusionne-les en un seul recueil : garde les citations textuelles, écarte les doublons plus faibles d'une même idée et conserve l'ordre du livre.",
+        polish: "Mets en forme le recueil ci-dessous : regroupe les citations sous de courts titres thématiques, chaque citation en bloc de citation (>) suivie de son commentaire d'une phrase. Ne modifie jamais le texte d'une citation."
+      },
+      checklist: {
+        extract: "Extrais du texte fourni chaque recommandation, méthode, règle et étape concrète que le lecteur peut appliquer. Formule chacune comme une consigne commençant par un verbe. Ignore la théorie qui ne mène à aucune action.",
+        consolidate: "Le document contient des actions issues de parties successives d'un même livre. Fusionne-les en une seule liste d'actions : supprime les doublons, regroupe les étapes d'une même méthode et classe-les dans un ordre d'exécution logique.",
+        polish: "Mets en forme le texte ci-dessous comme une liste de contrôle : de courtes sections avec des tâches (« - [ ] ... »), chacune étant une action concrète unique."
+      }
+    }
+  }
+};
+
+export default fr;
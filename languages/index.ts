@@ -0,0 +1,64 @@
+import { Language, LanguagePack, PromptPack } from '../types';
+import en, { EN_UI } from './en';
+import ru from './ru';
+import es from './es';
+import de from './de';
+import fr from './fr';
+import it from './it';
+import pt from './pt';
+import pl from './pl';
+import uk from './uk';
+import zh from './zh';
+import ja from './ja';
+
+// --- Language pack registry ---
+// A language is added by writing a pack next to en.ts and registering it below.
+// The type system catches missing UI keys in packs written in TypeScript; packs
+// registered at runtime are checked here as well.
+
+const registry = new Map<Language, LanguagePack>();
+
+// Lists every key the pack lacks compared to the English reference
+export const findMissingKeys = (pack: LanguagePack): string[] => {
+  const missing = Object.keys(EN_UI)
+    .filter(key => typeof (pack.ui as Record<string, unknown>)[key] !== 'string')
+    .map(key => `ui.${key}`);
+
+  if (pack.prompts) {
+    const reference = en.prompts as PromptPack;
+    const prompts = pack.prompts as Record<string, any>;
+    (Object.keys(reference) as (keyof PromptPack)[]).forEach(key => {
+      if (key === 'presets') return;
+      if (typeof prompts[key] !== 'string') missing.push(`prompts.${key}`);
+    });
+    Object.entries(reference.presets).forEach(([presetId, phases]) => {
+      Object.keys(phases).forEach(phase => {
+        if (typeof prompts.presets?.[presetId]?.[phase] !== 'string') missing.push(`prompts.presets.${presetId}.${phase}`);
+      });
+    });
+  }
+
+  return missing;
+};
+
+// Incomplete packs are still registered; missing prompts or UI strings fall back to English
+export const registerLanguagePack = (pack: LanguagePack) => {
+  const missing = findMissingKeys(pack);
+  if (missing.length > 0) {
+    console.error(`Language pack ${pack.code} is missing ${missing.length} key(s): ${missing.join(', ')}`);
+    const promptsIncomplete = missing.some(key => key.startsWith('prompts.'));
+    registry.set(pack.code, { ...pack, ui: { ...EN_UI, ...pack.ui }, prompts: promptsIncomplete ? undefined : pack.prompts });
+    return;
+  }
+  registry.set(pack.code, pack);
+};
+
+[ru, en, es, de, fr, it, pt, pl, uk, zh, ja].forEach(registerLanguagePack);
+
+export const getLanguagePacks = (): LanguagePack[] => Array.from(registry.values());
+
+export const isLanguage = (code: string): code is Language => registry.has(code);
+
+export const getLanguagePack = (code: Language): LanguagePack => registry.get(code) || en;
+
+export const getPromptPack = (code: Language): PromptPack => getLanguagePack(code).prompts || (en.prompts as PromptPack);
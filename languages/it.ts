@@ -0,0 +1,195 @@
+import { LanguagePack } from '../types';
+
+// UI only; prompts fall back to English with the output language set to Italian
+
+const it: LanguagePack = {
+  code: 'IT',
+  name: 'Italian',
+  nativeName: 'Italiano',
+  promptName: 'ITALIAN',
+  ocrLanguage: 'ita',
+  ui: {
+    title: "AI Book Summarizer",
+    subtitle: "Estrazione approfondita della conoscenza",
+    selectFile: "Seleziona un libro (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Scegli un altro libro",
+    startAnalysis: "Avvia analisi approfondita",
+    logs: "Registro del processo",
+    timeElapsed: "Trascorso",
+    timeRem: "Rimanente",
+    summaryTitle: "Riassunto",
+    generatedBy: "Generato da AI Book Summarizer",
+    download: "Scarica .md",
+    copy: "Copia",
+    copySuccess: "Copiato negli appunti",
+    fileParsed: "File analizzato in",
+    chars: "caratteri",
+    chunking: "Suddivisione del testo",
+    step1: "Fase 1: Estrazione approfondita",
+    step2: "Fase 2: Consolidamento",
+    step3: "Fase 3: Rifinitura e formattazione",
+    error: "Errore",
+    criticalError: "Errore critico",
+    tokenUsage: "Token usati nella sessione",
+    checkQuota: "Controlla quota Google",
+    tabAnalyze: "Analizza",
+    tabHistory: "Cronologia",
+    historyEmpty: "Nessun riassunto ancora.",
+    import: "Importa JSON",
+    export: "Esporta JSON",
+    delete: "Elimina",
+    view: "Apri",
+    restoreMsg: "Cronologia importata",
+    statusThinking: "Analisi del contenuto...",
+    statusReading: "Lettura del documento...",
+    statusWriting: "Strutturazione delle note finali...",
+    resumeTitle: "Analisi non completata",
+    resume: "Riprendi",
+    discard: "Scarta",
+    partsDone: "parti completate",
+    settings: "Impostazioni",
+    provider: "Provider",
+    baseUrl: "URL di base",
+    model: "Modello",
+    apiKey: "Chiave API (facoltativa)",
+    loadModels: "Carica modelli",
+    concurrency: "Richieste parallele",
+    requestsPerMinute: "Richieste / min (0 = nessun limite)",
+    tokensPerMinute: "Token / min (0 = nessun limite)",
+    queue: "Coda richieste",
+    queueRunning: "in corso",
+    queueWaiting: "in attesa",
+    queueRetrying: "nuovo tentativo",
+    queueDone: "completate",
+    queueFailed: "fallite",
+    failedParts: "Parti non riuscite",
+    part: "Parte",
+    retry: "Riprova",
+    retryAll: "Riprova tutte",
+    rebuildSummary: "Ricostruisci riassunto",
+    missingPartsNotice: "Questo riassunto è incompleto. Parti del libro mancanti:",
+    pause: "Pausa",
+    paused: "In pausa",
+    cancel: "Annulla",
+    pausedMsg: "In pausa. Le richieste in corso termineranno, non ne partiranno di nuove.",
+    resumedMsg: "Ripreso.",
+    cancelledMsg: "Annullato dall'utente.",
+    searchHistory: "Cerca in titoli, autori e riassunti...",
+    sourceTitle: "Fonte",
+    sourceUnavailable: "Il testo del libro non è salvato con questa voce. Analizza di nuovo il libro per leggere la fonte.",
+    preset: "Tipo di riassunto",
+    presetDeep: "Estrazione approfondita",
+    presetExecutive: "Sintesi di una pagina",
+    presetStudy: "Appunti di studio",
+    presetOutline: "Schema per capitoli",
+    presetFlashcards: "Flashcard",
+    presetQuotes: "Citazioni chiave",
+    presetChecklist: "Checklist di azioni",
+    words: "parole",
+    noLengthLimit: "nessun limite",
+    prompts: "Prompt",
+    promptSystem: "Sistema",
+    promptExtract: "Estrazione",
+    promptConsolidate: "Consolidamento",
+    promptPolish: "Rifinitura",
+    promptVariables: "Variabili",
+    promptAppended: "Aggiunto automaticamente dopo il prompt",
+    promptCustom: "Personalizzato",
+    promptBuiltIn: "Predefinito",
+    promptReset: "Ripristina",
+    promptsImported: "Prompt importati",
+    interfaceLanguage: "Lingua dell'interfaccia",
+    outputLanguage: "Lingua del riassunto",
+    sourceLanguage: "Lingua del libro",
+    batchQueue: "Coda di libri",
+    startQueue: "Avvia coda",
+    pauseQueue: "Metti in pausa la coda",
+    resumeQueue: "Riprendi coda",
+    addFolder: "Aggiungi cartella",
+    moveUp: "Su",
+    moveDown: "Giù",
+    remove: "Rimuovi",
+    clearFinished: "Rimuovi completati",
+    batchQueued: "In coda",
+    batchRunning: "In corso",
+    batchDone: "Fatto",
+    batchFailed: "Errore",
+    batchCancelled: "Annullato",
+    showLogs: "Log",
+    batchPausing: "Coda in pausa: il libro corrente termina, il successivo attende la ripresa della coda.",
+    batchHint: "Seleziona più file o trascina una cartella per metterli in coda",
+    synthesis: "Sintesi",
+    synthesize: "Sintetizza",
+    selectForSynthesis: "Seleziona per la sintesi",
+    selectedForSynthesis: "Selezionati",
+    clearSelection: "Annulla",
+    synthesisHint: "Seleziona almeno due riassunti da confrontare",
+    synthesisSources: "Fonti",
+    deletedItem: "eliminato",
+    ask: "Chiedi al libro",
+    askPlaceholder: "Fai una domanda sul libro...",
+    askButton: "Chiedi",
+    askUnavailable: "Questa voce è stata salvata senza il testo del libro. Analizza di nuovo il libro per fare domande.",
+    partsUsed: "Parti consultate",
+    clearConversation: "Cancella conversazione",
+    storageUsed: "Spazio",
+    storageFull: "Lo spazio del browser è pieno: il riassunto non è stato salvato nella cronologia. Scaricalo o elimina le voci vecchie.",
+    storageError: "Impossibile salvare nella cronologia",
+    loadMore: "Carica altro",
+    parts: "Parti",
+    downloadParts: "Scarica il riassunto di ogni parte (.md)",
+    partsUnavailable: "I riassunti delle parti non sono stati salvati per questa voce.",
+    allLanguages: "Tutte le lingue",
+    allModels: "Tutti i modelli",
+    allTags: "Tutti i tag",
+    dateFrom: "Dal",
+    dateTo: "Al",
+    favorites: "Preferiti",
+    favorite: "Preferito",
+    sortBy: "Ordina",
+    sortNewest: "Più recenti",
+    sortOldest: "Meno recenti",
+    sortName: "Nome",
+    sortTokens: "Token usati",
+    resetFilters: "Azzera",
+    addTag: "Aggiungi tag...",
+    removeTag: "Rimuovi tag",
+    exportMenu: "Esporta",
+    exportContents: "Indice",
+    exportFailed: "Esportazione non riuscita",
+    exportNoCards: "In questo riassunto non sono state trovate schede domanda/risposta né sezioni.",
+    exportNotes: "Esporta note (ZIP)",
+    notesIndex: "Riassunti di libri",
+    usage: "Consumo",
+    tokens: "Token",
+    tokensInput: "input",
+    tokensOutput: "output",
+    tokensThinking: "ragionamento",
+    cost: "Costo",
+    usagePerDay: "Per giorno",
+    usagePerModel: "Per modello",
+    untrackedTokens: "Token di voci meno recenti senza dettaglio (senza prezzo)",
+    costIncomplete: "Le voci senza prezzo o senza dettaglio dei token non sono incluse nel costo.",
+    priceTable: "Prezzi",
+    currency: "Valuta",
+    pricePerMillion: "per 1M di token: input, output (il ragionamento è fatturato come output)",
+    addPrice: "Aggiungi modello",
+    estimateApproximate: "approssimativo",
+    preview: "Anteprima",
+    chunkSize: "Dimensione parte",
+    includePart: "Includi questa parte",
+    textCleaned: "Pulizia del testo",
+    headerLinesRemoved: "righe di intestazione/piè di pagina rimosse",
+    hyphenationsJoined: "parole sillabate unite",
+    markedForExclusion: "Contrassegnato per l’esclusione",
+    matterToc: "Indice",
+    matterIndex: "Indice analitico",
+    matterBibliography: "Bibliografia",
+    matterCopyright: "Copyright",
+    ocrStarted: "Pagine scansionate senza livello di testo, lettura con OCR",
+    ocrPage: "OCR: pagina",
+    bookLanguage: "Lingua delle pagine scansionate"
+  }
+};
+
+export default it;
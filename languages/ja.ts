@@ -0,0 +1,195 @@
+import { LanguagePack } from '../types';
+
+// UI only; prompts fall back to English with the output language set to Japanese
+
+const ja: LanguagePack = {
+  code: 'JA',
+  name: 'Japanese',
+  nativeName: '日本語',
+  promptName: 'JAPANESE',
+  ocrLanguage: 'jpn',
+  ui: {
+    title: "AI Book Summarizer",
+    subtitle: "深い知識の抽出",
+    selectFile: "本を選択（ZIP、EPUB、PDF、FB2、TXT、MD）",
+    changeFile: "別の本を選択",
+    startAnalysis: "詳細分析を開始",
+    logs: "処理ログ",
+    timeElapsed: "経過",
+    timeRem: "残り",
+    summaryTitle: "要約",
+    generatedBy: "AI Book Summarizer により生成",
+    download: ".md をダウンロード",
+    copy: "コピー",
+    copySuccess: "クリップボードにコピーしました",
+    fileParsed: "ファイル解析時間",
+    chars: "文字",
+    chunking: "テキスト分割",
+    step1: "フェーズ 1：詳細抽出",
+    step2: "フェーズ 2：統合",
+    step3: "フェーズ 3：仕上げと整形",
+    error: "エラー",
+    criticalError: "重大なエラー",
+    tokenUsage: "セッションのトークン使用量",
+    checkQuota: "Google の割り当てを確認",
+    tabAnalyze: "分析",
+    tabHistory: "履歴",
+    historyEmpty: "要約はまだありません。",
+    import: "JSON をインポート",
+    export: "JSON をエクスポート",
+    delete: "削除",
+    view: "表示",
+    restoreMsg: "履歴をインポートしました",
+    statusThinking: "内容を分析中...",
+    statusReading: "文書を読み込み中...",
+    statusWriting: "最終ノートを整理中...",
+    resumeTitle: "未完了の分析",
+    resume: "再開",
+    discard: "破棄",
+    partsDone: "パート完了",
+    settings: "設定",
+    provider: "プロバイダー",
+    baseUrl: "ベース URL",
+    model: "モデル",
+    apiKey: "API キー（任意）",
+    loadModels: "モデルを読み込む",
+    concurrency: "並列リクエスト数",
+    requestsPerMinute: "リクエスト / 分（0 = 無制限）",
+    tokensPerMinute: "トークン / 分（0 = 無制限）",
+    queue: "リクエストキュー",
+    queueRunning: "実行中",
+    queueWaiting: "待機中",
+    queueRetrying: "再試行中",
+    queueDone: "完了",
+    queueFailed: "失敗",
+    failedParts: "失敗したパート",
+    part: "パート",
+    retry: "再試行",
+    retryAll: "すべて再試行",
+    rebuildSummary: "要約を再作成",
+    missingPartsNotice: "この要約は不完全です。欠けているパート：",
+    pause: "一時停止",
+    paused: "一時停止中",
+    cancel: "キャンセル",
+    pausedMsg: "一時停止しました。実行中のリクエストは完了し、新しいリクエストは開始されません。",
+    resumedMsg: "再開しました。",
+    cancelledMsg: "ユーザーによりキャンセルされました。",
+    searchHistory: "タイトル・著者・要約を検索...",
+    sourceTitle: "出典",
+    sourceUnavailable: "この項目には本文が保存されていません。原文を表示するには本をもう一度分析してください。",
+    preset: "要約の種類",
+    presetDeep: "詳細抽出",
+    presetExecutive: "1 ページ要約",
+    presetStudy: "学習ノート",
+    presetOutline: "章ごとのアウトライン",
+    presetFlashcards: "単語カード",
+    presetQuotes: "重要な引用",
+    presetChecklist: "行動チェックリスト",
+    words: "語",
+    noLengthLimit: "制限なし",
+    prompts: "プロンプト",
+    promptSystem: "システム",
+    promptExtract: "抽出",
+    promptConsolidate: "統合",
+    promptPolish: "仕上げ",
+    promptVariables: "変数",
+    promptAppended: "プロンプトの後に自動で追加",
+    promptCustom: "カスタム",
+    promptBuiltIn: "組み込み",
+    promptReset: "リセット",
+    promptsImported: "プロンプトをインポートしました",
+    interfaceLanguage: "表示言語",
+    outputLanguage: "要約の言語",
+    sourceLanguage: "本の言語",
+    batchQueue: "バッチキュー",
+    startQueue: "キューを開始",
+    pauseQueue: "キューを一時停止",
+    resumeQueue: "キューを再開",
+    addFolder: "フォルダを追加",
+    moveUp: "上へ",
+    moveDown: "下へ",
+    remove: "削除",
+    clearFinished: "完了を消去",
+    batchQueued: "待機中",
+    batchRunning: "処理中",
+    batchDone: "完了",
+    batchFailed: "失敗",
+    batchCancelled: "キャンセル",
+    showLogs: "ログ",
+    batchPausing: "キュー一時停止中：現在の本は完了し、次の本はキュー再開まで待機します。",
+    batchHint: "複数のファイルを選択するか、フォルダをドロップしてキューに追加",
+    synthesis: "統合",
+    synthesize: "統合する",
+    selectForSynthesis: "統合に選択",
+    selectedForSynthesis: "選択中",
+    clearSelection: "解除",
+    synthesisHint: "比較する要約を2つ以上選択してください",
+    synthesisSources: "出典",
+    deletedItem: "削除済み",
+    ask: "本に質問",
+    askPlaceholder: "本について質問してください...",
+    askButton: "質問",
+    askUnavailable: "この項目は本文なしで保存されました。質問するには本をもう一度分析してください。",
+    partsUsed: "検索したパート",
+    clearConversation: "会話を消去",
+    storageUsed: "ストレージ",
+    storageFull: "ブラウザのストレージがいっぱいです。要約は履歴に保存されませんでした。ダウンロードするか古い項目を削除してください。",
+    storageError: "履歴に保存できませんでした",
+    loadMore: "さらに読み込む",
+    parts: "パート",
+    downloadParts: "各パートの要約をダウンロード (.md)",
+    partsUnavailable: "この項目にはパートの要約が保存されていません。",
+    allLanguages: "すべての言語",
+    allModels: "すべてのモデル",
+    allTags: "すべてのタグ",
+    dateFrom: "開始",
+    dateTo: "終了",
+    favorites: "お気に入り",
+    favorite: "お気に入り",
+    sortBy: "並べ替え",
+    sortNewest: "新しい順",
+    sortOldest: "古い順",
+    sortName: "名前",
+    sortTokens: "トークン使用量",
+    resetFilters: "リセット",
+    addTag: "タグを追加...",
+    removeTag: "タグを削除",
+    exportMenu: "エクスポート",
+    exportContents: "目次",
+    exportFailed: "エクスポートに失敗しました",
+    exportNoCards: "この要約には質問/回答カードもセクションも見つかりませんでした。",
+    exportNotes: "ノートをエクスポート (ZIP)",
+    notesIndex: "本の要約",
+    usage: "使用量",
+    tokens: "トークン",
+    tokensInput: "入力",
+    tokensOutput: "出力",
+    tokensThinking: "思考",
+    cost: "コスト",
+    usagePerDay: "日別",
+    usagePerModel: "モデル別",
+    untrackedTokens: "内訳のない古いエントリのトークン（価格なし）",
+    costIncomplete: "価格またはトークン内訳のないエントリはコストに含まれません。",
+    priceTable: "価格",
+    currency: "通貨",
+    pricePerMillion: "100万トークンあたり：入力、出力（思考は出力として課金）",
+    addPrice: "モデルを追加",
+    estimateApproximate: "概算",
+    preview: "プレビュー",
+    chunkSize: "パートのサイズ",
+    includePart: "このパートを含める",
+    textCleaned: "テキストのクリーニング",
+    headerLinesRemoved: "行のヘッダー/フッターを削除",
+    hyphenationsJoined: "箇所のハイフネーションを結合",
+    markedForExclusion: "除外対象",
+    matterToc: "目次",
+    matterIndex: "索引",
+    matterBibliography: "参考文献",
+    matterCopyright: "奥付",
+    ocrStarted: "テキストレイヤーのないスキャンページを OCR で読み取り中",
+    ocrPage: "OCR：ページ",
+    bookLanguage: "スキャンページの言語"
+  }
+};
+
+export default ja;
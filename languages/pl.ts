@@ -0,0 +1,195 @@
+import { LanguagePack } from '../types';
+
+// UI only; prompts fall back to English with the output language set to Polish
+
+const pl: LanguagePack = {
+  code: 'PL',
+  name: 'Polish',
+  nativeName: 'Polski',
+  promptName: 'POLISH',
+  ocrLanguage: 'pol',
+  ui: {
+    title: "AI Book Summarizer",
+    subtitle: "Dogłębna ekstrakcja wiedzy",
+    selectFile: "Wybierz książkę (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Wybierz inną książkę",
+    startAnalysis: "Rozpocznij dogłębną analizę",
+    logs: "Dziennik procesu",
+    timeElapsed: "Upłynęło",
+    timeRem: "Pozostało",
+    summaryTitle: "Streszczenie",
+    generatedBy: "Wygenerowano przez AI Book Summarizer",
+    download: "Pobierz .md",
+    copy: "Kopiuj",
+    copySuccess: "Skopiowano do schowka",
+    fileParsed: "Plik przetworzony w",
+    chars: "znaków",
+    chunking: "Dzielenie tekstu",
+    step1: "Etap 1: Dogłębna ekstrakcja",
+    step2: "Etap 2: Konsolidacja",
+    step3: "Etap 3: Redakcja i formatowanie",
+    error: "Błąd",
+    criticalError: "Błąd krytyczny",
+    tokenUsage: "Tokeny zużyte w sesji",
+    checkQuota: "Sprawdź limit Google",
+    tabAnalyze: "Analiza",
+    tabHistory: "Historia",
+    historyEmpty: "Brak streszczeń.",
+    import: "Importuj JSON",
+    export: "Eksportuj JSON",
+    delete: "Usuń",
+    view: "Otwórz",
+    restoreMsg: "Historia zaimportowana",
+    statusThinking: "Analiza treści...",
+    statusReading: "Czytanie dokumentu...",
+    statusWriting: "Porządkowanie notatek końcowych...",
+    resumeTitle: "Niedokończona analiza",
+    resume: "Wznów",
+    discard: "Odrzuć",
+    partsDone: "części gotowe",
+    settings: "Ustawienia",
+    provider: "Dostawca",
+    baseUrl: "Bazowy URL",
+    model: "Model",
+    apiKey: "Klucz API (opcjonalnie)",
+    loadModels: "Wczytaj modele",
+    concurrency: "Równoległe zapytania",
+    requestsPerMinute: "Zapytania / min (0 = bez limitu)",
+    tokensPerMinute: "Tokeny / min (0 = bez limitu)",
+    queue: "Kolejka zapytań",
+    queueRunning: "w toku",
+    queueWaiting: "oczekuje",
+    queueRetrying: "ponawianie",
+    queueDone: "gotowe",
+    queueFailed: "nieudane",
+    failedParts: "Nieudane części",
+    part: "Część",
+    retry: "Ponów",
+    retryAll: "Ponów wszystkie",
+    rebuildSummary: "Odbuduj streszczenie",
+    missingPartsNotice: "To streszczenie jest niekompletne. Brakujące części książki:",
+    pause: "Wstrzymaj",
+    paused: "Wstrzymano",
+    cancel: "Anuluj",
+    pausedMsg: "Wstrzymano. Trwające zapytania się zakończą, nowe nie zostaną uruchomione.",
+    resumedMsg: "Wznowiono.",
+    cancelledMsg: "Anulowane przez użytkownika.",
+    searchHistory: "Szukaj w tytułach, autorach i streszczeniach...",
+    sourceTitle: "Źródło",
+    sourceUnavailable: "Tekst książki nie jest zapisany przy tym wpisie. Przeanalizuj książkę ponownie, aby przeczytać źródło.",
+    preset: "Rodzaj streszczenia",
+    presetDeep: "Dogłębna ekstrakcja",
+    presetExecutive: "Podsumowanie na jedną stronę",
+    presetStudy: "Notatki do nauki",
+    presetOutline: "Plan rozdziałów",
+    presetFlashcards: "Fiszki",
+    presetQuotes: "Kluczowe cytaty",
+    presetChecklist: "Lista działań",
+    words: "słów",
+    noLengthLimit: "bez limitu",
+    prompts: "Prompty",
+    promptSystem: "Systemowy",
+    promptExtract: "Ekstrakcja",
+    promptConsolidate: "Konsolidacja",
+    promptPolish: "Redakcja",
+    promptVariables: "Zmienne",
+    promptAppended: "Dodawane automatycznie po prompcie",
+    promptCustom: "Własny",
+    promptBuiltIn: "Wbudowany",
+    promptReset: "Przywróć",
+    promptsImported: "Prompty zaimportowane",
+    interfaceLanguage: "Język interfejsu",
+    outputLanguage: "Język streszczenia",
+    sourceLanguage: "Język książki",
+    batchQueue: "Kolejka książek",
+    startQueue: "Uruchom kolejkę",
+    pauseQueue: "Wstrzymaj kolejkę",
+    resumeQueue: "Wznów kolejkę",
+    addFolder: "Dodaj folder",
+    moveUp: "W górę",
+    moveDown: "W dół",
+    remove: "Usuń",
+    clearFinished: "Usuń zakończone",
+    batchQueued: "W kolejce",
+    batchRunning: "W toku",
+    batchDone: "Gotowe",
+    batchFailed: "Błąd",
+    batchCancelled: "Anulowano",
+    showLogs: "Dziennik",
+    batchPausing: "Kolejka wstrzymana: bieżąca książka zostanie dokończona, następna czeka na wznowienie kolejki.",
+    batchHint: "Wybierz kilka plików lub upuść folder, aby dodać je do kolejki",
+    synthesis: "Synteza",
+    synthesize: "Porównaj",
+    selectForSynthesis: "Wybierz do syntezy",
+    selectedForSynthesis: "Wybrano",
+    clearSelection: "Wyczyść",
+    synthesisHint: "Wybierz co najmniej dwa streszczenia do porównania",
+    synthesisSources: "Źródła",
+    deletedItem: "usunięto",
+    ask: "Zapytaj książkę",
+    askPlaceholder: "Zadaj pytanie o książkę...",
+    askButton: "Zapytaj",
+    askUnavailable: "Ten wpis zapisano bez tekstu książki. Przeanalizuj książkę ponownie, aby zadawać pytania.",
+    partsUsed: "Przeszukane części",
+    clearConversation: "Wyczyść rozmowę",
+    storageUsed: "Pamięć",
+    storageFull: "Pamięć przeglądarki jest pełna: streszczenie nie zostało zapisane w historii. Pobierz je lub usuń stare wpisy.",
+    storageError: "Nie udało się zapisać w historii",
+    loadMore: "Wczytaj więcej",
+    parts: "Części",
+    downloadParts: "Pobierz streszczenie każdej części (.md)",
+    partsUnavailable: "Dla tego wpisu nie zapisano streszczeń części.",
+    allLanguages: "Wszystkie języki",
+    allModels: "Wszystkie modele",
+    allTags: "Wszystkie tagi",
+    dateFrom: "Od",
+    dateTo: "Do",
+    favorites: "Ulubione",
+    favorite: "Ulubione",
+    sortBy: "Sortuj",
+    sortNewest: "Najnowsze",
+    sortOldest: "Najstarsze",
+    sortName: "Nazwa",
+    sortTokens: "Zużycie tokenów",
+    resetFilters: "Wyczyść",
+    addTag: "Dodaj tag...",
+    removeTag: "Usuń tag",
+    exportMenu: "Eksport",
+    exportContents: "Spis treści",
+    exportFailed: "Eksport nie powiódł się",
+    exportNoCards: "W tym streszczeniu nie znaleziono fiszek pytanie/odpowiedź ani sekcji.",
+    exportNotes: "Eksportuj notatki (ZIP)",
+    notesIndex: "Streszczenia książek",
+    usage: "Zużycie",
+    tokens: "Tokeny",
+    tokensInput: "wejście",
+    tokensOutput: "wyjście",
+    tokensThinking: "rozumowanie",
+    cost: "Koszt",
+    usagePerDay: "Dziennie",
+    usagePerModel: "Według modelu",
+    untrackedTokens: "Tokeny starszych wpisów bez podziału (bez ceny)",
+    costIncomplete: "Wpisy bez ceny lub bez podziału tokenów nie są wliczane do kosztu.",
+    priceTable: "Ceny",
+    currency: "Waluta",
+    pricePerMillion: "za 1 mln tokenów: wejście, wyjście (rozumowanie liczone jak wyjście)",
+    addPrice: "Dodaj model",
+    estimateApproximate: "w przybliżeniu",
+    preview: "Podgląd",
+    chunkSize: "Rozmiar części",
+    includePart: "Uwzględnij tę część",
+    textCleaned: "Czyszczenie tekstu",
+    headerLinesRemoved: "usuniętych linii nagłówka/stopki",
+    hyphenationsJoined: "scalonych przeniesień wyrazów",
+    markedForExclusion: "Oznaczone do wykluczenia",
+    matterToc: "Spis treści",
+    matterIndex: "Indeks",
+    matterBibliography: "Bibliografia",
+    matterCopyright: "Prawa autorskie",
+    ocrStarted: "Zeskanowane strony bez warstwy tekstowej, rozpoznawanie OCR",
+    ocrPage: "OCR: strona",
+    bookLanguage: "Język zeskanowanych stron"
+  }
+};
+
+export default pl;
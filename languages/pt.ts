@@ -0,0 +1,195 @@
+import { LanguagePack } from '../types';
+
+// UI only; prompts fall back to English with the output language set to Portuguese
+
+const pt: LanguagePack = {
+  code: 'PT',
+  name: 'Portuguese',
+  nativeName: 'Português',
+  promptName: 'PORTUGUESE',
+  ocrLanguage: 'por',
+  ui: {
+    title: "AI Book Summarizer",
+    subtitle: "Extração profunda de conhecimento",
+    selectFile: "Selecionar livro (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Selecionar outro livro",
+    startAnalysis: "Iniciar análise profunda",
+    logs: "Registo do processo",
+    timeElapsed: "Decorrido",
+    timeRem: "Restante",
+    summaryTitle: "Resumo",
+    generatedBy: "Gerado por AI Book Summarizer",
+    download: "Descarregar .md",
+    copy: "Copiar",
+    copySuccess: "Copiado para a área de transferência",
+    fileParsed: "Ficheiro analisado em",
+    chars: "caracteres",
+    chunking: "Divisão do texto",
+    step1: "Fase 1: Extração profunda",
+    step2: "Fase 2: Consolidação",
+    step3: "Fase 3: Revisão e formatação",
+    error: "Erro",
+    criticalError: "Erro crítico",
+    tokenUsage: "Tokens usados na sessão",
+    checkQuota: "Verificar quota Google",
+    tabAnalyze: "Analisar",
+    tabHistory: "Histórico",
+    historyEmpty: "Ainda não há resumos.",
+    import: "Importar JSON",
+    export: "Exportar JSON",
+    delete: "Eliminar",
+    view: "Ver",
+    restoreMsg: "Histórico importado",
+    statusThinking: "A analisar o conteúdo...",
+    statusReading: "A ler o documento...",
+    statusWriting: "A estruturar as notas finais...",
+    resumeTitle: "Análise inacabada",
+    resume: "Retomar",
+    discard: "Descartar",
+    partsDone: "partes concluídas",
+    settings: "Definições",
+    provider: "Fornecedor",
+    baseUrl: "URL base",
+    model: "Modelo",
+    apiKey: "Chave API (opcional)",
+    loadModels: "Carregar modelos",
+    concurrency: "Pedidos em paralelo",
+    requestsPerMinute: "Pedidos / min (0 = sem limite)",
+    tokensPerMinute: "Tokens / min (0 = sem limite)",
+    queue: "Fila de pedidos",
+    queueRunning: "em curso",
+    queueWaiting: "em espera",
+    queueRetrying: "nova tentativa",
+    queueDone: "concluídos",
+    queueFailed: "falhados",
+    failedParts: "Partes falhadas",
+    part: "Parte",
+    retry: "Repetir",
+    retryAll: "Repetir todas",
+    rebuildSummary: "Reconstruir resumo",
+    missingPartsNotice: "Este resumo está incompleto. Partes do livro em falta:",
+    pause: "Pausa",
+    paused: "Em pausa",
+    cancel: "Cancelar",
+    pausedMsg: "Em pausa. Os pedidos em curso terminam, não serão iniciados novos.",
+    resumedMsg: "Retomado.",
+    cancelledMsg: "Cancelado pelo utilizador.",
+    searchHistory: "Pesquisar em títulos, autores e resumos...",
+    sourceTitle: "Fonte",
+    sourceUnavailable: "O texto do livro não está guardado com esta entrada. Analise o livro novamente para ler a fonte.",
+    preset: "Tipo de resumo",
+    presetDeep: "Extração profunda",
+    presetExecutive: "Resumo executivo",
+    presetStudy: "Notas de estudo",
+    presetOutline: "Esquema por capítulos",
+    presetFlashcards: "Cartões de estudo",
+    presetQuotes: "Citações-chave",
+    presetChecklist: "Lista de ações",
+    words: "palavras",
+    noLengthLimit: "sem limite",
+    prompts: "Prompts",
+    promptSystem: "Sistema",
+    promptExtract: "Extração",
+    promptConsolidate: "Consolidação",
+    promptPolish: "Revisão",
+    promptVariables: "Variáveis",
+    promptAppended: "Adicionado automaticamente após o prompt",
+    promptCustom: "Personalizado",
+    promptBuiltIn: "Predefinido",
+    promptReset: "Repor",
+    promptsImported: "Prompts importados",
+    interfaceLanguage: "Idioma da interface",
+    outputLanguage: "Idioma do resumo",
+    sourceLanguage: "Idioma do livro",
+    batchQueue: "Fila de livros",
+    startQueue: "Iniciar fila",
+    pauseQueue: "Pausar fila",
+    resumeQueue: "Retomar fila",
+    addFolder: "Adicionar pasta",
+    moveUp: "Subir",
+    moveDown: "Descer",
+    remove: "Remover",
+    clearFinished: "Remover concluídos",
+    batchQueued: "Na fila",
+    batchRunning: "Em curso",
+    batchDone: "Concluído",
+    batchFailed: "Falhou",
+    batchCancelled: "Cancelado",
+    showLogs: "Registo",
+    batchPausing: "Fila em pausa: o livro atual termina, o próximo espera até a fila ser retomada.",
+    batchHint: "Selecione vários arquivos ou solte uma pasta para colocá-los na fila",
+    synthesis: "Síntese",
+    synthesize: "Sintetizar",
+    selectForSynthesis: "Selecionar para síntese",
+    selectedForSynthesis: "Selecionados",
+    clearSelection: "Limpar",
+    synthesisHint: "Selecione pelo menos dois resumos para comparar",
+    synthesisSources: "Fontes",
+    deletedItem: "excluído",
+    ask: "Perguntar ao livro",
+    askPlaceholder: "Faça uma pergunta sobre o livro...",
+    askButton: "Perguntar",
+    askUnavailable: "Esta entrada foi salva sem o texto do livro. Analise o livro novamente para fazer perguntas.",
+    partsUsed: "Partes consultadas",
+    clearConversation: "Limpar conversa",
+    storageUsed: "Armazenamento",
+    storageFull: "O armazenamento do navegador está cheio: o resumo não foi salvo no histórico. Baixe-o ou exclua entradas antigas.",
+    storageError: "Não foi possível salvar no histórico",
+    loadMore: "Carregar mais",
+    parts: "Partes",
+    downloadParts: "Baixar o resumo de cada parte (.md)",
+    partsUnavailable: "Os resumos das partes não foram guardados para esta entrada.",
+    allLanguages: "Todos os idiomas",
+    allModels: "Todos os modelos",
+    allTags: "Todas as etiquetas",
+    dateFrom: "De",
+    dateTo: "Até",
+    favorites: "Favoritos",
+    favorite: "Favorito",
+    sortBy: "Ordenar",
+    sortNewest: "Mais recentes",
+    sortOldest: "Mais antigos",
+    sortName: "Nome",
+    sortTokens: "Uso de tokens",
+    resetFilters: "Redefinir",
+    addTag: "Adicionar etiqueta...",
+    removeTag: "Remover etiqueta",
+    exportMenu: "Exportar",
+    exportContents: "Sumário",
+    exportFailed: "Falha ao exportar",
+    exportNoCards: "Nenhum cartão de pergunta/resposta ou secção foi encontrado neste resumo.",
+    exportNotes: "Exportar notas (ZIP)",
+    notesIndex: "Resumos de livros",
+    usage: "Consumo",
+    tokens: "Tokens",
+    tokensInput: "entrada",
+    tokensOutput: "saída",
+    tokensThinking: "raciocínio",
+    cost: "Custo",
+    usagePerDay: "Por dia",
+    usagePerModel: "Por modelo",
+    untrackedTokens: "Tokens de entradas antigas sem detalhe (sem preço)",
+    costIncomplete: "Entradas sem preço ou sem detalhe de tokens não entram no custo.",
+    priceTable: "Preços",
+    currency: "Moeda",
+    pricePerMillion: "por 1M de tokens: entrada, saída (o raciocínio é cobrado como saída)",
+    addPrice: "Adicionar modelo",
+    estimateApproximate: "aproximado",
+    preview: "Pré-visualização",
+    chunkSize: "Tamanho da parte",
+    includePart: "Incluir esta parte",
+    textCleaned: "Limpeza do texto",
+    headerLinesRemoved: "linhas de cabeçalho/rodapé removidas",
+    hyphenationsJoined: "palavras hifenizadas unidas",
+    markedForExclusion: "Marcado para exclusão",
+    matterToc: "Sumário",
+    matterIndex: "Índice remissivo",
+    matterBibliography: "Bibliografia",
+    matterCopyright: "Créditos",
+    ocrStarted: "Páginas digitalizadas sem camada de texto, lendo com OCR",
+    ocrPage: "OCR: página",
+    bookLanguage: "Idioma das páginas digitalizadas"
+  }
+};
+
+export default pt;
@@ -0,0 +1,241 @@
+import { LanguagePack } from '../types';
+
+const ru: LanguagePack = {
+  code: 'RU',
+  name: 'Russian',
+  nativeName: 'Русский',
+  promptName: 'RUSSIAN',
+  ocrLanguage: 'rus',
+  ui: {
+    title: "AI Book Summarizer",
+    subtitle: "Глубокий анализ книг",
+    selectFile: "Выберите книгу (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Выбрать другую книгу",
+    startAnalysis: "Начать глубокий анализ",
+    logs: "Лог процесса",
+    timeElapsed: "В работе",
+    timeRem: "Осталось",
+    summaryTitle: "Резюме",
+    generatedBy: "Сгенерировано AI Book Summarizer",
+    download: "Скачать .md",
+    copy: "Копировать",
+    copySuccess: "Скопировано в буфер",
+    fileParsed: "Файл прочитан за",
+    chars: "симв.",
+    chunking: "Разбиение текста",
+    step1: "Этап 1: Глубокое извлечение",
+    step2: "Этап 2: Сборка (Консолидация)",
+    step3: "Этап 3: Шлифовка и структура",
+    error: "Ошибка",
+    criticalError: "Критическая ошибка",
+    tokenUsage: "Токенов за сессию",
+    checkQuota: "Проверить квоты Google",
+    tabAnalyze: "Анализ",
+    tabHistory: "История",
+    historyEmpty: "История пуста.",
+    import: "Импорт JSON",
+    export: "Экспорт JSON",
+    delete: "Удалить",
+    view: "Открыть",
+    restoreMsg: "История успешно восстановлена",
+    statusThinking: "Анализ содержимого...",
+    statusReading: "Чтение файла...",
+    statusWriting: "Формирование заметки...",
+    resumeTitle: "Незавершённый анализ",
+    resume: "Продолжить",
+    discard: "Отменить",
+    partsDone: "частей готово",
+    settings: "Настройки",
+    provider: "Провайдер",
+    baseUrl: "Базовый URL",
+    model: "Модель",
+    apiKey: "API ключ (необязательно)",
+    loadModels: "Загрузить модели",
+    concurrency: "Параллельных запросов",
+    requestsPerMinute: "Запросов / мин (0 = без лимита)",
+    tokensPerMinute: "Токенов / мин (0 = без лимита)",
+    queue: "Очередь запросов",
+    queueRunning: "в работе",
+    queueWaiting: "ожидают",
+    queueRetrying: "повтор",
+    queueDone: "готово",
+    queueFailed: "ошибка",
+    failedParts: "Сбойные части",
+    part: "Часть",
+    retry: "Повторить",
+    retryAll: "Повторить все",
+    rebuildSummary: "Пересобрать резюме",
+    missingPartsNotice: "Резюме неполное. Отсутствуют части книги:",
+    pause: "Пауза",
+    paused: "На паузе",
+    cancel: "Отмена",
+    pausedMsg: "Пауза. Текущие запросы завершатся, новые не начнутся.",
+    resumedMsg: "Продолжено.",
+    cancelledMsg: "Отменено пользователем.",
+    searchHistory: "Поиск по названиям, авторам и тексту конспектов...",
+    sourceTitle: "Источник",
+    sourceUnavailable: "Текст книги не сохранён в этой записи. Проанализируйте книгу снова, чтобы увидеть источник.",
+    preset: "Тип пересказа",
+    presetDeep: "Глубокое извлечение",
+    presetExecutive: "Резюме на страницу",
+    presetStudy: "Конспект",
+    presetOutline: "План по главам",
+    presetFlashcards: "Карточки",
+    presetQuotes: "Ключевые цитаты",
+    presetChecklist: "Чек-лист действий",
+    words: "слов",
+    noLengthLimit: "без ограничений",
+    prompts: "Промпты",
+    promptSystem: "Системный",
+    promptExtract: "Извлечение",
+    promptConsolidate: "Консолидация",
+    promptPolish: "Оформление",
+    promptVariables: "Переменные",
+    promptAppended: "Добавляется к промпту автоматически",
+    promptCustom: "Свой",
+    promptBuiltIn: "Встроенный",
+    promptReset: "Сбросить",
+    promptsImported: "Промпты импортированы",
+    interfaceLanguage: "Язык интерфейса",
+    outputLanguage: "Язык пересказа",
+    sourceLanguage: "Язык книги",
+    batchQueue: "Очередь книг",
+    startQueue: "Запустить очередь",
+    pauseQueue: "Приостановить очередь",
+    resumeQueue: "Продолжить очередь",
+    addFolder: "Добавить папку",
+    moveUp: "Выше",
+    moveDown: "Ниже",
+    remove: "Убрать",
+    clearFinished: "Убрать завершённые",
+    batchQueued: "В очереди",
+    batchRunning: "В работе",
+    batchDone: "Готово",
+    batchFailed: "Ошибка",
+    batchCancelled: "Отменено",
+    showLogs: "Лог",
+    batchPausing: "Очередь приостановлена: текущая книга будет завершена, следующая ждёт продолжения очереди.",
+    batchHint: "Выберите несколько файлов или перетащите папку, чтобы поставить их в очередь",
+    synthesis: "Синтез",
+    synthesize: "Сравнить книги",
+    selectForSynthesis: "Выбрать для синтеза",
+    selectedForSynthesis: "Выбрано",
+    clearSelection: "Сбросить",
+    synthesisHint: "Выберите хотя бы два конспекта для сравнения",
+    synthesisSources: "Источники",
+    deletedItem: "удалено",
+    ask: "Вопросы к книге",
+    askPlaceholder: "Задайте вопрос по книге...",
+    askButton: "Спросить",
+    askUnavailable: "Эта запись сохранена без текста книги. Проанализируйте книгу снова, чтобы задавать вопросы.",
+    partsUsed: "Найденные части",
+    clearConversation: "Очистить диалог",
+    storageUsed: "Хранилище",
+    storageFull: "Хранилище браузера заполнено: конспект не сохранён в историю. Скачайте его или удалите старые записи, чтобы освободить место.",
+    storageError: "Не удалось сохранить в историю",
+    loadMore: "Показать ещё",
+    parts: "Части",
+    downloadParts: "Скачать конспекты всех частей (.md)",
+    partsUnavailable: "Для этой записи конспекты частей не сохранены.",
+    allLanguages: "Все языки",
+    allModels: "Все модели",
+    allTags: "Все теги",
+    dateFrom: "С",
+    dateTo: "По",
+    favorites: "Избранное",
+    favorite: "В избранное",
+    sortBy: "Сортировка",
+    sortNewest: "Сначала новые",
+    sortOldest: "Сначала старые",
+    sortName: "По названию",
+    sortTokens: "По токенам",
+    resetFilters: "Сбросить",
+    addTag: "Добавить тег...",
+    removeTag: "Удалить тег",
+    exportMenu: "Экспорт",
+    exportContents: "Содержание",
+    exportFailed: "Не удалось экспортировать",
+    exportNoCards: "В конспекте не найдено карточек «вопрос/ответ» или разделов.",
+    exportNotes: "Экспорт заметок (ZIP)",
+    notesIndex: "Конспекты книг",
+    usage: "Расход",
+    tokens: "Токены",
+    tokensInput: "вход",
+    tokensOutput: "выход",
+    tokensThinking: "рассуждения",
+    cost: "Стоимость",
+    usagePerDay: "По дням",
+    usagePerModel: "По моделям",
+    untrackedTokens: "Токены старых записей без разбивки (не оцениваются)",
+    costIncomplete: "Записи без цены или без разбивки токенов не входят в стоимость.",
+    priceTable: "Цены",
+    currency: "Валюта",
+    pricePerMillion: "за 1M токенов: вход, выход (рассуждения оплачиваются как выход)",
+    addPrice: "Добавить модель",
+    estimateApproximate: "приблизительно",
+    preview: "Предпросмотр",
+    chunkSize: "Размер части",
+    includePart: "Включить эту часть",
+    textCleaned: "Очистка текста",
+    headerLinesRemoved: "строк колонтитулов удалено",
+    hyphenationsJoined: "переносов слов склеено",
+    markedForExclusion: "Помечено для исключения",
+    matterToc: "Оглавление",
+    matterIndex: "Указатель",
+    matterBibliography: "Библиография",
+    matterCopyright: "Выходные данные",
+    ocrStarted: "Отсканированные страницы без текстового слоя, распознаём их (OCR)",
+    ocrPage: "OCR: страница",
+    bookLanguage: "Язык отсканированных страниц"
+  },
+  prompts: {
+    outputLanguage: "Язык вывода: РУССКИЙ.",
+    sourceLanguage: "Язык книги: {{source}}.",
+    consolidateRules: "Если используешь заголовки, то не используй заголовки старше 3 (###) включительно, используй 4, 5, 6. Пересказы помечены названиями глав книги: сохраняй порядок и структуру оглавления книги.",
+    consolidateMarkers: "Утверждения помечены ссылками на источник вида [S3:120000-215000]. Сохраняй эти метки без изменений в конце утверждений, которые они подтверждают; при объединении утверждений оставляй все их метки. Не придумывай новые метки.",
+    polishMarkers: "Метки источников вида [S3:120000-215000] сохраняй без изменений рядом с утверждениями, к которым они относятся.",
+    noEmphasis: "ТЕБЕ ЗАПРЕЩЕНО ИСПОЛЬЗОВАНИЕ **ЖИРНОГО** (bold) И *КУРСИВА* (italics). Не используй символы ** или * для выделения текста. ВЕСЬ ТЕКСТ ДОЛЖЕН БЫТЬ ОБЫЧНЫМ (Regular weight).",
+    targetLength: "Целевой объём: около {{words}} слов.",
+    synthesis: "Документ содержит конспекты нескольких разных книг, у каждого указано название. Сравни их и напиши единый отчёт: в чём книги сходятся, в чём противоречат друг другу и какие идеи есть только в одной из них. Всегда указывай, из какой книги взято утверждение. Части документа могут уже быть промежуточными сравнительными отчётами; объедини их, не теряя ни одного совпадения, противоречия или уникальной идеи. Используй заголовки не крупнее 4 уровня (####).",
+    answer: "Ответь на вопрос, опираясь только на пронумерованные части книги ниже. После каждого утверждения укажи части, на которых оно основано, в виде [S<номер>], например [S3]. Если в частях нет ответа, прямо скажи об этом, не додумывай. Отвечай кратко.",
+    presets: {
+      deep: {
+        extract: "Извлеки и синтезируй самую ценную, важную и практически применимую информацию из всех предоставленных источников. Полностью исключи теоретическую \"воду\", исторические отступления, анекдоты и любые другие неessentialные детали. Сформируй структурированное резюме, которое позволит понять суть всех источников без необходимости читать их целиком.\n\nТочно всё? Ты ничего не упустил? Перепроверь.",
+        consolidate: "В документе представлено несколько пересказов одного и того же источника (последовательных частей книги). Твоя задача скомпилировать из них единый, исчерпывающий пересказ, без потери полезной информации. Изменения следует вносить в сам документ.",
+        polish: "Структурируй текст ниже. Используй, если необходимо, заголовки H4 - H6, вложенные списки, нумерованные списки и т.д.\n\nВажно не потерять информацию, а структурировать её."
+      },
+      executive: {
+        extract: "Извлеки только центральный тезис, ключевые аргументы, самые важные доказательства и выводы предоставленного текста. Пропускай примеры, истории и второстепенные детали, если они не меняют выводов.",
+        consolidate: "В документе представлены заметки по последовательным частям одной книги. Объедини их в одну короткую справку: главный тезис книги, ключевые идеи в порядке важности и то, что читателю стоит вынести. Убери повторы и второстепенное.",
+        polish: "Преврати текст ниже в резюме на одну страницу для руководителя: сначала главный вывод одним абзацем, затем ключевые идеи коротким списком, затем практические следствия. Каждое предложение должно быть необходимым."
+      },
+      study: {
+        extract: "Составь подробный конспект предоставленного текста: ключевые понятия с определениями, логика каждой основной идеи, важные факты, имена, цифры и примеры, которые помогают запомнить материал. Сохраняй терминологию автора.",
+        consolidate: "В документе представлены конспекты последовательных частей одной книги. Объедини их в один полный конспект, не теряя понятий, определений и примеров. Если идея повторяется, оставь самое понятное объяснение.",
+        polish: "Структурируй конспект ниже для учёбы: понятия и определения, объяснения, примеры. В конце каждого крупного раздела добавь два-три вопроса для самопроверки. Не теряй информацию."
+      },
+      outline: {
+        extract: "Для каждой главы или раздела предоставленного текста составь краткий план: о чём глава и её основные положения в порядке изложения.",
+        consolidate: "В документе представлены планы глав последовательных частей одной книги. Объедини их в один план по главам. Оставь ровно одну запись на главу; объединяй записи, только если они описывают одну и ту же главу.",
+        polish: "Оформи текст ниже как план книги по главам: по одному заголовку на главу в порядке книги, под ним короткий список основных положений."
+      },
+      flashcards: {
+        extract: "Преврати самые важные факты, определения и идеи предоставленного текста в карточки для запоминания. Каждая карточка — один вопрос и один короткий самодостаточный ответ. Одна карточка проверяет один факт.",
+        consolidate: "В документе представлены карточки по последовательным частям одной книги. Объедини их в одну колоду: убери дубликаты, оставь лучшие формулировки, сохрани порядок книги.",
+        polish: "Оформи колоду ниже нумерованным списком. Каждый пункт — \"В: вопрос\", а на следующей строке \"О: ответ\". Сгруппируй карточки под короткими тематическими заголовками."
+      },
+      quotes: {
+        extract: "Выбери самые важные и запоминающиеся цитаты из предоставленного текста. Копируй каждую цитату дословно, никогда не пересказывай. После каждой цитаты добавь одно предложение о том, почему она важна.",
+        consolidate: "В документе представлены ключевые цитаты из последовательных частей одной книги. Объедини их в одну подборку: цитаты оставляй дословными, убирай более слабые повторы одной мысли, сохраняй порядок книги.",
+        polish: "Оформи подборку ниже: сгруппируй цитаты под короткими тематическими заголовками, каждую цитату — блоком цитаты (>), за ней комментарий в одно предложение. Никогда не меняй текст цитаты."
+      },
+      checklist: {
+        extract: "Извлеки из предоставленного текста все конкретные рекомендации, методы, правила и шаги, которые читатель может применить. Формулируй каждый пункт как указание, начинающееся с глагола. Пропускай теорию, которая не ведёт к действию.",
+        consolidate: "В документе представлены практические пункты из последовательных частей одной книги. Объедини их в один список действий: убери повторы, объедини шаги одного метода, расположи в логичном порядке выполнения.",
+        polish: "Оформи текст ниже как чек-лист действий: короткие разделы с пунктами-задачами (\"- [ ] ...\"), каждый пункт — одно конкретное действие."
+      }
+    }
+  }
+};
+
+export default ru;
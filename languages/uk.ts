@@ -0,0 +1,195 @@
+import { LanguagePack } from '../types';
+
+// UI only; prompts fall back to English with the output language set to Ukrainian
+
+const uk: LanguagePack = {
+  code: 'UK',
+  name: 'Ukrainian',
+  nativeName: 'Українська',
+  promptName: 'UKRAINIAN',
+  ocrLanguage: 'ukr',
+  ui: {
+    title: "AI Book Summarizer",
+    subtitle: "Глибокий аналіз книг",
+    selectFile: "Виберіть книгу (ZIP, EPUB, PDF, FB2, TXT, MD)",
+    changeFile: "Вибрати іншу книгу",
+    startAnalysis: "Почати глибокий аналіз",
+    logs: "Журнал процесу",
+    timeElapsed: "Минуло",
+    timeRem: "Залишилось",
+    summaryTitle: "Резюме",
+    generatedBy: "Створено AI Book Summarizer",
+    download: "Завантажити .md",
+    copy: "Копіювати",
+    copySuccess: "Скопійовано",
+    fileParsed: "Файл оброблено за",
+    chars: "символів",
+    chunking: "Розбиття тексту",
+    step1: "Етап 1: Глибоке вилучення",
+    step2: "Етап 2: Консолідація",
+    step3: "Етап 3: Редагування та форматування",
+    error: "Помилка",
+    criticalError: "Критична помилка",
+    tokenUsage: "Токени за сесію",
+    checkQuota: "Перевірити квоту Google",
+    tabAnalyze: "Аналіз",
+    tabHistory: "Історія",
+    historyEmpty: "Історія порожня.",
+    import: "Імпорт JSON",
+    export: "Експорт JSON",
+    delete: "Видалити",
+    view: "Відкрити",
+    restoreMsg: "Історію імпортовано",
+    statusThinking: "Аналіз змісту...",
+    statusReading: "Читання документа...",
+    statusWriting: "Структурування фінальних нотаток...",
+    resumeTitle: "Незавершений аналіз",
+    resume: "Продовжити",
+    discard: "Відкинути",
+    partsDone: "частин готово",
+    settings: "Налаштування",
+    provider: "Провайдер",
+    baseUrl: "Базовий URL",
+    model: "Модель",
+    apiKey: "API-ключ (необов'язково)",
+    loadModels: "Завантажити моделі",
+    concurrency: "Паралельні запити",
+    requestsPerMinute: "Запитів / хв (0 = без обмежень)",
+    tokensPerMinute: "Токенів / хв (0 = без обмежень)",
+    queue: "Черга запитів",
+    queueRunning: "виконується",
+    queueWaiting: "очікує",
+    queueRetrying: "повтор",
+    queueDone: "готово",
+    queueFailed: "помилка",
+    failedParts: "Невдалі частини",
+    part: "Частина",
+    retry: "Повторити",
+    retryAll: "Повторити всі",
+    rebuildSummary: "Перезібрати резюме",
+    missingPartsNotice: "Це резюме неповне. Відсутні частини книги:",
+    pause: "Пауза",
+    paused: "Призупинено",
+    cancel: "Скасувати",
+    pausedMsg: "Призупинено. Поточні запити завершаться, нові не запускатимуться.",
+    resumedMsg: "Продовжено.",
+    cancelledMsg: "Скасовано користувачем.",
+    searchHistory: "Пошук за назвами, авторами й текстом конспектів...",
+    sourceTitle: "Джерело",
+    sourceUnavailable: "Текст книги не збережено в цьому записі. Проаналізуйте книгу знову, щоб побачити джерело.",
+    preset: "Тип резюме",
+    presetDeep: "Глибоке вилучення",
+    presetExecutive: "Резюме на сторінку",
+    presetStudy: "Конспект",
+    presetOutline: "План за розділами",
+    presetFlashcards: "Картки",
+    presetQuotes: "Ключові цитати",
+    presetChecklist: "Чек-лист дій",
+    words: "слів",
+    noLengthLimit: "без обмежень",
+    prompts: "Промпти",
+    promptSystem: "Системний",
+    promptExtract: "Вилучення",
+    promptConsolidate: "Консолідація",
+    promptPolish: "Оформлення",
+    promptVariables: "Змінні",
+    promptAppended: "Додається до промпту автоматично",
+    promptCustom: "Власний",
+    promptBuiltIn: "Вбудований",
+    promptReset: "Скинути",
+    promptsImported: "Промпти імпортовано",
+    interfaceLanguage: "Мова інтерфейсу",
+    outputLanguage: "Мова резюме",
+    sourceLanguage: "Мова книги",
+    batchQueue: "Черга книг",
+    startQueue: "Запустити чергу",
+    pauseQueue: "Призупинити чергу",
+    resumeQueue: "Продовжити чергу",
+    addFolder: "Додати теку",
+    moveUp: "Вище",
+    moveDown: "Нижче",
+    remove: "Прибрати",
+    clearFinished: "Прибрати завершені",
+    batchQueued: "У черзі",
+    batchRunning: "В роботі",
+    batchDone: "Готово",
+    batchFailed: "Помилка",
+    batchCancelled: "Скасовано",
+    showLogs: "Журнал",
+    batchPausing: "Чергу призупинено: поточну книгу буде завершено, наступна чекає продовження черги.",
+    batchHint: "Виберіть кілька файлів або перетягніть теку, щоб поставити їх у чергу",
+    synthesis: "Синтез",
+    synthesize: "Порівняти книги",
+    selectForSynthesis: "Вибрати для синтезу",
+    selectedForSynthesis: "Вибрано",
+    clearSelection: "Скинути",
+    synthesisHint: "Виберіть щонайменше два конспекти для порівняння",
+    synthesisSources: "Джерела",
+    deletedItem: "видалено",
+    ask: "Питання до книги",
+    askPlaceholder: "Поставте питання про книгу...",
+    askButton: "Запитати",
+    askUnavailable: "Цей запис збережено без тексту книги. Проаналізуйте книгу знову, щоб ставити питання.",
+    partsUsed: "Знайдені частини",
+    clearConversation: "Очистити діалог",
+    storageUsed: "Сховище",
+    storageFull: "Сховище браузера заповнене: конспект не збережено в історію. Завантажте його або видаліть старі записи.",
+    storageError: "Не вдалося зберегти в історію",
+    loadMore: "Показати ще",
+    parts: "Частини",
+    downloadParts: "Завантажити конспекти всіх частин (.md)",
+    partsUnavailable: "Для цього запису конспекти частин не збережено.",
+    allLanguages: "Усі мови",
+    allModels: "Усі моделі",
+    allTags: "Усі теги",
+    dateFrom: "З",
+    dateTo: "По",
+    favorites: "Обране",
+    favorite: "До обраного",
+    sortBy: "Сортування",
+    sortNewest: "Спочатку нові",
+    sortOldest: "Спочатку старі",
+    sortName: "За назвою",
+    sortTokens: "За токенами",
+    resetFilters: "Скинути",
+    addTag: "Додати тег...",
+    removeTag: "Видалити тег",
+    exportMenu: "Експорт",
+    exportContents: "Зміст",
+    exportFailed: "Не вдалося експортувати",
+    exportNoCards: "У конспекті не знайдено карток «питання/відповідь» або розділів.",
+    exportNotes: "Експорт нотаток (ZIP)",
+    notesIndex: "Конспекти книжок",
+    usage: "Витрати",
+    tokens: "Токени",
+    tokensInput: "вхід",
+    tokensOutput: "вихід",
+    tokensThinking: "міркування",
+    cost: "Вартість",
+    usagePerDay: "За днями",
+    usagePerModel: "За моделями",
+    untrackedTokens: "Токени старих записів без розбивки (не оцінюються)",
+    costIncomplete: "Записи без ціни або без розбивки токенів не входять у вартість.",
+    priceTable: "Ціни",
+    currency: "Валюта",
+    pricePerMillion: "за 1M токенів: вхід, вихід (міркування оплачуються як вихід)",
+    addPrice: "Додати модель",
+    estimateApproximate: "приблизно",
+    preview: "Попередній перегляд",
+    chunkSize: "Розмір частини",
+    includePart: "Включити цю частину",
+    textCleaned: "Очищення тексту",
+    headerLinesRemoved: "рядків колонтитулів видалено",
+    hyphenationsJoined: "переносів слів склеєно",
+    markedForExclusion: "Позначено для виключення",
+    matterToc: "Зміст",
+    matterIndex: "Покажчик",
+    matterBibliography: "Бібліографія",
+    matterCopyright: "Вихідні дані",
+    ocrStarted: "Скановані сторінки без текстового шару, розпізнаємо їх (OCR)",
+    ocrPage: "OCR: сторінка",
+    bookLanguage: "Мова відсканованих сторінок"
+  }
+};
+
+export default uk;
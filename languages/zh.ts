@@ -0,0 +1,195 @@
+import { LanguagePack } from '../types';
+
+// UI only; prompts fall back to English with the output language set to Chinese
+
+const zh: LanguagePack = {
+  code: 'ZH',
+  name: 'Chinese',
+  nativeName: '中文',
+  promptName: 'CHINESE',
+  ocrLanguage: 'chi_sim',
+  ui: {
+    title: "AI Book Summarizer",
+    subtitle: "深度知识提取",
+    selectFile: "选择图书（ZIP、EPUB、PDF、FB2、TXT、MD）",
+    changeFile: "选择其他图书",
+    startAnalysis: "开始深度分析",
+    logs: "处理日志",
+    timeElapsed: "已用时间",
+    timeRem: "预计剩余",
+    summaryTitle: "摘要",
+    generatedBy: "由 AI Book Summarizer 生成",
+    download: "下载 .md",
+    copy: "复制",
+    copySuccess: "已复制到剪贴板",
+    fileParsed: "文件解析用时",
+    chars: "字符",
+    chunking: "文本分割",
+    step1: "阶段 1：深度提取",
+    step2: "阶段 2：整合",
+    step3: "阶段 3：润色与排版",
+    error: "错误",
+    criticalError: "严重错误",
+    tokenUsage: "本次会话 Token 用量",
+    checkQuota: "查看 Google 配额",
+    tabAnalyze: "分析",
+    tabHistory: "历史",
+    historyEmpty: "暂无摘要。",
+    import: "导入 JSON",
+    export: "导出 JSON",
+    delete: "删除",
+    view: "查看",
+    restoreMsg: "历史已导入",
+    statusThinking: "正在分析内容...",
+    statusReading: "正在读取文档...",
+    statusWriting: "正在整理最终笔记...",
+    resumeTitle: "未完成的分析",
+    resume: "继续",
+    discard: "放弃",
+    partsDone: "部分已完成",
+    settings: "设置",
+    provider: "服务商",
+    baseUrl: "基础 URL",
+    model: "模型",
+    apiKey: "API 密钥（可选）",
+    loadModels: "加载模型",
+    concurrency: "并行请求数",
+    requestsPerMinute: "每分钟请求数（0 = 不限）",
+    tokensPerMinute: "每分钟 Token 数（0 = 不限）",
+    queue: "请求队列",
+    queueRunning: "进行中",
+    queueWaiting: "等待中",
+    queueRetrying: "重试中",
+    queueDone: "已完成",
+    queueFailed: "失败",
+    failedParts: "失败的部分",
+    part: "部分",
+    retry: "重试",
+    retryAll: "全部重试",
+    rebuildSummary: "重新生成摘要",
+    missingPartsNotice: "此摘要不完整。缺少的图书部分：",
+    pause: "暂停",
+    paused: "已暂停",
+    cancel: "取消",
+    pausedMsg: "已暂停。进行中的请求会完成，不会启动新请求。",
+    resumedMsg: "已继续。",
+    cancelledMsg: "已被用户取消。",
+    searchHistory: "搜索书名、作者和摘要...",
+    sourceTitle: "来源",
+    sourceUnavailable: "此记录未保存图书文本。请重新分析该书以阅读原文。",
+    preset: "摘要类型",
+    presetDeep: "深度提取",
+    presetExecutive: "一页式概要",
+    presetStudy: "学习笔记",
+    presetOutline: "章节大纲",
+    presetFlashcards: "记忆卡片",
+    presetQuotes: "关键引文",
+    presetChecklist: "行动清单",
+    words: "词",
+    noLengthLimit: "不限",
+    prompts: "提示词",
+    promptSystem: "系统",
+    promptExtract: "提取",
+    promptConsolidate: "整合",
+    promptPolish: "润色",
+    promptVariables: "变量",
+    promptAppended: "自动附加在提示词之后",
+    promptCustom: "自定义",
+    promptBuiltIn: "内置",
+    promptReset: "重置",
+    promptsImported: "提示词已导入",
+    interfaceLanguage: "界面语言",
+    outputLanguage: "摘要语言",
+    sourceLanguage: "图书语言",
+    batchQueue: "批量队列",
+    startQueue: "开始队列",
+    pauseQueue: "暂停队列",
+    resumeQueue: "继续队列",
+    addFolder: "添加文件夹",
+    moveUp: "上移",
+    moveDown: "下移",
+    remove: "移除",
+    clearFinished: "清除已完成",
+    batchQueued: "排队中",
+    batchRunning: "进行中",
+    batchDone: "完成",
+    batchFailed: "失败",
+    batchCancelled: "已取消",
+    showLogs: "日志",
+    batchPausing: "队列已暂停：当前书籍将完成，下一本等待队列继续。",
+    batchHint: "选择多个文件或拖入文件夹即可加入队列",
+    synthesis: "综合",
+    synthesize: "综合比较",
+    selectForSynthesis: "选择用于综合",
+    selectedForSynthesis: "已选择",
+    clearSelection: "清除",
+    synthesisHint: "至少选择两篇摘要进行比较",
+    synthesisSources: "来源",
+    deletedItem: "已删除",
+    ask: "向书提问",
+    askPlaceholder: "就这本书提一个问题...",
+    askButton: "提问",
+    askUnavailable: "此记录保存时未包含图书文本。请重新分析该书以提出问题。",
+    partsUsed: "检索的部分",
+    clearConversation: "清除对话",
+    storageUsed: "存储",
+    storageFull: "浏览器存储已满：摘要未保存到历史记录。请下载摘要或删除旧记录以释放空间。",
+    storageError: "无法保存到历史记录",
+    loadMore: "加载更多",
+    parts: "分段",
+    downloadParts: "下载每个部分的摘要 (.md)",
+    partsUnavailable: "此记录未保存分段摘要。",
+    allLanguages: "所有语言",
+    allModels: "所有模型",
+    allTags: "所有标签",
+    dateFrom: "从",
+    dateTo: "到",
+    favorites: "收藏",
+    favorite: "收藏",
+    sortBy: "排序",
+    sortNewest: "最新优先",
+    sortOldest: "最早优先",
+    sortName: "名称",
+    sortTokens: "Token 用量",
+    resetFilters: "重置",
+    addTag: "添加标签...",
+    removeTag: "移除标签",
+    exportMenu: "导出",
+    exportContents: "目录",
+    exportFailed: "导出失败",
+    exportNoCards: "此摘要中未找到问答卡片或章节。",
+    exportNotes: "导出笔记 (ZIP)",
+    notesIndex: "读书摘要",
+    usage: "用量",
+    tokens: "Token",
+    tokensInput: "输入",
+    tokensOutput: "输出",
+    tokensThinking: "思考",
+    cost: "费用",
+    usagePerDay: "按天",
+    usagePerModel: "按模型",
+    untrackedTokens: "没有明细的旧记录的 Token（不计价）",
+    costIncomplete: "没有价格或没有 Token 明细的记录不计入费用。",
+    priceTable: "价格",
+    currency: "货币",
+    pricePerMillion: "每百万 Token：输入、输出（思考按输出计费）",
+    addPrice: "添加模型",
+    estimateApproximate: "近似值",
+    preview: "预览",
+    chunkSize: "分段大小",
+    includePart: "包含此部分",
+    textCleaned: "文本清理",
+    headerLinesRemoved: "行页眉/页脚已删除",
+    hyphenationsJoined: "处断词已合并",
+    markedForExclusion: "标记为排除",
+    matterToc: "目录",
+    matterIndex: "索引",
+    matterBibliography: "参考文献",
+    matterCopyright: "版权页",
+    ocrStarted: "扫描页面没有文本层，正在进行 OCR 识别",
+    ocrPage: "OCR：页",
+    bookLanguage: "扫描页面的语言"
+  }
+};
+
+export default zh;
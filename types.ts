@@ -1,3 +1,5 @@
+import type { EN_UI } from './languages/en';
+
 export enum ProcessingState {
   IDLE = 'IDLE',
   PARSING = 'PARSING',
@@ -8,7 +10,8 @@ export enum ProcessingState {
   ERROR = 'ERROR'
 }
 
-export type Language = 'EN' | 'RU' | 'ES' | 'DE' | 'FR';
+// Code of a registered language pack ('EN', 'RU', ...), see languages/index.ts
+export type Language = string;
 
 export interface LogEntry {
   id: string;
@@ -23,26 +26,325 @@ export interface SummaryPart {
   isComplete: boolean;
 }
 
+// --- Parsed Document Types ---
+
+// Pages that carry no book content: table of contents, index, bibliography, copyright
+export type MatterKind = 'toc' | 'index' | 'bibliography' | 'copyright';
+
+export interface BookChapter {
+  // Empty when the source has no usable title (front matter, unstructured text)
+  title: string;
+  text: string;
+  // Raw text of every PDF page of the chapter; consumed and dropped by cleanDocument
+  pages?: string[];
+  // Set by cleanDocument; such chapters are excluded from the run by default
+  matter?: MatterKind;
+}
+
+export interface BookMetadata {
+  title?: string;
+  authors?: string[];
+  genres?: string[];
+  annotation?: string;
+  // As declared by the file (e.g. "ru", "en-US"), not detected
+  language?: string;
+  publisher?: string;
+  year?: string;
+  // Downscaled JPEG data URL so it can be stored with history
+  coverImage?: string;
+}
+
+export interface BookDocument {
+  chapters: BookChapter[];
+  metadata: BookMetadata;
+  // PDF pages without a text layer; they are empty unless ocrLanguage is set
+  scannedPages?: number;
+  // Tesseract language the scanned pages were read with; unset when no page was read with OCR
+  ocrLanguage?: string;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface DocumentChunk extends TextRange {
+  text: string;
+  // Chapter titles covered by this chunk, in reading order
+  titles: string[];
+  // Chunks never mix marked chapters with regular ones
+  matter?: MatterKind;
+}
+
+// A source marker in the summary, e.g. [S3:120000-215000]; part is 1-based like the log
+export interface SourceRef extends TextRange {
+  part: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  // Parts given to the model for this answer, 1-based like the source markers
+  parts?: number[];
+}
+
+// Kept next to each history entry: the Phase 1 summary of every chunk, in book order
 export interface ProcessedBook {
+  historyId: string;
   fileName: string;
   finalSummary: string;
   rawSummaries: string[];
+  // The parts the summary was built from, for source references and questions; absent in older entries
+  chunks?: DocumentChunk[];
+}
+
+// --- LLM Provider Types ---
+
+export type ProviderId = 'gemini' | 'openai';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  // Only used by the OpenAI-compatible provider (llama.cpp, Ollama, vLLM, ...)
+  baseUrl: string;
+  apiKey: string;
+  // Request scheduler limits; 0 means unlimited for the per-minute values
+  concurrency: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// --- Request Queue Types ---
+
+export type QueueTaskStatus = 'queued' | 'waiting' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface QueueTask {
+  id: number;
+  label: string;
+  status: QueueTaskStatus;
+  attempts: number;
+  startedAt?: number;
+  nextAttemptAt?: number;
+  error?: string;
+}
+
+// --- Summary Presets ---
+
+export type SummaryPresetId = 'deep' | 'executive' | 'study' | 'outline' | 'flashcards' | 'quotes' | 'checklist';
+
+export interface PresetPrompts {
+  extract: string;
+  consolidate: string;
+  polish: string;
+}
+
+export interface SummaryPreset {
+  id: SummaryPresetId;
+  // UiText key of the preset name
+  labelKey: UiTextKey;
+  // Target length of the final text; null means no cap
+  targetWords: number | null;
+  // Whether bold and italics are allowed in the output
+  allowEmphasis: boolean;
+  // Completes "You are ..." in the system instruction
+  role: string;
+}
+
+// --- Language Packs ---
+
+// The English pack is the reference: every pack must define all of its keys
+export type UiTextKey = keyof typeof EN_UI;
+export type UiText = Record<UiTextKey, string>;
+
+export interface PromptPack {
+  // "OUTPUT LANGUAGE: ..." line; {{language}} is replaced with the pack's promptName
+  outputLanguage: string;
+  // "Book language: ..." line; {{source}} is replaced with the detected language
+  sourceLanguage: string;
+  // Heading levels and chapter order for Phase 2
+  consolidateRules: string;
+  consolidateMarkers: string;
+  polishMarkers: string;
+  // Added when the preset does not allow bold/italics
+  noEmphasis: string;
+  // Contains {{words}}
+  targetLength: string;
+  // Cross-book comparison of several history items
+  synthesis: string;
+  // Answering questions from retrieved parts, cited as [S<n>]
+  answer: string;
+  presets: Record<SummaryPresetId, PresetPrompts>;
+}
+
+export interface LanguagePack {
+  code: Language;
+  // English name, used for {{language}} in prompt templates
+  name: string;
+  // Shown in the language menu
+  nativeName: string;
+  // Upper-case English name used in built-in prompts and the system instruction
+  promptName: string;
+  // Tesseract language name for scanned PDFs, e.g. "rus"; English when absent
+  ocrLanguage?: string;
+  ui: UiText;
+  // Packs without their own prompts use the English ones
+  prompts?: PromptPack;
+}
+
+// --- Prompt Templates ---
+
+export type PromptPhase = 'systemInstruction' | 'extract' | 'consolidate' | 'polish';
+
+export interface PromptParts {
+  // Preset-specific text; this is what the prompt editor changes
+  body: string;
+  // Generated language, marker and length lines, appended to the body or its override
+  rules: string;
+}
+
+// User overrides of the preset bodies, per output language and preset; anything not set
+// falls back to getPromptParts
+export type PromptTemplates = Partial<Record<Language, Partial<Record<SummaryPresetId, Partial<Record<PromptPhase, string>>>>>>;
+
+export interface PromptTemplatesFile {
+  version: number;
+  createdAt: number;
+  templates: PromptTemplates;
+}
+
+// --- Token accounting ---
+
+export interface TokenCounts {
+  input: number;
+  output: number;
+  // Reasoning tokens of thinking models, billed as output
+  thinking: number;
+}
+
+export type UsagePhase = 'extract' | 'consolidate' | 'polish' | 'synthesis' | 'answer';
+
+export type PhaseUsage = Partial<Record<UsagePhase, TokenCounts>>;
+
+export interface ModelPrice {
+  // Matched as a prefix of the model name; the longest match wins
+  model: string;
+  // Per million tokens
+  input: number;
+  output: number;
+}
+
+export interface PriceTable {
+  currency: string;
+  prices: ModelPrice[];
 }
 
 // --- History & Backup Types ---
 
+export type HistoryItemKind = 'book' | 'synthesis';
+
 export interface HistoryItem {
   id: string;
   timestamp: number;
   fileName: string;
+  // Output language of the summary
   language: Language;
+  // Detected language of the book; missing on older items or when detection failed
+  sourceLanguage?: Language;
   summary: string;
   model: string;
+  // Missing on items created before providers were configurable (always Gemini)
+  provider?: ProviderId;
+  // Sum of all phases in `usage`; on older items only the final polishing call
   tokenUsage: number;
+  // Missing on items created before per-phase accounting
+  usage?: PhaseUsage;
+  // 1-based numbers of parts whose extraction failed and are not in the summary
+  missingParts?: number[];
+  metadata?: BookMetadata;
+  // Missing on items created before presets existed (always 'deep')
+  preset?: SummaryPresetId;
+  // Missing on book summaries; 'synthesis' items compare other history items
+  kind?: HistoryItemKind;
+  // Ids of the history items a synthesis was built from
+  sourceItemIds?: string[];
+  // Titles of those items when the synthesis was made, shown without loading them
+  sourceTitles?: string[];
+  // Questions asked about the book in the Ask panel
+  conversation?: ChatMessage[];
+  // User-defined labels, lowercase
+  tags?: string[];
+  favorite?: boolean;
+}
+
+export type HistorySort = 'date-desc' | 'date-asc' | 'name' | 'tokens';
+
+export interface HistoryQuery {
+  // Words matched against the title, authors, file name and summary text
+  search: string;
+  language?: Language;
+  model?: string;
+  tag?: string;
+  favoritesOnly?: boolean;
+  // Inclusive bounds as timestamps
+  dateFrom?: number;
+  dateTo?: number;
+  sort: HistorySort;
 }
 
 export interface BackupFile {
   version: number;
   createdAt: number;
   items: HistoryItem[];
-}
\ No newline at end of file
+}
+
+// --- Resumable Jobs ---
+
+export interface SummaryJob {
+  id: string;
+  fileName: string;
+  file: Blob;
+  language: Language;
+  preset?: SummaryPresetId;
+  chunkSize: number;
+  // Of the parts as split; chunks excluded in the preview are not in totalChunks
+  totalChunks: number;
+  excludedParts?: number[];
+  // Chunk lengths joined; detects chunking changes that keep the same count
+  chunkSignature?: string;
+  completedChunks: number;
+  consolidatedText?: string;
+  polishedText?: string;
+  // Phase 2/3 usage of the cached texts; Phase 1 usage is kept per chunk result
+  usage?: PhaseUsage;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// --- Batch Queue ---
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: number;
+  // Log of this book's run, mirrored from the main log while it is processed
+  logs: LogEntry[];
+  // History entry written for this book (also for partial results)
+  historyId?: string;
+  error?: string;
+}
+
+export interface FailedPart {
+  index: number;
+  error: string;
+}
+
+export interface ChunkResult {
+  jobId: string;
+  index: number;
+  text: string;
+  usage?: TokenCounts;
+}
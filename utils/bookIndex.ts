@@ -0,0 +1,110 @@
+import { smartSplitRanges } from './chunking';
+import { DocumentChunk } from '../types';
+
+// --- Keyword index for questions about the book ---
+// The parts the summary was built from are ranked with Okapi BM25, so an answer cites the
+// same [S<part>] numbers as the summary. Everything runs locally; only the top parts go to the model.
+
+const K1 = 1.2;
+const B = 0.75;
+
+export interface BookIndex {
+  parts: DocumentChunk[];
+  // Term frequencies per part
+  terms: Map<string, number>[];
+  lengths: number[];
+  // Number of parts containing each term
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Words for alphabetic scripts; Chinese and Japanese have no spaces, so their runs become character bigrams
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const runs = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  for (const run of runs) {
+    if (/[\u3040-\u30FF\u4E00-\u9FFF]/.test(run)) {
+      if (run.length === 1) tokens.push(run);
+      for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+    } else if (run.length > 1) {
+      tokens.push(run);
+    }
+  }
+  return tokens;
+};
+
+export const buildBookIndex = (parts: DocumentChunk[]): BookIndex => {
+  const documentFrequency = new Map<string, number>();
+  const terms: Map<string, number>[] = [];
+  const lengths: number[] = [];
+
+  for (const part of parts) {
+    const tokens = tokenize(part.text);
+    const frequency = new Map<string, number>();
+    tokens.forEach(t => frequency.set(t, (frequency.get(t) || 0) + 1));
+    frequency.forEach((_, t) => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1));
+    terms.push(frequency);
+    lengths.push(tokens.length);
+  }
+
+  const averageLength = lengths.reduce((sum, l) => sum + l, 0) / Math.max(1, lengths.length);
+  return { parts, terms, lengths, documentFrequency, averageLength };
+};
+
+const inverseFrequency = (index: BookIndex, term: string): number => {
+  const n = index.parts.length;
+  const df = index.documentFrequency.get(term) || 0;
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+};
+
+// 1-based numbers of the best parts for the query, most relevant first; parts without any query term are left out
+export const searchBookIndex = (index: BookIndex, query: string, limit: number): number[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+
+  const scored = index.parts.map((_, i) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = index.terms[i].get(term);
+      if (!tf) continue;
+      score += inverseFrequency(index, term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * index.lengths[i] / index.averageLength));
+    }
+    return { part: i + 1, score };
+  });
+
+  return scored
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(s => s.part);
+};
+
+// The text of a part sent with a question. Parts longer than `maxChars` are cut into windows of
+// `windowSize`; the windows with most query terms are kept, in book order, so the match is not cut off.
+export const partExcerpt = (index: BookIndex, part: number, query: string, maxChars: number, windowSize: number): string => {
+  const text = index.parts[part - 1].text;
+  if (text.length <= maxChars) return text;
+
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const windows = smartSplitRanges(text, windowSize).map(range => {
+    const tokens = tokenize(text.slice(range.start, range.end));
+    const score = queryTerms.reduce((sum, term) => sum + tokens.filter(t => t === term).length * inverseFrequency(index, term), 0);
+    return { ...range, score };
+  });
+
+  let budget = maxChars;
+  const picked = windows
+    .filter(w => w.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .filter(w => {
+      if (w.end - w.start > budget) return false;
+      budget -= w.end - w.start;
+      return true;
+    });
+  // A term split between two windows matches neither of them: send the beginning
+  if (picked.length === 0) return text.slice(0, maxChars);
+
+  return picked
+    .sort((a, b) => a.start - b.start)
+    .map(w => text.slice(w.start, w.end))
+    .join('\n[…]\n');
+};
@@ -0,0 +1,109 @@
+import { BookDocument, DocumentChunk, MatterKind, TextRange } from '../types';
+
+// --- Helper for smart text splitting ---
+// Returns the [start, end) offsets of every piece, trimmed, so callers can point back into `text`
+export const smartSplitRanges = (text: string, maxSize: number): TextRange[] => {
+  const ranges: TextRange[] = [];
+  let startIndex = 0;
+
+  while (startIndex < text.length) {
+    // Ideally we want to cut at maxSize
+    let endIndex = Math.min(startIndex + maxSize, text.length);
+
+    // If we are not at the very end of text, try to find a sentence boundary
+    if (endIndex < text.length) {
+      // Look back up to 5% of chunk size or max 5000 chars to find punctuation
+      const lookback = Math.min(5000, Math.floor(maxSize * 0.05));
+      const searchBuffer = text.slice(endIndex - lookback, endIndex);
+      
+      // Find last occurrence of punctuation followed by space or newline
+      // We look for: . ! ? or \n
+      const lastPeriod = searchBuffer.lastIndexOf('.');
+      const lastExcl = searchBuffer.lastIndexOf('!');
+      const lastQ = searchBuffer.lastIndexOf('?');
+      const lastNewline = searchBuffer.lastIndexOf('\n');
+
+      const bestSplitRelative = Math.max(lastPeriod, lastExcl, lastQ, lastNewline);
+
+      if (bestSplitRelative !== -1) {
+        // If we found a split point, adjust endIndex
+        // +1 because we want to include the punctuation mark in the current chunk
+        endIndex = (endIndex - lookback) + bestSplitRelative + 1;
+      }
+    }
+
+    const piece = text.slice(startIndex, endIndex);
+    const chunk = piece.trim();
+    if (chunk.length > 0) {
+      const start = startIndex + (piece.length - piece.trimStart().length);
+      ranges.push({ start, end: start + chunk.length });
+    }
+    
+    startIndex = endIndex;
+  }
+  
+  return ranges;
+};
+
+export const smartSplitText = (text: string, maxSize: number): string[] => {
+  return smartSplitRanges(text, maxSize).map(r => text.slice(r.start, r.end));
+};
+
+// --- Chapter-aware chunking ---
+// Packs whole chapters into each chunk while they fit. A chapter larger than
+// maxSize is split with smartSplitText and its pieces are labelled "(k/n)".
+// Chapters marked by cleanDocument are packed only with chapters of the same kind,
+// so excluding their chunks never drops book content.
+// Chunk offsets refer to documentToText(doc), which joins chapters the same way.
+export const chunkDocument = (doc: BookDocument, maxSize: number): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let texts: string[] = [];
+  let titles: string[] = [];
+  let size = 0;
+  let chunkStart = 0;
+  let offset = 0;
+  let matter: MatterKind | undefined;
+
+  const flush = () => {
+    if (texts.length > 0) {
+      const text = texts.join('\n\n');
+      chunks.push({ text, titles, start: chunkStart, end: chunkStart + text.length, matter });
+    }
+    texts = [];
+    titles = [];
+    size = 0;
+  };
+
+  for (const chapter of doc.chapters) {
+    const length = chapter.text.length;
+
+    if (length > maxSize) {
+      flush();
+      const pieces = smartSplitRanges(chapter.text, maxSize);
+      pieces.forEach((range, i) => {
+        chunks.push({
+          text: chapter.text.slice(range.start, range.end),
+          titles: chapter.title ? [`${chapter.title} (${i + 1}/${pieces.length})`] : [],
+          start: offset + range.start,
+          end: offset + range.end,
+          matter: chapter.matter
+        });
+      });
+    } else {
+      if (size > 0 && (size + length + 2 > maxSize || chapter.matter !== matter)) flush();
+
+      if (texts.length === 0) {
+        chunkStart = offset;
+        matter = chapter.matter;
+      }
+      texts.push(chapter.text);
+      if (chapter.title) titles.push(chapter.title);
+      size += length + 2;
+    }
+
+    offset += length + 2;
+  }
+  flush();
+
+  return chunks;
+};
@@ -0,0 +1,68 @@
+import { DocumentChunk, SourceRef } from '../types';
+
+// --- Source markers ---
+// Every Phase 1 draft is tagged with [S<part>:<start>-<end>], the chunk number and its
+// character range in the parsed book text. The consolidate and polish prompts are told to
+// keep the markers, and the rendered summary turns them into clickable references.
+
+const SOURCE_MARKER_RE = /\[S(\d+):(\d+)-(\d+)\]/g;
+// Answers in the Ask panel cite parts as [S3] or [S3, S5]; they are stored as full source markers
+const PART_CITATION_RE = /\[(S\d+(?:\s*[,;]\s*S?\d+)*)\]/g;
+
+export const formatSourceMarker = (idx: number, chunk: DocumentChunk): string => {
+  return `[S${idx + 1}:${chunk.start}-${chunk.end}]`;
+};
+
+// Appends the marker to every paragraph and list item so it survives when the model
+// moves statements around. Headings are left alone.
+export const tagWithSource = (text: string, marker: string): string => {
+  return text
+    .split('\n')
+    .map(line => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#') || /^(-{3,}|\*{3,})$/.test(trimmed)) return line;
+      return `${line.trimEnd()} ${marker}`;
+    })
+    .join('\n');
+};
+
+export const parseSourceMarkers = (text: string): SourceRef[] => {
+  return Array.from(text.matchAll(SOURCE_MARKER_RE), m => ({
+    part: parseInt(m[1]),
+    start: parseInt(m[2]),
+    end: parseInt(m[3])
+  }));
+};
+
+// Adds the offsets of the cited parts, so answers link like the summary does.
+// Numbers of parts that were not given to the model are left as written.
+export const resolvePartCitations = (text: string, chunks: DocumentChunk[], given: number[]): string => {
+  return text.replace(PART_CITATION_RE, (match, list: string) => {
+    const numbers = Array.from(new Set(list.split(/[,;]/).map(n => parseInt(n.trim().replace(/^S/, '')))));
+    if (numbers.some(n => !given.includes(n) || !chunks[n - 1])) return match;
+    return numbers.map(n => formatSourceMarker(n - 1, chunks[n - 1])).join('');
+  });
+};
+
+// Replaces markers with inline links before markdown rendering; the container handles clicks
+export const renderSourceLinks = (markdown: string): string => {
+  return markdown.replace(SOURCE_MARKER_RE, (_, part, start, end) =>
+    `<a href="#source-${part}" class="source-ref" data-part="${part}" data-start="${start}" data-end="${end}">[${part}]</a>`
+  );
+};
+
+// Finds the reference link a click landed on, if any
+export const getSourceRefFromTarget = (target: EventTarget): SourceRef | null => {
+  const link = (target as HTMLElement).closest?.('a.source-ref') as HTMLAnchorElement | null;
+  if (!link) return null;
+  return {
+    part: parseInt(link.dataset.part || '0'),
+    start: parseInt(link.dataset.start || '0'),
+    end: parseInt(link.dataset.end || '0')
+  };
+};
+
+// Markers point into one book's text, so they are dropped when summaries of several books are combined
+export const stripSourceMarkers = (text: string): string => {
+  return text.replace(/[ \t]*\[S\d+:\d+-\d+\]/g, '');
+};
@@ -0,0 +1,70 @@
+// --- Hierarchical (map-reduce) consolidation ---
+// Drafts are merged in groups of `groupSize`, then the merged results are merged
+// again, level by level, until a single draft remains. This keeps every prompt
+// small enough for the model to preserve detail on very large books.
+
+export interface ConsolidationLevel {
+  level: number;
+  inputCount: number;
+  groupCount: number;
+  // Groups that call the model; a lone leftover draft above level 1 is passed through
+  mergeCount: number;
+}
+
+const groupDrafts = (drafts: string[], groupSize: number): string[][] => {
+  const groups: string[][] = [];
+  for (let i = 0; i < drafts.length; i += groupSize) {
+    groups.push(drafts.slice(i, i + groupSize));
+  }
+  return groups;
+};
+
+// Plans the levels up front so the UI can show overall progress
+export const planConsolidation = (draftCount: number, groupSize: number): ConsolidationLevel[] => {
+  const size = Math.max(2, groupSize);
+  const levels: ConsolidationLevel[] = [];
+  let count = draftCount;
+  let level = 1;
+
+  do {
+    const groupCount = Math.ceil(count / size);
+    const passThrough = level > 1 && count % size === 1 ? 1 : 0;
+    levels.push({ level, inputCount: count, groupCount, mergeCount: groupCount - passThrough });
+    count = groupCount;
+    level++;
+  } while (count > 1);
+
+  return levels;
+};
+
+export const consolidateHierarchically = async (
+  drafts: string[],
+  groupSize: number,
+  merge: (group: string[], level: number, groupIndex: number, groupCount: number) => Promise<string>,
+  onLevelStart?: (level: ConsolidationLevel) => void
+): Promise<string> => {
+  const size = Math.max(2, groupSize);
+  let current = drafts;
+  let level = 1;
+
+  do {
+    const groups = groupDrafts(current, size);
+    // A lone leftover draft on upper levels is already consolidated; pass it through
+    const passThrough = (group: string[]) => level > 1 && group.length === 1;
+    onLevelStart?.({ level, inputCount: current.length, groupCount: groups.length, mergeCount: groups.filter(g => !passThrough(g)).length });
+
+    // Groups of one level are independent, so they may run in parallel
+    const merged = await Promise.all(groups.map(async (group, g) => {
+      if (passThrough(group)) return group[0];
+      const text = await merge(group, level, g, groups.length);
+      // Dropping the group would lose its parts of the book from the summary
+      if (!text.trim()) throw new Error(`Level ${level}, group ${g + 1}: model returned an empty response.`);
+      return text;
+    }));
+
+    current = merged;
+    level++;
+  } while (current.length > 1);
+
+  return current[0];
+};
@@ -0,0 +1,94 @@
+import { withSearchTerms } from './historySearch';
+
+// --- Shared IndexedDB connection ---
+// Every store of the app lives in one database. Schema changes are added as a new
+// step below and DB_VERSION is raised; steps run in order on upgrade, so users
+// coming from any older version end up with the same schema.
+
+const DB_NAME = 'ai_book_summarizer';
+const DB_VERSION = 4;
+
+export const JOBS_STORE = 'jobs';
+export const CHUNKS_STORE = 'chunks';
+export const HISTORY_STORE = 'history';
+export const PROCESSED_STORE = 'processed';
+
+// Steps receive the upgrade transaction to change existing stores
+const UPGRADES: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: resumable jobs
+  db => {
+    db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+    // Chunks live in their own store so parallel extractions never overwrite each other
+    const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: ['jobId', 'index'] });
+    chunks.createIndex('jobId', 'jobId', { unique: false });
+  },
+  // v2: the parts and chunk summaries behind each history entry
+  db => {
+    db.createObjectStore(PROCESSED_STORE, { keyPath: 'historyId' });
+  },
+  // v3: history, moved from localStorage
+  db => {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp', { unique: false });
+  },
+  // v4: history search and filters; the search words of existing entries are filled in here
+  (_db, tx) => {
+    const history = tx.objectStore(HISTORY_STORE);
+    history.createIndex('searchTerms', 'searchTerms', { unique: false, multiEntry: true });
+    history.createIndex('language', 'language', { unique: false });
+    history.createIndex('model', 'model', { unique: false });
+    history.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+    const request = history.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.update(withSearchTerms(cursor.value));
+      cursor.continue();
+    };
+  }
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let version = event.oldVersion; version < UPGRADES.length; version++) {
+        UPGRADES[version](db, request.transaction!);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const txDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Quota errors surface as a DOMException on the request or the aborted transaction
+export const isQuotaError = (error: any): boolean => {
+  return error?.name === 'QuotaExceededError';
+};
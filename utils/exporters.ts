@@ -0,0 +1,492 @@
+import { stripSourceMarkers } from './citations';
+
+declare const marked: any;
+declare const DOMPurify: any;
+declare const JSZip: any;
+
+// --- Summary export ---
+// Every format is built in the browser from the marked-rendered summary. Summaries use
+// H4-H6 (see the consolidate rules), so headings are shifted up: the highest level found
+// becomes H2, below the H1 with the book title, and that outline drives the tables of contents.
+
+export type ExportFormat = 'md' | 'note' | 'html' | 'pdf' | 'docx' | 'epub' | 'anki';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'note', 'html', 'pdf', 'docx', 'epub', 'anki'];
+
+// Properties of a saved summary, written to the front matter of notes
+export interface NoteDetails {
+  model: string;
+  timestamp: number;
+  tokenUsage: number;
+  tags: string[];
+  sourceFile: string;
+}
+
+export interface ExportDocument {
+  title: string;
+  authors: string[];
+  // BCP 47 tag for lang attributes, e.g. "en"
+  language: string;
+  markdown: string;
+  // Base of the downloaded file name
+  fileName: string;
+  // Missing for results that were not saved to history
+  details?: NoteDetails;
+}
+
+interface OutlineEntry {
+  id: string;
+  level: number;
+  text: string;
+}
+
+interface Flashcard {
+  question: string;
+  answer: string;
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const renderDocument = (doc: ExportDocument): { body: HTMLElement; outline: OutlineEntry[] } => {
+  const html = DOMPurify.sanitize(marked.parse(stripSourceMarkers(doc.markdown)));
+  const parsed = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const body = parsed.body;
+  const headings = Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+  const top = Math.min(...headings.map(h => Number(h.tagName[1])));
+  const outline: OutlineEntry[] = [];
+
+  headings.forEach((heading, i) => {
+    const level = Math.min(6, Number(heading.tagName[1]) - top + 2);
+    const replacement = parsed.createElement(`h${level}`);
+    replacement.innerHTML = heading.innerHTML;
+    replacement.id = `section-${i + 1}`;
+    heading.replaceWith(replacement);
+    outline.push({ id: replacement.id, level, text: (replacement.textContent || '').trim() });
+  });
+
+  return { body, outline };
+};
+
+// Nested <ol> following the heading levels; used by the HTML contents and the EPUB nav
+const outlineList = (outline: OutlineEntry[], href: (id: string) => string): string => {
+  let html = '';
+  const stack: number[] = [];
+  for (const entry of outline) {
+    if (stack.length === 0 || entry.level > stack[stack.length - 1]) {
+      html += '<ol>';
+      stack.push(entry.level);
+    } else {
+      html += '</li>';
+      while (stack.length > 1 && entry.level < stack[stack.length - 1]) {
+        html += '</ol></li>';
+        stack.pop();
+      }
+    }
+    html += `<li><a href="${href(entry.id)}">${escapeXml(entry.text)}</a>`;
+  }
+  while (stack.length > 0) {
+    html += '</li></ol>';
+    stack.pop();
+  }
+  return html;
+};
+
+// --- HTML / PDF ---
+
+const DOCUMENT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 46rem; margin: 3rem auto; padding: 0 1.5rem; line-height: 1.65; color: #1f2937; background: #fff; }
+  h1 { font-size: 2rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.5rem; margin-top: 2.5rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  h3 { font-size: 1.25rem; margin-top: 2rem; }
+  h4, h5, h6 { font-size: 1.05rem; margin-top: 1.5rem; }
+  .authors { color: #6b7280; margin-top: 0; }
+  nav { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1rem 1.5rem; margin: 2rem 0; }
+  nav ol { padding-left: 1.25rem; margin: 0.25rem 0; }
+  nav a { color: #374151; text-decoration: none; }
+  blockquote { border-left: 3px solid #d1d5db; margin-left: 0; padding-left: 1rem; color: #4b5563; }
+  code { font-family: Consolas, monospace; font-size: 0.9em; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    nav { break-after: page; }
+    h2, h3, h4 { break-after: avoid; }
+    a { color: inherit; text-decoration: none; }
+  }
+`;
+
+const buildHtml = (doc: ExportDocument, contentsTitle: string): string => {
+  const { body, outline } = renderDocument(doc);
+  const contents = outline.length > 1
+    ? `<nav><strong>${escapeXml(contentsTitle)}</strong>${outlineList(outline, id => `#${id}`)}</nav>`
+    : '';
+  return `<!DOCTYPE html>
+<html lang="${doc.language}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(doc.title)}</title>
+<style>${DOCUMENT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeXml(doc.title)}</h1>
+${doc.authors.length > 0 ? `<p class="authors">${escapeXml(doc.authors.join(', '))}</p>` : ''}
+</header>
+${contents}
+<main>${body.innerHTML}</main>
+</body>
+</html>`;
+};
+
+// Prints from a hidden frame, so popup blockers do not interfere; the browser dialog saves the PDF
+const printHtml = (html: string): Promise<void> => {
+  return new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+      // print() blocks until the dialog closes in most browsers; the delay covers the others
+      setTimeout(() => {
+        frame.remove();
+        resolve();
+      }, 1000);
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+};
+
+// --- DOCX ---
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+const docxRuns = (node: Node, style: RunStyle = {}): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent || '';
+    if (!text) return '';
+    const props = [
+      style.bold ? '<w:b/>' : '',
+      style.italic ? '<w:i/>' : '',
+      style.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : ''
+    ].join('');
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const tag = (node as Element).tagName.toLowerCase();
+  if (tag === 'br') return '<w:r><w:br/></w:r>';
+  if (tag === 'ul' || tag === 'ol') return '';
+  const next: RunStyle = {
+    bold: style.bold || tag === 'strong' || tag === 'b',
+    italic: style.italic || tag === 'em' || tag === 'i',
+    code: style.code || tag === 'code'
+  };
+  return Array.from(node.childNodes).map(child => docxRuns(child, next)).join('');
+};
+
+const docxParagraph = (runs: string, style?: string, indent = 0): string => {
+  const props = [
+    style ? `<w:pStyle w:val="${style}"/>` : '',
+    indent > 0 ? `<w:ind w:left="${indent * 360}" w:hanging="360"/>` : ''
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+};
+
+const docxList = (list: Element, depth: number): string => {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  return Array.from(list.children).map((item, i) => {
+    const bullet = ordered ? `${i + 1}. ` : '• ';
+    const prefix = `<w:r><w:t xml:space="preserve">${bullet}</w:t></w:r>`;
+    // Loose lists wrap items in <p>; the runs are collected the same way
+    const nested = Array.from(item.children).filter(c => c.tagName === 'UL' || c.tagName === 'OL');
+    return docxParagraph(prefix + docxRuns(item), 'ListParagraph', depth + 1) +
+      nested.map(n => docxList(n, depth + 1)).join('');
+  }).join('');
+};
+
+const docxBlocks = (container: Element): string => {
+  return Array.from(container.children).map(el => {
+    const tag = el.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) return docxParagraph(docxRuns(el), `Heading${Number(tag[1]) - 1}`);
+    if (tag === 'ul' || tag === 'ol') return docxList(el, 0);
+    if (tag === 'blockquote') {
+      return Array.from(el.children).length > 0
+        ? Array.from(el.children).map(child => docxParagraph(docxRuns(child), 'Quote')).join('')
+        : docxParagraph(docxRuns(el), 'Quote');
+    }
+    if (tag === 'hr') return '';
+    if (tag === 'table') {
+      return Array.from(el.querySelectorAll('tr'))
+        .map(row => docxParagraph(`<w:r><w:t xml:space="preserve">${escapeXml(Array.from(row.children).map(c => (c.textContent || '').trim()).join(' | '))}</w:t></w:r>`))
+        .join('');
+    }
+    return docxParagraph(docxRuns(el));
+  }).join('');
+};
+
+const docxHeadingStyle = (level: number): string => {
+  const sizes = [40, 32, 28, 26, 24, 22];
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${sizes[level - 1]}"/></w:rPr></w:style>`;
+};
+
+const buildDocx = async (doc: ExportDocument): Promise<Blob> => {
+  const { body } = renderDocument(doc);
+  const title = docxParagraph(`<w:r><w:t xml:space="preserve">${escapeXml(doc.title)}</w:t></w:r>`, 'Title');
+  const authors = doc.authors.length > 0
+    ? docxParagraph(`<w:r><w:t xml:space="preserve">${escapeXml(doc.authors.join(', '))}</w:t></w:r>`, 'Subtitle')
+    : '';
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>');
+  zip.file('docProps/core.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    `<dc:title>${escapeXml(doc.title)}</dc:title><dc:creator>${escapeXml(doc.authors.join(', '))}</dc:creator><dc:language>${doc.language}</dc:language>` +
+    '</cp:coreProperties>');
+  zip.file('word/_rels/document.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>');
+  zip.file('word/styles.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia" w:cs="Georgia"/><w:sz w:val="22"/><w:lang w:val="${doc.language}"/></w:rPr></w:rPrDefault>` +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:b/><w:sz w:val="52"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:i/><w:color w:val="6B7280"/></w:rPr></w:style>' +
+    [1, 2, 3, 4, 5].map(docxHeadingStyle).join('') +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/><w:color w:val="4B5563"/></w:rPr></w:style>' +
+    '</w:styles>');
+  zip.file('word/document.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+    title + authors + docxBlocks(body) +
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440"/></w:sectPr>' +
+    '</w:body></w:document>');
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
+
+// --- EPUB 3 ---
+
+// XHTML requires well-formed markup, so the rendered nodes are re-serialized as XML
+const toXhtml = (container: Element): string => {
+  const serializer = new XMLSerializer();
+  return Array.from(container.childNodes)
+    .map(node => serializer.serializeToString(node).replace(/ xmlns="http:\/\/www\.w3\.org\/1999\/xhtml"/g, ''))
+    .join('');
+};
+
+const xhtmlPage = (doc: ExportDocument, title: string, body: string, extraNamespace = ''): string =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE html>\n' +
+  `<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="${doc.language}" lang="${doc.language}">` +
+  `<head><meta charset="UTF-8"/><title>${escapeXml(title)}</title><link rel="stylesheet" type="text/css" href="style.css"/></head>` +
+  `<body>${body}</body></html>`;
+
+const buildEpub = async (doc: ExportDocument, contentsTitle: string): Promise<Blob> => {
+  const { body, outline } = renderDocument(doc);
+  const id = `urn:uuid:${crypto.randomUUID()}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const navEntries = outline.length > 0
+    ? outlineList(outline, entryId => `summary.xhtml#${entryId}`)
+    : `<ol><li><a href="summary.xhtml">${escapeXml(doc.title)}</a></li></ol>`;
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and stay uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">' +
+    '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>');
+  zip.file('OEBPS/content.opf',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">' +
+    '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    `<dc:identifier id="book-id">${id}</dc:identifier><dc:title>${escapeXml(doc.title)}</dc:title><dc:language>${doc.language}</dc:language>` +
+    doc.authors.map(a => `<dc:creator>${escapeXml(a)}</dc:creator>`).join('') +
+    `<meta property="dcterms:modified">${modified}</meta></metadata>` +
+    '<manifest><item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>' +
+    '<item id="summary" href="summary.xhtml" media-type="application/xhtml+xml"/>' +
+    '<item id="style" href="style.css" media-type="text/css"/></manifest>' +
+    '<spine><itemref idref="summary"/></spine></package>');
+  zip.file('OEBPS/style.css', DOCUMENT_STYLES.replace(/@media print[\s\S]*$/, ''));
+  zip.file('OEBPS/nav.xhtml', xhtmlPage(doc, contentsTitle,
+    `<nav epub:type="toc" id="toc"><h1>${escapeXml(contentsTitle)}</h1>${navEntries}</nav>`,
+    ' xmlns:epub="http://www.idpf.org/2007/ops"'));
+  zip.file('OEBPS/summary.xhtml', xhtmlPage(doc, doc.title,
+    `<h1>${escapeXml(doc.title)}</h1>${doc.authors.length > 0 ? `<p class="authors">${escapeXml(doc.authors.join(', '))}</p>` : ''}${toXhtml(body)}`));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip' });
+};
+
+// --- Anki ---
+
+// Question/answer prefixes written by the flashcards preset in the bundled languages (Q/A, P/R, F/A, В/О)
+const QUESTION_RE = /^(?:Q|P|F|В)\s?:\s*/;
+const ANSWER_RE = /^(?:A|R|O|О)\s?:\s*/;
+
+const cleanLine = (line: string): string =>
+  line.trim().replace(/^(?:\d+[.)]|[-*+])\s+/, '').replace(/^(\*\*|__)(.+?)\1/, '$2').trim();
+
+// Flashcard decks give one card per Q/A pair; any other summary gives one card per section
+export const extractFlashcards = (markdown: string): Flashcard[] => {
+  const lines = stripSourceMarkers(markdown).split('\n').map(cleanLine);
+  const cards: Flashcard[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!QUESTION_RE.test(lines[i])) continue;
+    const answer = lines.slice(i + 1).find(l => l.length > 0);
+    if (answer && ANSWER_RE.test(answer)) {
+      cards.push({ question: lines[i].replace(QUESTION_RE, ''), answer: answer.replace(ANSWER_RE, '') });
+    }
+  }
+  if (cards.length > 0) return cards;
+
+  const sections: Flashcard[] = [];
+  let current: Flashcard | null = null;
+  for (const line of stripSourceMarkers(markdown).split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      if (current && current.answer.trim()) sections.push(current);
+      current = { question: heading[1].trim(), answer: '' };
+    } else if (current) {
+      current.answer += `${line}\n`;
+    }
+  }
+  if (current && current.answer.trim()) sections.push(current);
+  return sections;
+};
+
+const csvField = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+// Anki 2.1.55+ reads the header lines; answers keep their formatting as HTML
+const buildAnkiCsv = (doc: ExportDocument): string => {
+  const tag = doc.title.replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_-]/gu, '').slice(0, 60) || 'summary';
+  const rows = extractFlashcards(doc.markdown).map(card => [
+    csvField(DOMPurify.sanitize(marked.parseInline(card.question))),
+    csvField(DOMPurify.sanitize(marked.parse(card.answer.trim())).trim()),
+    csvField(tag)
+  ].join(','));
+  return ['#separator:Comma', '#html:true', '#tags column:3', ...rows].join('\n');
+};
+
+// --- Notes (Obsidian, Notion) ---
+// Markdown with YAML front matter. Vaults hold one note per book and an index note
+// linking them with [[wiki-links]], so note file names double as link targets.
+
+// JSON strings are valid double-quoted YAML scalars
+const yamlValue = (value: string | number): string => typeof value === 'number' ? String(value) : JSON.stringify(value);
+
+const yamlList = (key: string, values: string[]): string =>
+  values.length > 0 ? `${key}:\n${values.map(v => `  - ${yamlValue(v)}`).join('\n')}` : `${key}: []`;
+
+const isoDate = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Obsidian tags cannot contain spaces
+const noteTag = (tag: string): string => tag.trim().replace(/\s+/g, '-');
+
+// Characters Obsidian does not allow in note names, plus those that break wiki-links
+const noteName = (title: string): string =>
+  title.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 120) || 'Summary';
+
+export const buildNote = (doc: ExportDocument): string => {
+  const details = doc.details;
+  const frontMatter = [
+    `title: ${yamlValue(doc.title)}`,
+    yamlList('author', doc.authors),
+    `language: ${doc.language}`,
+    details ? `model: ${yamlValue(details.model)}` : '',
+    `date: ${isoDate(details?.timestamp ?? Date.now())}`,
+    details ? `tokens: ${details.tokenUsage}` : '',
+    yamlList('tags', (details?.tags || []).map(noteTag)),
+    `source: ${yamlValue(details?.sourceFile || doc.fileName)}`
+  ].filter(Boolean).join('\n');
+  return `---\n${frontMatter}\n---\n\n# ${doc.title}\n\n${stripSourceMarkers(doc.markdown).trim()}\n`;
+};
+
+export const exportNotesVault = async (docs: ExportDocument[], indexTitle: string): Promise<void> => {
+  const zip = new JSZip();
+  const used = new Set<string>();
+  const links: string[] = [];
+
+  for (const doc of docs) {
+    let name = noteName(doc.title);
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${noteName(doc.title)} (${n})`;
+    used.add(name.toLowerCase());
+    zip.file(`${name}.md`, buildNote(doc));
+    links.push(`- [[${name}]]${doc.authors.length > 0 ? ` (${doc.authors.join(', ')})` : ''}`);
+  }
+
+  const index = `---\ntitle: ${yamlValue(indexTitle)}\ndate: ${isoDate(Date.now())}\n---\n\n# ${indexTitle}\n\n${links.join('\n')}\n`;
+  zip.file(`${noteName(indexTitle)}.md`, index);
+  downloadBlob(await zip.generateAsync({ type: 'blob' }), `summaries_vault_${isoDate(Date.now())}.zip`);
+};
+
+// --- Entry point ---
+
+export const exportSummary = async (format: ExportFormat, doc: ExportDocument, contentsTitle: string): Promise<void> => {
+  const base = `summary_${doc.fileName}`;
+  switch (format) {
+    case 'md':
+      downloadBlob(new Blob([doc.markdown], { type: 'text/markdown' }), `${base}.md`);
+      break;
+    case 'note':
+      downloadBlob(new Blob([buildNote(doc)], { type: 'text/markdown' }), `${noteName(doc.title)}.md`);
+      break;
+    case 'html':
+      downloadBlob(new Blob([buildHtml(doc, contentsTitle)], { type: 'text/html' }), `${base}.html`);
+      break;
+    case 'pdf':
+      await printHtml(buildHtml(doc, contentsTitle));
+      break;
+    case 'docx':
+      downloadBlob(await buildDocx(doc), `${base}.docx`);
+      break;
+    case 'epub':
+      downloadBlob(await buildEpub(doc, contentsTitle), `${base}.epub`);
+      break;
+    case 'anki':
+      downloadBlob(new Blob([buildAnkiCsv(doc)], { type: 'text/csv' }), `${base}_anki.csv`);
+      break;
+  }
+};
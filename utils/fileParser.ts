@@ -1,3 +1,9 @@
+import { BookChapter, BookDocument, BookMetadata } from '../types';
+import { DEFAULT_OCR_LANGUAGE, OCR_MIN_PAGE_CHARS, OCR_RENDER_SCALE } from '../constants';
+import { createOcrEngine } from './ocr';
+import { declaredLanguage } from './languageDetect';
+import { getLanguagePack } from '../languages';
+
 declare const pdfjsLib: any;
 declare const JSZip: any;
 
@@ -5,9 +11,144 @@ const stripTags = (text: string): string => {
   return text.replace(/<[^>]*>?/gm, ' ').replace(/\s+/g, ' ').trim();
 };
 
-const parseFB2String = (text: string): string => {
+const normalizeSpace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const singleChapter = (text: string, metadata: BookMetadata = {}): BookDocument => ({
+  chapters: [{ title: '', text }],
+  metadata
+});
+
+export interface ParseOptions {
+  // Read PDF pages without a text layer with OCR; otherwise they stay empty and are only counted
+  ocr?: boolean;
+  // Stops OCR between pages, e.g. when another file is selected
+  signal?: AbortSignal;
+  // Tesseract language name for PDF pages without a text layer, used when the PDF does not declare its language
+  ocrLanguage?: string;
+  // Called with 0 before the first scanned page and after every page read
+  onOcrProgress?: (done: number, total: number, language: string) => void;
+}
+
+// Scans are read in the language the PDF declares, otherwise in `fallback`
+export const ocrLanguageFor = (declared?: string, fallback?: string): string => {
+  const code = declaredLanguage(declared);
+  return (code && getLanguagePack(code).ocrLanguage) || fallback || DEFAULT_OCR_LANGUAGE;
+};
+
+const COVER_MAX_SIZE = 320;
+
+// Covers are stored with every history item, so keep them small
+const makeThumbnail = async (source: string): Promise<string | undefined> => {
+  try {
+    const blob = await (await fetch(source)).blob();
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, COVER_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (e) {
+    console.warn("Could not read cover image", e);
+    return undefined;
+  }
+};
+
+// Drops empty fields so stored metadata stays compact
+const cleanMetadata = (metadata: BookMetadata): BookMetadata => {
+  const result: BookMetadata = {};
+  (Object.keys(metadata) as (keyof BookMetadata)[]).forEach(key => {
+    const value = metadata[key];
+    if (Array.isArray(value) ? value.length > 0 : value) (result as any)[key] = value;
+  });
+  return result;
+};
+
+// Flat text of the whole book, e.g. for length checks
+export const documentToText = (doc: BookDocument): string => {
+  return doc.chapters.map(c => c.text).join('\n\n');
+};
+
+// --- FB2 ---
+
+// Leaf sections become chapters titled with their full path ("Part I / Chapter 3").
+// Paragraphs that precede nested sections form their own chapter under the parent title.
+const walkFB2Section = (section: Element, path: string[], out: BookChapter[], isBody: boolean) => {
+  const children = Array.from(section.children);
+  const titleEl = children.find(c => c.localName === 'title');
+  const title = titleEl ? normalizeSpace(titleEl.textContent || '') : '';
+  // The body title is the book title, not a chapter name
+  const sectionPath = title && !isBody ? [...path, title] : path;
+
+  let ownText: string[] = [];
+  const flush = () => {
+    const text = ownText.join('\n').trim();
+    if (text) out.push({ title: sectionPath.join(' / '), text });
+    ownText = [];
+  };
+
+  for (const child of children) {
+    if (child.localName === 'section') {
+      flush();
+      walkFB2Section(child, sectionPath, out, false);
+    } else if (child !== titleEl) {
+      const text = normalizeSpace(child.textContent || '');
+      if (text) ownText.push(text);
+    }
+  }
+  flush();
+};
+
+const firstByTag = (root: Element | Document, tag: string): Element | undefined => {
+  return root.getElementsByTagNameNS("*", tag)[0] || undefined;
+};
+
+const extractFB2Metadata = (xmlDoc: Document): BookMetadata => {
+  const titleInfo = firstByTag(xmlDoc, "title-info");
+  if (!titleInfo) return {};
+  const textOf = (root: Element | undefined, tag: string) => normalizeSpace((root && firstByTag(root, tag)?.textContent) || '');
+
+  const authors = Array.from(titleInfo.getElementsByTagNameNS("*", "author")).map(author => {
+    const name = ['first-name', 'middle-name', 'last-name'].map(tag => textOf(author, tag)).filter(Boolean).join(' ');
+    return name || textOf(author, 'nickname');
+  }).filter(Boolean);
+
+  const genres = Array.from(titleInfo.getElementsByTagNameNS("*", "genre"))
+    .map(g => normalizeSpace(g.textContent || ''))
+    .filter(Boolean);
+
+  // <coverpage><image l:href="#cover.jpg"/></coverpage> points to a base64 <binary id="cover.jpg">
+  let coverImage: string | undefined;
+  const coverRef = firstByTag(titleInfo, "coverpage")?.getElementsByTagNameNS("*", "image")[0];
+  const href = coverRef && Array.from(coverRef.attributes).find(a => a.localName === 'href')?.value;
+  if (href) {
+    const id = href.replace(/^#/, '');
+    const binary = Array.from(xmlDoc.getElementsByTagNameNS("*", "binary")).find(b => b.getAttribute("id") === id);
+    if (binary) {
+      const contentType = binary.getAttribute("content-type") || 'image/jpeg';
+      coverImage = `data:${contentType};base64,${(binary.textContent || '').replace(/\s+/g, '')}`;
+    }
+  }
+
+  const publishInfo = firstByTag(xmlDoc, "publish-info");
+
+  return {
+    title: textOf(titleInfo, 'book-title'),
+    authors,
+    genres,
+    annotation: textOf(titleInfo, 'annotation'),
+    language: textOf(titleInfo, 'lang'),
+    publisher: textOf(publishInfo, 'publisher'),
+    year: textOf(publishInfo, 'year') || textOf(titleInfo, 'date'),
+    coverImage
+  };
+};
+
+const parseFB2String = (text: string): BookDocument => {
   const parser = new DOMParser();
   const xmlDoc = parser.parseFromString(text, "text/xml");
+  const metadata = extractFB2Metadata(xmlDoc);
   
   // Try standard FB2 body
   let bodies: HTMLCollectionOf<Element> = xmlDoc.getElementsByTagName("body");
@@ -17,39 +158,84 @@ const parseFB2String = (text: string): string => {
     bodies = xmlDoc.getElementsByTagNameNS("*", "body");
   }
 
-  let fullText = "";
+  const chapters: BookChapter[] = [];
   
   if (bodies.length > 0) {
       for (let i = 0; i < bodies.length; i++) {
-        fullText += bodies[i].textContent || "";
+        walkFB2Section(bodies[i], [], chapters, true);
       }
-  } else {
+  } else if (xmlDoc.documentElement) {
       // Last resort: just dump all text content from the root
-      fullText = xmlDoc.documentElement.textContent || "";
+      const rootText = stripTags(xmlDoc.documentElement.textContent || "");
+      if (rootText) chapters.push({ title: '', text: rootText });
   }
   
   // If parsing failed (empty), try raw regex strip (in case of really broken XML)
-  if (fullText.trim().length === 0) {
-      return stripTags(text);
+  if (chapters.length === 0) {
+      return singleChapter(stripTags(text), metadata);
   }
   
-  return stripTags(fullText);
+  return { chapters, metadata };
 };
 
-export const parseFile = async (file: File): Promise<string> => {
+// --- TXT / MD ---
+
+// Markdown H1/H2 or a typical "Chapter 12" / "Глава 3" line on its own
+const CHAPTER_HEADING = /^(#{1,2}\s+\S.*|(?:chapter|part|book|глава|часть|книга|capítulo|parte|kapitel|teil|chapitre|partie)\s+[\dIVXLCivxlc]+\b.*)$/i;
+
+const splitPlainTextChapters = (text: string): BookDocument => {
+  const lines = text.split('\n');
+  const chapters: BookChapter[] = [];
+  let title = '';
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const body = buffer.join('\n').trim();
+    if (body) chapters.push({ title, text: body });
+    buffer = [];
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.length > 0 && trimmed.length < 100 && CHAPTER_HEADING.test(trimmed)) {
+      flush();
+      title = trimmed.replace(/^#+\s*/, '');
+    }
+    buffer.push(line);
+  }
+  flush();
+
+  // A single match is more likely a false positive than real structure
+  return chapters.length > 1 ? { chapters, metadata: {} } : singleChapter(text.trim());
+};
+
+export const parseFile = async (file: File, options: ParseOptions = {}): Promise<BookDocument> => {
+  const doc = await parseAnyFile(file, options);
+  const metadata = cleanMetadata(doc.metadata);
+  if (metadata.coverImage) {
+    const thumbnail = await makeThumbnail(metadata.coverImage);
+    if (thumbnail) metadata.coverImage = thumbnail;
+    else delete metadata.coverImage;
+  }
+  return { ...doc, metadata };
+};
+
+const parseAnyFile = async (file: File, options: ParseOptions): Promise<BookDocument> => {
   const fileType = file.name.split('.').pop()?.toLowerCase();
   
   try {
     if (fileType === 'zip') {
-      return await parseZip(file);
+      return await parseZip(file, options);
+    } else if (fileType === 'epub') {
+      return await parseEPUB(file);
     } else if (fileType === 'pdf') {
-      return await parsePDF(file);
+      return await parsePDF(file, options);
     } else if (['fb2', 'xml'].includes(fileType || '')) {
       return await parseFB2(file);
     } else if (['txt', 'md'].includes(fileType || '')) {
-      return await file.text();
+      return splitPlainTextChapters(await file.text());
     } else {
-      throw new Error(`Format .${fileType} is not supported. Use ZIP, PDF, FB2, TXT, or MD.`);
+      throw new Error(`Format .${fileType} is not supported. Use ZIP, EPUB, PDF, FB2, TXT, or MD.`);
     }
   } catch (error: any) {
     console.error("File parsing error:", error);
@@ -57,13 +243,13 @@ export const parseFile = async (file: File): Promise<string> => {
   }
 };
 
-const parseZip = async (file: File): Promise<string> => {
+const parseZip = async (file: File, options: ParseOptions): Promise<BookDocument> => {
   const zip = new JSZip();
   const content = await zip.loadAsync(file);
   const files = Object.keys(content.files);
 
   // Priority order for files inside zip
-  const extensions = ['fb2', 'pdf', 'txt', 'md', 'xml'];
+  const extensions = ['fb2', 'epub', 'pdf', 'txt', 'md', 'xml'];
   
   let targetFile: string | null = null;
   
@@ -74,23 +260,105 @@ const parseZip = async (file: File): Promise<string> => {
   }
 
   if (!targetFile) {
-     throw new Error("No supported files (PDF, FB2, TXT, MD) found in ZIP archive.");
+     throw new Error("No supported files (EPUB, PDF, FB2, TXT, MD) found in ZIP archive.");
   }
 
   console.log(`Found ${targetFile} inside zip.`);
   const fileEntry = content.files[targetFile];
   const blob = await fileEntry.async("blob");
   
-  // Recursively call parseFile with the extracted file
+  // Recursively call parseAnyFile with the extracted file
   // We recreate a File object from the blob
   const extractedFile = new File([blob], targetFile, { type: blob.type });
-  return parseFile(extractedFile);
+  return parseAnyFile(extractedFile, options);
+};
+
+// Resolves an outline destination (named or explicit) to a 0-based page index
+const resolveOutlinePage = async (pdf: any, dest: any): Promise<number | null> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+    const ref = explicit[0];
+    return typeof ref === 'number' ? ref : await pdf.getPageIndex(ref);
+  } catch (e) {
+    return null;
+  }
 };
 
-const parsePDF = async (file: File): Promise<string> => {
+const renderPage = async (page: any, scale: number): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  return canvas;
+};
+
+// Document info dictionary + first page rendered as the cover
+const extractPDFMetadata = async (pdf: any): Promise<BookMetadata> => {
+  const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+
+  let coverImage: string | undefined;
+  try {
+    const page = await pdf.getPage(1);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const canvas = await renderPage(page, COVER_MAX_SIZE / Math.max(baseViewport.width, baseViewport.height));
+    coverImage = canvas.toDataURL('image/jpeg', 0.8);
+  } catch (e) {
+    console.warn("Could not render PDF cover", e);
+  }
+
+  // Creation dates look like "D:20190412..."
+  const year = typeof info?.CreationDate === 'string' ? info.CreationDate.match(/^D:(\d{4})/)?.[1] : undefined;
+
+  return {
+    title: normalizeSpace(info?.Title || ''),
+    authors: info?.Author ? info.Author.split(/\s*[;&]\s*/).map(normalizeSpace).filter(Boolean) : [],
+    genres: info?.Keywords ? info.Keywords.split(/\s*[,;]\s*/).map(normalizeSpace).filter(Boolean) : [],
+    annotation: normalizeSpace(info?.Subject || ''),
+    language: info?.Language,
+    year,
+    coverImage
+  };
+};
+
+export const cleanPdfText = (text: string): string => {
+  // Cleanup excessive multiple spaces/newlines generated by PDF structure artifacts
+  return text.replace(/  +/g, ' ').replace(/\n\s*\n/g, '\n\n').trim();
+};
+
+// A page is a scan when it draws an image but has (almost) no text layer; blank pages are not
+const isScannedPage = async (page: any, text: string): Promise<boolean> => {
+  if (text.trim().length >= OCR_MIN_PAGE_CHARS) return false;
+  const { OPS } = pdfjsLib;
+  const imageOps = [OPS.paintImageXObject, OPS.paintJpegXObject, OPS.paintInlineImageXObject, OPS.paintImageMaskXObject].filter(Boolean);
+  const operators = await page.getOperatorList();
+  return operators.fnArray.some((fn: number) => imageOps.includes(fn));
+};
+
+// Replaces the text of scanned pages with what OCR reads from the rendered page
+const ocrPages = async (pdf: any, pages: string[], scanned: number[], language: string, options: ParseOptions) => {
+  options.onOcrProgress?.(0, scanned.length, language);
+  const engine = await createOcrEngine(language);
+  try {
+    for (let i = 0; i < scanned.length; i++) {
+      options.signal?.throwIfAborted();
+      const canvas = await renderPage(await pdf.getPage(scanned[i] + 1), OCR_RENDER_SCALE);
+      pages[scanned[i]] = await engine.recognize(canvas);
+      // Frees the bitmap right away; a book has hundreds of pages
+      canvas.width = 0;
+      options.onOcrProgress?.(i + 1, scanned.length, language);
+    }
+  } finally {
+    await engine.terminate();
+  }
+};
+
+const parsePDF = async (file: File, options: ParseOptions): Promise<BookDocument> => {
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  let fullText = '';
+  const pages: string[] = [];
+  const scanned: number[] = [];
 
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
@@ -101,15 +369,226 @@ const parsePDF = async (file: File): Promise<string> => {
       return item.str + (item.hasEOL ? '\n' : ' ');
     }).join('');
     
-    // Add double newline between pages to separate context clearly
-    fullText += pageText + '\n\n';
+    pages.push(pageText);
+    if (await isScannedPage(page, pageText)) scanned.push(i - 1);
   }
-  
-  // Cleanup excessive multiple spaces/newlines generated by PDF structure artifacts
-  return fullText.replace(/  +/g, ' ').replace(/\n\s*\n/g, '\n\n').trim();
+
+  const metadata = await extractPDFMetadata(pdf);
+
+  let ocrLanguage: string | undefined;
+  if (scanned.length > 0 && options.ocr) {
+    const language = ocrLanguageFor(metadata.language, options.ocrLanguage);
+    try {
+      await ocrPages(pdf, pages, scanned, language, options);
+      ocrLanguage = language;
+    } catch (e) {
+      // Without OCR a partly scanned book still has its text layer
+      if (pages.every(p => !p.trim())) throw e;
+      console.warn("OCR failed, scanned pages are left out", e);
+    }
+  }
+
+  // Top-level outline (bookmarks) entries mark where chapters start
+  const outline = await pdf.getOutline().catch(() => null);
+  const starts: { title: string; page: number }[] = [];
+  for (const item of outline || []) {
+    const page = await resolveOutlinePage(pdf, item.dest);
+    if (page !== null) starts.push({ title: normalizeSpace(item.title || ''), page });
+  }
+  starts.sort((a, b) => a.page - b.page);
+
+  // Add double newline between pages to separate context clearly.
+  // The raw pages are kept for cleanDocument, which needs the page boundaries.
+  const pageChapter = (title: string, from: number, to: number): BookChapter => ({
+    title,
+    text: cleanPdfText(pages.slice(from, to).join('\n\n')),
+    pages: pages.slice(from, to)
+  });
+
+  if (starts.length === 0) {
+    return { chapters: [pageChapter('', 0, pages.length)], metadata, scannedPages: scanned.length, ocrLanguage };
+  }
+
+  const chapters: BookChapter[] = [];
+  const frontMatter = pageChapter('', 0, starts[0].page);
+  if (frontMatter.text) chapters.push(frontMatter);
+
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].page : pages.length;
+    // Several bookmarks on one page: the text goes to the last of them
+    if (end <= start.page) return;
+    const chapter = pageChapter(start.title, start.page, end);
+    if (chapter.text) chapters.push(chapter);
+  });
+
+  return { chapters, metadata, scannedPages: scanned.length, ocrLanguage };
 };
 
-const parseFB2 = async (file: File): Promise<string> => {
+const parseFB2 = async (file: File): Promise<BookDocument> => {
   const text = await file.text();
   return parseFB2String(text); 
-};
\ No newline at end of file
+};
+
+// --- EPUB ---
+
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'blockquote', 'li', 'tr', 'pre', 'figcaption', 'dd', 'dt']);
+const SKIP_TAGS = new Set(['script', 'style', 'head', 'title', 'nav']);
+
+// Resolves an href from the OPF/XHTML relative to the directory of the referencing file
+const resolveZipPath = (baseDir: string, href: string): string => {
+  const clean = decodeURIComponent(href.split('#')[0]);
+  const parts = (baseDir ? `${baseDir}/${clean}` : clean).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.' && part !== '') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+// Walks the chapter DOM and keeps headings (as markdown) and paragraph breaks
+const extractXhtmlText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const tag = (node as Element).localName.toLowerCase();
+  if (SKIP_TAGS.has(tag)) return '';
+  if (tag === 'br') return '\n';
+
+  let inner = '';
+  node.childNodes.forEach(child => { inner += extractXhtmlText(child); });
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const title = inner.replace(/\s+/g, ' ').trim();
+    return title ? `\n\n${'#'.repeat(Number(heading[1]))} ${title}\n\n` : '';
+  }
+  if (BLOCK_TAGS.has(tag)) {
+    return `\n\n${inner.trim()}\n\n`;
+  }
+  return inner;
+};
+
+const parseXhtmlChapter = (markup: string): BookChapter => {
+  const parser = new DOMParser();
+  let doc = parser.parseFromString(markup, "application/xhtml+xml");
+  // Many EPUBs ship slightly invalid XHTML; the HTML parser is more forgiving
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    doc = parser.parseFromString(markup, "text/html");
+  }
+  const body = doc.getElementsByTagName("body")[0] || doc.documentElement;
+  const text = extractXhtmlText(body)
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  // Chapter title: first heading in the file, else the document <title>
+  const heading = body.querySelector('h1, h2, h3');
+  const titleEl = doc.getElementsByTagName("title")[0];
+  const title = normalizeSpace(heading?.textContent || titleEl?.textContent || '');
+
+  return { title, text };
+};
+
+// Dublin Core fields from the OPF <metadata>, cover via EPUB 3 "cover-image" or EPUB 2 <meta name="cover">
+const extractEPUBMetadata = async (
+  opf: Document,
+  manifestItems: HTMLCollectionOf<Element>,
+  opfDir: string,
+  content: any
+): Promise<BookMetadata> => {
+  const dc = (tag: string) => Array.from(opf.getElementsByTagNameNS("*", tag))
+    .map(el => normalizeSpace(el.textContent || ''))
+    .filter(Boolean);
+
+  const items = Array.from(manifestItems);
+  let coverItem = items.find(item => (item.getAttribute("properties") || '').split(/\s+/).includes('cover-image'));
+  if (!coverItem) {
+    const coverMeta = Array.from(opf.getElementsByTagNameNS("*", "meta")).find(m => m.getAttribute("name") === 'cover');
+    const coverId = coverMeta?.getAttribute("content");
+    coverItem = items.find(item => item.getAttribute("id") === coverId);
+  }
+
+  let coverImage: string | undefined;
+  const coverHref = coverItem?.getAttribute("href");
+  const coverFile = coverHref ? content.file(resolveZipPath(opfDir, coverHref)) : null;
+  if (coverFile) {
+    const mediaType = coverItem?.getAttribute("media-type") || 'image/jpeg';
+    coverImage = `data:${mediaType};base64,${await coverFile.async("base64")}`;
+  }
+
+  // Descriptions are often HTML-escaped markup
+  const description = dc("description")[0];
+
+  return {
+    title: dc("title")[0],
+    authors: dc("creator"),
+    genres: dc("subject"),
+    annotation: description ? stripTags(description) : undefined,
+    language: dc("language")[0],
+    publisher: dc("publisher")[0],
+    year: dc("date")[0]?.match(/\d{4}/)?.[0],
+    coverImage
+  };
+};
+
+const parseEPUB = async (file: File): Promise<BookDocument> => {
+  const zip = new JSZip();
+  const content = await zip.loadAsync(file);
+  const parser = new DOMParser();
+
+  // 1. container.xml points to the OPF package document
+  const containerEntry = content.file("META-INF/container.xml");
+  if (!containerEntry) throw new Error("Invalid EPUB: META-INF/container.xml is missing.");
+
+  const containerXml = parser.parseFromString(await containerEntry.async("string"), "application/xml");
+  const rootfile = containerXml.getElementsByTagNameNS("*", "rootfile")[0];
+  const opfPath = rootfile?.getAttribute("full-path");
+  if (!opfPath) throw new Error("Invalid EPUB: no rootfile declared in container.xml.");
+
+  const opfEntry = content.file(opfPath);
+  if (!opfEntry) throw new Error(`Invalid EPUB: package file ${opfPath} not found.`);
+
+  const opfDir = opfPath.includes('/') ? opfPath.substring(0, opfPath.lastIndexOf('/')) : '';
+  const opf = parser.parseFromString(await opfEntry.async("string"), "application/xml");
+
+  // 2. Manifest maps ids to files, spine gives the reading order
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  const manifestItems = opf.getElementsByTagNameNS("*", "item");
+  for (let i = 0; i < manifestItems.length; i++) {
+    const item = manifestItems[i];
+    const id = item.getAttribute("id");
+    const href = item.getAttribute("href");
+    if (id && href) {
+      manifest.set(id, { href, mediaType: item.getAttribute("media-type") || '' });
+    }
+  }
+
+  const metadata = await extractEPUBMetadata(opf, manifestItems, opfDir, content);
+
+  const spineRefs = opf.getElementsByTagNameNS("*", "itemref");
+  const chapters: BookChapter[] = [];
+
+  for (let i = 0; i < spineRefs.length; i++) {
+    const idref = spineRefs[i].getAttribute("idref");
+    const entry = idref ? manifest.get(idref) : undefined;
+    if (!entry || !/html|xml/i.test(entry.mediaType || entry.href)) continue;
+
+    const chapterFile = content.file(resolveZipPath(opfDir, entry.href));
+    if (!chapterFile) {
+      console.warn(`EPUB spine item ${entry.href} not found in archive.`);
+      continue;
+    }
+
+    const chapter = parseXhtmlChapter(await chapterFile.async("string"));
+    if (chapter.text.length > 0) chapters.push(chapter);
+  }
+
+  if (chapters.length === 0) throw new Error("EPUB contains no readable chapters.");
+
+  return { chapters, metadata };
+};
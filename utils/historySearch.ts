@@ -0,0 +1,28 @@
+import { HistoryItem } from '../types';
+import { tokenize } from './bookIndex';
+
+// --- History search words ---
+// Every entry stores the distinct words of its title, authors, file name and summary in
+// `searchTerms`, a multi-entry index. A search then reads only the matching keys of that
+// index instead of loading every summary.
+
+// Source markers and their offsets are not searchable words
+const MARKER_RE = /\[[SC]\d+(?::\d+-\d+)?\]/g;
+
+export const historySearchTerms = (item: HistoryItem): string[] => {
+  const text = [
+    item.metadata?.title || '',
+    (item.metadata?.authors || []).join(' '),
+    item.fileName,
+    item.summary.replace(MARKER_RE, ' ')
+  ].join('\n');
+  return Array.from(new Set(tokenize(text)));
+};
+
+export const withSearchTerms = (item: HistoryItem): HistoryItem & { searchTerms: string[] } => ({
+  ...item,
+  searchTerms: historySearchTerms(item)
+});
+
+// Query words in the same form as the stored terms
+export const searchWords = (query: string): string[] => Array.from(new Set(tokenize(query)));
@@ -0,0 +1,263 @@
+import { HistoryItem, HistoryQuery, ProcessedBook } from '../types';
+import { HISTORY_STORE, PROCESSED_STORE, openDB, promisify, txDone } from './db';
+import { searchWords, withSearchTerms } from './historySearch';
+
+// --- Summary history ---
+// Entries live in IndexedDB, newest first by timestamp. The list is read page by page;
+// the raw chunk summaries are in a separate store so listing never loads them.
+// Stored records carry their search words (see historySearch.ts); they are removed on read.
+
+const LEGACY_STORAGE_KEY = "summary_history";
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  // Number of entries matching the filter, loaded or not
+  total: number;
+}
+
+export interface HistoryFacets {
+  languages: string[];
+  models: string[];
+  tags: string[];
+}
+
+const toItem = (record: any): HistoryItem => {
+  const { searchTerms, ...item } = record;
+  return item;
+};
+
+// Walks the timestamp index (newest first by default); `match` filters before offset and limit are applied
+export const listHistory = async (
+  offset: number,
+  limit: number,
+  match: (item: HistoryItem) => boolean = () => true,
+  direction: IDBCursorDirection = 'prev',
+  range: IDBKeyRange | null = null
+): Promise<HistoryPage> => {
+  const db = await openDB();
+  const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('timestamp');
+
+  return new Promise((resolve, reject) => {
+    const items: HistoryItem[] = [];
+    let total = 0;
+    const request = index.openCursor(range, direction);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items, total });
+        return;
+      }
+      const item = toItem(cursor.value);
+      if (match(item)) {
+        if (total >= offset && items.length < limit) items.push(item);
+        total++;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Ids of entries containing every word; a word also matches longer words it starts
+const findMatchingIds = async (words: string[]): Promise<Set<string>> => {
+  const db = await openDB();
+  const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('searchTerms');
+  const matches = await Promise.all(words.map(word =>
+    promisify<IDBValidKey[]>(index.getAllKeys(IDBKeyRange.bound(word, word + '\uffff')))
+  ));
+  return matches
+    .map(keys => new Set(keys as string[]))
+    .reduce((result, ids) => new Set(Array.from(result).filter(id => ids.has(id))));
+};
+
+const getHistoryItems = async (ids: Iterable<string>): Promise<HistoryItem[]> => {
+  const db = await openDB();
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  const records = await Promise.all(Array.from(ids).map(id => promisify(store.get(id))));
+  return records.filter(Boolean).map(toItem);
+};
+
+const matchesFilters = (item: HistoryItem, query: HistoryQuery): boolean => {
+  if (query.language && item.language !== query.language) return false;
+  if (query.model && item.model !== query.model) return false;
+  if (query.tag && !(item.tags || []).includes(query.tag)) return false;
+  if (query.favoritesOnly && !item.favorite) return false;
+  if (query.dateFrom !== undefined && item.timestamp < query.dateFrom) return false;
+  if (query.dateTo !== undefined && item.timestamp > query.dateTo) return false;
+  return true;
+};
+
+const itemName = (item: HistoryItem): string => item.metadata?.title || item.fileName;
+
+const SORTERS: Record<HistoryQuery['sort'], (a: HistoryItem, b: HistoryItem) => number> = {
+  'date-desc': (a, b) => b.timestamp - a.timestamp,
+  'date-asc': (a, b) => a.timestamp - b.timestamp,
+  name: (a, b) => itemName(a).localeCompare(itemName(b)),
+  tokens: (a, b) => b.tokenUsage - a.tokenUsage
+};
+
+// Searches narrow the entries through the word index first; without a search, date order
+// pages through the timestamp index and the other orders sort all entries in memory
+export const queryHistory = async (query: HistoryQuery, offset: number, limit: number): Promise<HistoryPage> => {
+  const words = searchWords(query.search);
+  const match = (item: HistoryItem) => matchesFilters(item, query);
+
+  if (words.length === 0 && (query.sort === 'date-desc' || query.sort === 'date-asc')) {
+    const range = query.dateFrom !== undefined || query.dateTo !== undefined
+      ? IDBKeyRange.bound(query.dateFrom ?? 0, query.dateTo ?? Number.MAX_SAFE_INTEGER)
+      : null;
+    return listHistory(offset, limit, match, query.sort === 'date-asc' ? 'next' : 'prev', range);
+  }
+
+  const candidates = words.length > 0
+    ? await getHistoryItems(await findMatchingIds(words))
+    : await getAllHistory();
+  const items = candidates.filter(match).sort(SORTERS[query.sort]);
+  return { items: items.slice(offset, offset + limit), total: items.length };
+};
+
+const uniqueKeys = (index: IDBIndex): Promise<string[]> => {
+  return new Promise((resolve, reject) => {
+    const keys: string[] = [];
+    const request = index.openKeyCursor(null, 'nextunique');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(keys);
+        return;
+      }
+      keys.push(cursor.key as string);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Values present in history, for the filter menus
+export const getHistoryFacets = async (): Promise<HistoryFacets> => {
+  const db = await openDB();
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  const [languages, models, tags] = await Promise.all([
+    uniqueKeys(store.index('language')),
+    uniqueKeys(store.index('model')),
+    uniqueKeys(store.index('tags'))
+  ]);
+  return { languages, models, tags };
+};
+
+// What the usage dashboard needs from every entry
+export type UsageRecord = Pick<HistoryItem, 'id' | 'timestamp' | 'model' | 'tokenUsage' | 'usage'>;
+
+export const getUsageRecords = async (): Promise<UsageRecord[]> => {
+  const db = await openDB();
+  const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('timestamp');
+
+  return new Promise((resolve, reject) => {
+    const records: UsageRecord[] = [];
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(records);
+        return;
+      }
+      const { id, timestamp, model, tokenUsage, usage } = cursor.value as HistoryItem;
+      records.push({ id, timestamp, model, tokenUsage, usage });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getHistoryItem = async (id: string): Promise<HistoryItem | undefined> => {
+  const db = await openDB();
+  const record = await promisify(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).get(id));
+  return record ? toItem(record) : undefined;
+};
+
+export const getAllHistory = async (): Promise<HistoryItem[]> => {
+  const db = await openDB();
+  const records = await promisify<any[]>(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll());
+  return records.map(toItem).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveHistoryItems = async (items: HistoryItem[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  items.forEach(item => store.put(withSearchTerms(item)));
+  await txDone(tx);
+};
+
+export const saveHistoryItem = (item: HistoryItem): Promise<void> => saveHistoryItems([item]);
+
+// Read and write happen in one transaction, so concurrent updates of the same entry do not overwrite each other
+export const updateHistoryItem = async (id: string, update: (item: HistoryItem) => HistoryItem): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (request.result) store.put(withSearchTerms(update(toItem(request.result))));
+  };
+  await txDone(tx);
+};
+
+export const countHistory = async (): Promise<number> => {
+  const db = await openDB();
+  return promisify<number>(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).count());
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([HISTORY_STORE, PROCESSED_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).delete(id);
+  tx.objectStore(PROCESSED_STORE).delete(id);
+  await txDone(tx);
+};
+
+export const saveProcessedBook = async (book: ProcessedBook): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(PROCESSED_STORE, 'readwrite');
+  tx.objectStore(PROCESSED_STORE).put(book);
+  await txDone(tx);
+};
+
+export const getProcessedBook = async (historyId: string): Promise<ProcessedBook | undefined> => {
+  const db = await openDB();
+  return promisify<ProcessedBook | undefined>(db.transaction(PROCESSED_STORE).objectStore(PROCESSED_STORE).get(historyId));
+};
+
+// One-time move of the history that older versions kept in localStorage.
+// Entries already in the store win; the localStorage copy is removed only after a successful write.
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return 0;
+
+  let legacy: HistoryItem[];
+  try {
+    legacy = JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse legacy history, leaving it in localStorage", e);
+    return 0;
+  }
+  if (!Array.isArray(legacy)) return 0;
+
+  const existing = new Set((await getAllHistory()).map(item => item.id));
+  const items = legacy.filter(item => item && item.id && !existing.has(item.id));
+  await saveHistoryItems(items);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return items.length;
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Browser-wide estimate for this origin (IndexedDB, cache, localStorage); null where unsupported
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
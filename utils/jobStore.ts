@@ -0,0 +1,73 @@
+import { ChunkResult, Language, SummaryJob, TokenCounts } from '../types';
+import { CHUNKS_STORE, JOBS_STORE, openDB, promisify, txDone } from './db';
+
+// Job ID = SHA-256 of the file contents + output language, so the same book
+// re-selected later maps back to the same saved progress.
+export const computeJobId = async (file: Blob, language: Language): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  const hex = Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${hex}_${language}`;
+};
+
+export const getJob = async (id: string): Promise<SummaryJob | undefined> => {
+  const db = await openDB();
+  return promisify<SummaryJob | undefined>(db.transaction(JOBS_STORE).objectStore(JOBS_STORE).get(id));
+};
+
+export const saveJob = async (job: SummaryJob): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(JOBS_STORE, 'readwrite');
+  tx.objectStore(JOBS_STORE).put({ ...job, updatedAt: Date.now() });
+  await txDone(tx);
+};
+
+export const updateJob = async (id: string, patch: Partial<SummaryJob>): Promise<void> => {
+  const job = await getJob(id);
+  if (!job) return;
+  await saveJob({ ...job, ...patch });
+};
+
+export const listJobs = async (): Promise<SummaryJob[]> => {
+  const db = await openDB();
+  const jobs = await promisify<SummaryJob[]>(db.transaction(JOBS_STORE).objectStore(JOBS_STORE).getAll());
+  return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getChunkResults = async (jobId: string): Promise<ChunkResult[]> => {
+  const db = await openDB();
+  const index = db.transaction(CHUNKS_STORE).objectStore(CHUNKS_STORE).index('jobId');
+  return promisify<ChunkResult[]>(index.getAll(jobId));
+};
+
+export const saveChunkResult = async (jobId: string, index: number, text: string, usage?: TokenCounts): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([CHUNKS_STORE, JOBS_STORE], 'readwrite');
+  const chunks = tx.objectStore(CHUNKS_STORE);
+  const jobs = tx.objectStore(JOBS_STORE);
+
+  chunks.put({ jobId, index, text, usage } as ChunkResult);
+
+  // Keep the job's progress counter in sync within the same transaction
+  const countRequest = chunks.index('jobId').count(jobId);
+  countRequest.onsuccess = () => {
+    const jobRequest = jobs.get(jobId);
+    jobRequest.onsuccess = () => {
+      const job = jobRequest.result as SummaryJob | undefined;
+      if (job) jobs.put({ ...job, completedChunks: countRequest.result, updatedAt: Date.now() });
+    };
+  };
+
+  await txDone(tx);
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([CHUNKS_STORE, JOBS_STORE], 'readwrite');
+  tx.objectStore(JOBS_STORE).delete(id);
+  const range = IDBKeyRange.bound([id, -Infinity], [id, Infinity]);
+  tx.objectStore(CHUNKS_STORE).delete(range);
+  await txDone(tx);
+};
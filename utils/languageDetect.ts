@@ -0,0 +1,86 @@
+import { isLanguage } from '../languages';
+import { Language } from '../types';
+
+// --- Source language detection ---
+// Cheap heuristics on a few samples of the parsed text: the writing system first,
+// then letters specific to Ukrainian/Russian, then stop-word frequency for Latin scripts.
+
+const SAMPLE_COUNT = 5;
+const SAMPLE_SIZE = 4000;
+// Below this share of stop words a Latin-script guess is not trusted
+const MIN_STOPWORD_RATIO = 0.08;
+
+const STOPWORDS: Record<string, string[]> = {
+  EN: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'with', 'for', 'was', 'on', 'as', 'are', 'this', 'be', 'by', 'not', 'you', 'he'],
+  ES: ['de', 'la', 'que', 'el', 'en', 'los', 'se', 'del', 'las', 'por', 'un', 'una', 'para', 'con', 'no', 'es', 'su', 'al', 'lo', 'como'],
+  FR: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'il', 'ce', 'ne'],
+  DE: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'von', 'sich', 'auch', 'auf', 'dem', 'es', 'im', 'für', 'ich'],
+  IT: ['il', 'di', 'che', 'la', 'e', 'un', 'una', 'per', 'non', 'del', 'della', 'sono', 'con', 'gli', 'le', 'è', 'nel', 'si', 'da', 'alla'],
+  PT: ['de', 'que', 'o', 'a', 'os', 'as', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'é', 'por', 'dos', 'das', 'se', 'no'],
+  PL: ['i', 'w', 'nie', 'na', 'się', 'z', 'że', 'do', 'to', 'jest', 'jak', 'o', 'co', 'ale', 'po', 'tak', 'od', 'za', 'jego', 'przez']
+};
+
+const count = (text: string, re: RegExp): number => (text.match(re) || []).length;
+
+// Evenly spaced slices, so front matter in another language does not decide alone
+const takeSamples = (text: string): string => {
+  if (text.length <= SAMPLE_COUNT * SAMPLE_SIZE) return text;
+  const step = Math.floor(text.length / SAMPLE_COUNT);
+  const samples: string[] = [];
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    samples.push(text.slice(i * step, i * step + SAMPLE_SIZE));
+  }
+  return samples.join('\n');
+};
+
+const detectByScript = (sample: string): Language | null => {
+  const cyrillic = count(sample, /[\u0400-\u04FF]/g);
+  const han = count(sample, /[\u4E00-\u9FFF]/g);
+  const kana = count(sample, /[\u3040-\u30FF]/g);
+  const latin = count(sample, /[A-Za-z\u00C0-\u024F]/g);
+  const max = Math.max(cyrillic, han + kana, latin);
+
+  if (max === 0) return null;
+  if (han + kana === max) return kana > (han + kana) * 0.1 ? 'JA' : 'ZH';
+  if (cyrillic === max) {
+    const ukrainian = count(sample, /[іїєґІЇЄҐ]/g);
+    const russian = count(sample, /[ыэъёЫЭЪЁ]/g);
+    return ukrainian > russian ? 'UK' : 'RU';
+  }
+  return null;
+};
+
+const detectByStopwords = (sample: string): Language | null => {
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length === 0) return null;
+
+  const frequency = new Map<string, number>();
+  words.forEach(w => frequency.set(w, (frequency.get(w) || 0) + 1));
+
+  let best: Language | null = null;
+  let bestHits = 0;
+  for (const [code, list] of Object.entries(STOPWORDS)) {
+    const hits = list.reduce((sum, w) => sum + (frequency.get(w) || 0), 0);
+    if (hits > bestHits) {
+      best = code;
+      bestHits = hits;
+    }
+  }
+
+  return bestHits / words.length >= MIN_STOPWORD_RATIO ? best : null;
+};
+
+// Maps a declared language such as "ru", "en-US" or "pt_BR" to a pack code
+export const declaredLanguage = (declared?: string): Language | null => {
+  const code = declared?.trim().slice(0, 2).toUpperCase();
+  return code && isLanguage(code) ? code : null;
+};
+
+// Returns the pack code of the book's language, or null when unsure.
+// The language declared in the book's metadata is used only when the text is inconclusive.
+export const detectLanguage = (text: string, declared?: string): Language | null => {
+  const sample = takeSamples(text);
+  const detected = detectByScript(sample) || detectByStopwords(sample);
+  if (detected && isLanguage(detected)) return detected;
+  return declaredLanguage(declared);
+};
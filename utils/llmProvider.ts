@@ -0,0 +1,261 @@
+import { GoogleGenAI } from "@google/genai";
+import { ProviderId, ProviderSettings, TokenCounts } from '../types';
+
+export interface LLMRequest {
+  prompt: string;
+  systemInstruction?: string;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage extends TokenCounts {
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage;
+}
+
+// Normalised error so the scheduler can tell rate limits apart from hard failures
+export class LLMRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini puts the hint in the error body as RetryInfo, e.g. "retryDelay": "27s"
+const parseGeminiRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Same as generate, but calls onText with the accumulated text as it arrives
+  generateStream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse>;
+  listModels(): Promise<string[]>;
+  // Exact count where the API offers one, the estimate below otherwise
+  countTokens(text: string): Promise<number>;
+}
+
+// Rough heuristic (~4 characters per token) used for rate limiting before a request is sent
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// --- Gemini (Google GenAI SDK) ---
+
+// Candidates and thoughts are reported separately; both are billed as output
+const toGeminiUsage = (metadata: any): LLMUsage => ({
+  totalTokens: metadata?.totalTokenCount || 0,
+  input: metadata?.promptTokenCount || 0,
+  output: metadata?.candidatesTokenCount || 0,
+  thinking: metadata?.thoughtsTokenCount || 0
+});
+
+const toGeminiError = (err: any, signal?: AbortSignal): Error => {
+  // Keep aborts recognisable so they are neither retried nor reported as failures
+  if (signal?.aborted) return err?.name === 'AbortError' ? err : new DOMException('Request aborted', 'AbortError');
+  const message = err?.message || String(err);
+  return new LLMRequestError(message, err?.status, parseGeminiRetryDelay(message));
+};
+
+const createGeminiProvider = (model: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return {
+    id: 'gemini',
+    model,
+
+    generate: async ({ prompt, systemInstruction, signal }) => {
+      let response;
+      try {
+        response = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: { systemInstruction, abortSignal: signal }
+        });
+      } catch (err: any) {
+        throw toGeminiError(err, signal);
+      }
+      return { text: response.text || "", usage: toGeminiUsage(response.usageMetadata) };
+    },
+
+    generateStream: async ({ prompt, systemInstruction, signal }, onText) => {
+      let text = "";
+      let usage = toGeminiUsage(undefined);
+      try {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents: prompt,
+          config: { systemInstruction, abortSignal: signal }
+        });
+        for await (const chunk of stream) {
+          text += chunk.text || "";
+          // Usage is cumulative; the last chunk carries the final count
+          if (chunk.usageMetadata?.totalTokenCount) usage = toGeminiUsage(chunk.usageMetadata);
+          onText(text);
+        }
+      } catch (err: any) {
+        throw toGeminiError(err, signal);
+      }
+      return { text, usage };
+    },
+
+    countTokens: async (text) => {
+      const response = await ai.models.countTokens({ model, contents: text });
+      return response.totalTokens || 0;
+    },
+
+    listModels: async () => {
+      const models: string[] = [];
+      const pager = await ai.models.list();
+      for await (const m of pager) {
+        if (m.name && (!m.supportedActions || m.supportedActions.includes('generateContent'))) {
+          models.push(m.name.replace(/^models\//, ''));
+        }
+      }
+      return models;
+    }
+  };
+};
+
+// --- OpenAI-compatible HTTP (llama.cpp server, Ollama, vLLM, LM Studio, ...) ---
+
+const createOpenAICompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+  const send = async (path: string, init?: RequestInit): Promise<Response> => {
+    const res = await fetch(`${baseUrl}${path}`, { ...init, headers });
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      throw new LLMRequestError(
+        `${res.status} ${res.statusText} from ${baseUrl}${path}${body ? `: ${body.slice(0, 300)}` : ''}`,
+        res.status,
+        parseRetryAfter(res.headers.get('retry-after'))
+      );
+    }
+    return res;
+  };
+
+  const request = async (path: string, init?: RequestInit) => (await send(path, init)).json();
+
+  // Reasoning tokens are part of completion_tokens in this API
+  const toUsage = (usage: any): LLMUsage => {
+    const thinking = usage?.completion_tokens_details?.reasoning_tokens || 0;
+    return {
+      totalTokens: usage?.total_tokens || 0,
+      input: usage?.prompt_tokens || 0,
+      output: Math.max(0, (usage?.completion_tokens || 0) - thinking),
+      thinking
+    };
+  };
+
+  const buildMessages = (prompt: string, systemInstruction?: string) => {
+    const messages = [];
+    if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+    messages.push({ role: 'user', content: prompt });
+    return messages;
+  };
+
+  return {
+    id: 'openai',
+    model: settings.model,
+
+    generate: async ({ prompt, systemInstruction, signal }) => {
+      const data = await request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({ model: settings.model, messages: buildMessages(prompt, systemInstruction) }),
+        signal
+      });
+      return { text: data.choices?.[0]?.message?.content || "", usage: toUsage(data.usage) };
+    },
+
+    generateStream: async ({ prompt, systemInstruction, signal }, onText) => {
+      const res = await send('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model: settings.model,
+          messages: buildMessages(prompt, systemInstruction),
+          stream: true,
+          // Servers that don't know this option ignore it; usage then stays 0
+          stream_options: { include_usage: true }
+        }),
+        signal
+      });
+      if (!res.body) throw new LLMRequestError(`Empty stream from ${baseUrl}`);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let text = "";
+      let usage = toUsage(undefined);
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') continue;
+
+          try {
+            const data = JSON.parse(payload);
+            const delta = data.choices?.[0]?.delta?.content;
+            if (data.usage?.total_tokens) usage = toUsage(data.usage);
+            if (delta) {
+              text += delta;
+              onText(text);
+            }
+          } catch (e) {
+            console.warn("Skipping malformed stream event", payload);
+          }
+        }
+      }
+
+      return { text, usage };
+    },
+
+    // There is no standard counting endpoint across these servers
+    countTokens: async (text) => estimateTokens(text),
+
+    listModels: async () => {
+      const data = await request('/models');
+      return (data.data || []).map((m: any) => m.id as string);
+    }
+  };
+};
+
+export const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.model);
+  }
+};
@@ -0,0 +1,89 @@
+import { OCR_CACHE_NAME, OCR_CORE_URL, OCR_LANG_URL, OCR_SCRIPT_URL, OCR_WORKER_URL } from '../constants';
+
+declare const Tesseract: any;
+
+// --- In-browser OCR ---
+// Tesseract.js is only needed for scanned PDFs, so it is not part of index.html.
+// Its scripts are kept in Cache Storage and handed to the engine as blob URLs,
+// which lets a scan be read without a network once the assets were loaded.
+// The worker fetches language data itself, so it is given a fetch that goes through the same cache.
+
+export interface OcrEngine {
+  recognize: (image: HTMLCanvasElement) => Promise<string>;
+  terminate: () => Promise<void>;
+}
+
+// Falls back to the network URL where Cache Storage is unavailable (plain http).
+// `prelude` is script code run before the cached script.
+const cachedAssetUrl = async (url: string, prelude = ''): Promise<string> => {
+  if (typeof caches === 'undefined') return url;
+  const cache = await caches.open(OCR_CACHE_NAME);
+  let response = await cache.match(url);
+  if (!response) {
+    response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not load OCR engine (${response.status}).`);
+    await cache.put(url, response.clone());
+  }
+  const blob = await response.blob();
+  return URL.createObjectURL(prelude ? new Blob([prelude, blob], { type: 'text/javascript' }) : blob);
+};
+
+// Runs in the worker: traineddata from OCR_LANG_URL is read from and stored in OCR_CACHE_NAME
+const CACHED_FETCH_PRELUDE = `self.fetch = (networkFetch => async (url, init) => {
+  const cache = await caches.open(${JSON.stringify(OCR_CACHE_NAME)});
+  const cached = await cache.match(url);
+  if (cached) return cached;
+  const response = await networkFetch(url, init);
+  if (response.ok) await cache.put(url, response.clone());
+  return response;
+})(self.fetch.bind(self));
+`;
+
+let scriptPromise: Promise<void> | null = null;
+
+const loadScript = (): Promise<void> => {
+  if (!scriptPromise) {
+    scriptPromise = cachedAssetUrl(OCR_SCRIPT_URL).then(src => new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.onload = () => {
+        if (src.startsWith('blob:')) URL.revokeObjectURL(src);
+        resolve();
+      };
+      script.onerror = () => reject(new Error("Could not load OCR engine."));
+      document.head.appendChild(script);
+    }));
+    // A failed load (e.g. offline on first use) may be retried later
+    scriptPromise.catch(() => { scriptPromise = null; });
+  }
+  return scriptPromise;
+};
+
+// `language` is a Tesseract language name such as "eng" or "chi_sim"
+export const createOcrEngine = async (language: string): Promise<OcrEngine> => {
+  await loadScript();
+  const [workerPath, corePath] = await Promise.all([
+    cachedAssetUrl(OCR_WORKER_URL, CACHED_FETCH_PRELUDE),
+    cachedAssetUrl(OCR_CORE_URL)
+  ]);
+  const cached = workerPath.startsWith('blob:');
+  let worker: any;
+  try {
+    worker = await Tesseract.createWorker(language, 1, {
+      workerPath,
+      // The worker treats a path not ending in "js" as a directory; the fragment is ignored when fetching
+      corePath: corePath.startsWith('blob:') ? `${corePath}#core.js` : corePath,
+      langPath: OCR_LANG_URL.replace('{{language}}', language),
+      // Without Cache Storage the engine keeps the data in its own IndexedDB cache instead
+      cacheMethod: cached ? 'none' : 'write'
+    });
+  } finally {
+    // Both scripts are loaded once the worker is ready
+    [workerPath, corePath].filter(url => url.startsWith('blob:')).forEach(url => URL.revokeObjectURL(url));
+  }
+
+  return {
+    recognize: async (image) => (await worker.recognize(image)).data.text || '',
+    terminate: () => worker.terminate()
+  };
+};
@@ -0,0 +1,91 @@
+import { getPromptParts, SUMMARY_PRESETS } from '../constants';
+import { getLanguagePack, getLanguagePacks } from '../languages';
+import { Language, PromptPhase, PromptTemplates, SummaryPresetId } from '../types';
+
+// --- User prompt templates ---
+// Overrides replace the preset-specific body of a prompt and are stored per language,
+// preset and phase in localStorage. The generated rule lines are always appended after them.
+// Templates may use {{variables}}, filled in right before each request.
+
+const STORAGE_KEY = "prompt_templates";
+
+export const PROMPT_PHASES: PromptPhase[] = ['systemInstruction', 'extract', 'consolidate', 'polish'];
+
+export const TEMPLATE_VARIABLES = ['language', 'sourceLanguage', 'partIndex', 'partCount', 'bookTitle'] as const;
+
+export type TemplateVariables = Partial<Record<typeof TEMPLATE_VARIABLES[number], string | number>>;
+
+const sanitizePhases = (raw: any): Partial<Record<PromptPhase, string>> => {
+  const phases: Partial<Record<PromptPhase, string>> = {};
+  if (!raw || typeof raw !== 'object') return phases;
+  for (const phase of PROMPT_PHASES) {
+    const value = raw[phase];
+    if (typeof value === 'string' && value.trim().length > 0) phases[phase] = value;
+  }
+  return phases;
+};
+
+// Keeps only known languages, presets and phases with non-empty string values
+export const sanitizeTemplates = (raw: any): PromptTemplates => {
+  const result: PromptTemplates = {};
+  if (!raw || typeof raw !== 'object') return result;
+
+  for (const { code: lang } of getLanguagePacks()) {
+    const entry = raw[lang];
+    if (!entry || typeof entry !== 'object') continue;
+
+    const byPreset: Partial<Record<SummaryPresetId, Partial<Record<PromptPhase, string>>>> = {};
+    for (const { id } of SUMMARY_PRESETS) {
+      const phases = sanitizePhases(entry[id]);
+      if (Object.keys(phases).length > 0) byPreset[id] = phases;
+    }
+    if (Object.keys(byPreset).length > 0) result[lang] = byPreset;
+  }
+  return result;
+};
+
+export const loadPromptTemplates = (): PromptTemplates => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizeTemplates(JSON.parse(stored)) : {};
+  } catch (e) {
+    console.error("Failed to load prompt templates", e);
+    return {};
+  }
+};
+
+export const savePromptTemplates = (templates: PromptTemplates) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Unknown variables are left as written so typos stay visible in the prompt
+export const fillTemplate = (template: string, vars: TemplateVariables): string => {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const value = vars[name as keyof TemplateVariables];
+    return value === undefined ? match : String(value);
+  });
+};
+
+// Prompts of the preset: the user's override or the built-in body, then the generated rules,
+// with variables filled. `lang` is the output language.
+export const resolvePrompts = (
+  lang: Language,
+  preset: SummaryPresetId,
+  templates: PromptTemplates,
+  vars: TemplateVariables,
+  sourceLanguage?: Language
+): Record<PromptPhase, string> => {
+  const parts = getPromptParts(lang, preset, sourceLanguage);
+  const overrides = templates[lang]?.[preset] || {};
+  const allVars: TemplateVariables = {
+    language: getLanguagePack(lang).name,
+    sourceLanguage: sourceLanguage ? getLanguagePack(sourceLanguage).name : 'unknown',
+    ...vars
+  };
+
+  const resolved = {} as Record<PromptPhase, string>;
+  for (const phase of PROMPT_PHASES) {
+    resolved[phase] = fillTemplate((overrides[phase] ?? parts[phase].body) + parts[phase].rules, allVars);
+  }
+  return resolved;
+};
@@ -0,0 +1,227 @@
+import { LLMRequestError } from './llmProvider';
+import { QueueTask } from '../types';
+
+// --- Rate-limit-aware request scheduler ---
+// Runs LLM calls through a fixed-size worker pool while keeping a sliding one-minute
+// window of requests and tokens. Retryable failures (429/5xx/network) are re-queued
+// with exponential backoff, honouring the server's retry-after hint when present.
+
+export interface SchedulerOptions {
+  concurrency: number;
+  // 0 disables the limit
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RequestScheduler {
+  run<T>(label: string, estimatedTokens: number, fn: () => Promise<T>): Promise<T>;
+  onChange(listener: (tasks: QueueTask[]) => void): () => void;
+  // Paused schedulers let in-flight requests finish but start no new ones
+  pause(): void;
+  resume(): void;
+  // Rejects everything that has not started yet; in-flight calls are aborted by their AbortSignal
+  cancel(): void;
+}
+
+interface PendingTask {
+  task: QueueTask;
+  estimatedTokens: number;
+  fn: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+}
+
+const WINDOW_MS = 60_000;
+
+const cancelledError = () => new DOMException('Cancelled by user', 'AbortError');
+
+export const isRetryableError = (error: any): boolean => {
+  if (error?.name === 'AbortError') return false;
+  const status = error?.status;
+  if (typeof status === 'number') return status === 429 || status === 408 || status >= 500;
+  // fetch() network failures surface as TypeError without a status
+  if (error instanceof TypeError) return true;
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|rate limit|Failed to fetch|fetch failed|NetworkError/i.test(error?.message || '');
+};
+
+export const getBackoffDelay = (error: any, attempt: number, options: SchedulerOptions): number => {
+  if (error instanceof LLMRequestError && error.retryAfterMs) {
+    return Math.min(error.retryAfterMs, options.maxDelayMs);
+  }
+  const exponential = options.baseDelayMs * Math.pow(2, attempt - 1);
+  // Jitter keeps parallel workers from retrying in lockstep
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(exponential + jitter, options.maxDelayMs);
+};
+
+export const createRequestScheduler = (options: SchedulerOptions): RequestScheduler => {
+  const queue: PendingTask[] = [];
+  const tasks: QueueTask[] = [];
+  const listeners = new Set<(tasks: QueueTask[]) => void>();
+  const recent: { time: number; tokens: number }[] = [];
+  let running = 0;
+  let nextId = 1;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  const retryTimers = new Map<ReturnType<typeof setTimeout>, PendingTask>();
+  let paused = false;
+  let cancelled = false;
+
+  const notify = () => {
+    const snapshot = tasks.map(t => ({ ...t }));
+    listeners.forEach(l => l(snapshot));
+  };
+
+  const pruneWindow = (now: number) => {
+    while (recent.length > 0 && now - recent[0].time >= WINDOW_MS) recent.shift();
+  };
+
+  // Returns 0 when a request with the given token estimate may start now,
+  // otherwise the number of ms until the window frees up enough capacity.
+  const rateLimitDelay = (estimatedTokens: number, now: number): number => {
+    pruneWindow(now);
+    let delay = 0;
+
+    if (options.requestsPerMinute > 0 && recent.length >= options.requestsPerMinute) {
+      const oldest = recent[recent.length - options.requestsPerMinute];
+      delay = Math.max(delay, oldest.time + WINDOW_MS - now);
+    }
+
+    if (options.tokensPerMinute > 0 && recent.length > 0) {
+      let used = recent.reduce((sum, w) => sum + w.tokens, 0);
+      // Drop the oldest entries until the new request fits in the budget
+      for (const entry of recent) {
+        if (used + estimatedTokens <= options.tokensPerMinute) break;
+        used -= entry.tokens;
+        delay = Math.max(delay, entry.time + WINDOW_MS - now);
+      }
+    }
+
+    return delay;
+  };
+
+  const schedulePump = (delay: number) => {
+    if (wakeTimer) clearTimeout(wakeTimer);
+    wakeTimer = setTimeout(() => {
+      wakeTimer = null;
+      pump();
+    }, delay);
+  };
+
+  const execute = async (pending: PendingTask) => {
+    const { task } = pending;
+    running++;
+    task.status = 'running';
+    task.attempts++;
+    task.startedAt = Date.now();
+    task.nextAttemptAt = undefined;
+    recent.push({ time: Date.now(), tokens: pending.estimatedTokens });
+    notify();
+
+    try {
+      const result = await pending.fn();
+      task.status = 'done';
+      task.error = undefined;
+      pending.resolve(result);
+    } catch (error: any) {
+      task.error = error?.message || String(error);
+
+      if (isRetryableError(error) && task.attempts <= options.maxRetries) {
+        const delay = getBackoffDelay(error, task.attempts, options);
+        task.status = 'retrying';
+        task.nextAttemptAt = Date.now() + delay;
+        const timer = setTimeout(() => {
+          retryTimers.delete(timer);
+          // Retries go to the front so a struggling chunk doesn't wait behind the whole book
+          task.status = 'queued';
+          queue.unshift(pending);
+          notify();
+          pump();
+        }, delay);
+        retryTimers.set(timer, pending);
+      } else {
+        task.status = 'failed';
+        pending.reject(error);
+      }
+    } finally {
+      running--;
+      notify();
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (paused || cancelled) return;
+    while (running < options.concurrency && queue.length > 0) {
+      const next = queue[0];
+      const delay = rateLimitDelay(next.estimatedTokens, Date.now());
+
+      if (delay > 0) {
+        if (next.task.status !== 'waiting') {
+          next.task.status = 'waiting';
+          notify();
+        }
+        next.task.nextAttemptAt = Date.now() + delay;
+        schedulePump(delay);
+        return;
+      }
+
+      queue.shift();
+      execute(next);
+    }
+  };
+
+  return {
+    run: <T>(label: string, estimatedTokens: number, fn: () => Promise<T>) => {
+      return new Promise<T>((resolve, reject) => {
+        if (cancelled) {
+          reject(cancelledError());
+          return;
+        }
+        const task: QueueTask = { id: nextId++, label, status: 'queued', attempts: 0 };
+        tasks.push(task);
+        queue.push({ task, estimatedTokens, fn, resolve, reject });
+        notify();
+        pump();
+      });
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    pause: () => {
+      paused = true;
+      if (wakeTimer) {
+        clearTimeout(wakeTimer);
+        wakeTimer = null;
+      }
+    },
+
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      pump();
+    },
+
+    cancel: () => {
+      cancelled = true;
+      if (wakeTimer) clearTimeout(wakeTimer);
+      retryTimers.forEach((pending, timer) => {
+        clearTimeout(timer);
+        queue.push(pending);
+      });
+      retryTimers.clear();
+
+      queue.splice(0).forEach(pending => {
+        pending.task.status = 'failed';
+        pending.task.error = 'Cancelled';
+        pending.reject(cancelledError());
+      });
+      notify();
+    }
+  };
+};
@@ -0,0 +1,264 @@
+import { BookChapter, BookDocument, MatterKind } from '../types';
+import { cleanPdfText, documentToText } from './fileParser';
+
+// --- Text cleaning ---
+// Runs between parseFile and chunking. Removes running headers, footers and page numbers,
+// joins words hyphenated at line breaks of PDF pages, and marks pages that carry no book content
+// (table of contents, index, bibliography, copyright) so the run leaves them out.
+
+export interface CleaningReport {
+  // Characters of documentToText before and after cleaning
+  before: number;
+  after: number;
+  headerLines: number;
+  hyphenations: number;
+  // Characters per kind of marked pages, included in `after`
+  marked: Partial<Record<MatterKind, number>>;
+}
+
+export interface CleanedDocument {
+  document: BookDocument;
+  report: CleaningReport;
+}
+
+// Lines looked at on each side of a page
+const EDGE_LINES = 2;
+// A header must repeat on this many pages, some of them close together
+const MIN_HEADER_PAGES = 3;
+const MAX_HEADER_GAP = 2;
+// Running headers are short; longer edge lines are body text
+const MAX_HEADER_CHARS = 100;
+// Only short pages made mostly of short lines are taken for a copyright page
+const COPYRIGHT_MAX_CHARS = 3000;
+const COPYRIGHT_LINE_CHARS = 80;
+const COPYRIGHT_SHORT_SHARE = 0.6;
+// Untitled non-PDF sections longer than this are never marked from their content
+const MAX_MATTER_SECTION = 20000;
+// Pages or sections a book needs before any of them is marked from its content
+const MIN_SECTIONS = 3;
+
+// "12", "- 12 -", "Page 12", "12 / 300"
+const PAGE_NUMBER_RE = /^(?:[-–—]\s*)?(?:(?:page|p\.|pp\.|стр\.?|с\.|s\.|seite|página|pagina|strona|сторінка)\s*)?\d{1,4}(?:\s*(?:\/|of|из|de|von|di|z|з)\s*\d{1,4})?(?:\s*[-–—])?$/i;
+// "xiv"; only taken for a page number when such lines recur on nearby pages
+const ROMAN_PAGE_RE = /^[ivxlc]{1,6}$/;
+// "Chapter 1 ....... 12", "Chapter 1\t12"
+const TOC_LINE_RE = /\S.*?(?:(?:\s*\.){2,}|…+|\t)\s*(?:\d{1,4}|[ivxlc]{1,6})$/;
+// "Chapter 1 12", counted only under a contents heading
+const TOC_BARE_LINE_RE = /\S.*\s(?:\d{1,4}|[ivxlc]{1,6})$/;
+// "Aristotle, 12, 45–47"
+const INDEX_LINE_RE = /^\p{L}[^,]*,\s*\d{1,4}(?:\s*[-–]\s*\d{1,4})?(?:\s*[,;]\s*\d{1,4}(?:\s*[-–]\s*\d{1,4})?)*\.?$/u;
+const YEAR_RE = /\b(?:1[5-9]|20)\d{2}[a-z]?\b/;
+const COPYRIGHT_RE = /©|\(c\)\s*\d{4}|copyright|all rights reserved|isbn[\s:-]*[\dx-]{10,}|все права защищены|todos los derechos|alle rechte vorbehalten|tous droits réservés|tutti i diritti|todos os direitos|wszelkie prawa|усі права|版权所有|無断転載/i;
+// A word, a hyphen (or soft hyphen) and a line break, followed by a word starting in lowercase
+const HYPHENATION_RE = /(\p{L}+)([-\u00AD])[ \t]*\n\s*(\p{Ll}\p{L}*)/gu;
+// "self-awareness" inside a line
+const COMPOUND_RE = /\p{L}+-\p{L}+/gu;
+
+// Headings that open such pages, lowercased, in the supported languages
+const MATTER_HEADINGS: Record<MatterKind, string[]> = {
+  toc: [
+    'contents', 'table of contents', 'содержание', 'оглавление', 'índice', 'contenido', 'inhalt', 'inhaltsverzeichnis',
+    'table des matières', 'sommaire', 'indice', 'sommario', 'sumário', 'spis treści', 'зміст', '目录', '目次'
+  ],
+  index: [
+    'index', 'subject index', 'name index', 'указатель', 'предметный указатель', 'именной указатель', 'índice alfabético',
+    'índice analítico', 'stichwortverzeichnis', 'sachregister', 'index analytique', 'indice analitico',
+    'índice remissivo', 'indeks', 'покажчик', '索引'
+  ],
+  bibliography: [
+    'bibliography', 'references', 'works cited', 'список литературы', 'библиография',
+    'bibliografía', 'referencias', 'literaturverzeichnis', 'bibliographie', 'références', 'bibliografia',
+    'riferimenti bibliografici', 'referências', 'referências bibliográficas', 'список літератури', '参考文献'
+  ],
+  copyright: ['copyright', 'impressum', 'выходные данные', 'mentions légales', '版权', '版权页', '奥付']
+};
+
+// Also ordinary chapter titles ("Literature" in a book about it), so the content has to agree
+const AMBIGUOUS_HEADINGS: Partial<Record<MatterKind, string[]>> = {
+  index: ['register'],
+  bibliography: ['literature', 'literatur', 'литература', 'література']
+};
+
+const headingKind = (line = '', headings: Partial<Record<MatterKind, string[]>> = MATTER_HEADINGS): MatterKind | null => {
+  const key = line.toLowerCase().replace(/^[\d.\s]+/, '').replace(/[\s.:·]+$/, '');
+  const kinds = Object.keys(headings) as MatterKind[];
+  return kinds.find(kind => headings[kind]?.includes(key)) || null;
+};
+
+const isPageNumber = (line: string, roman: boolean): boolean => PAGE_NUMBER_RE.test(line) || (roman && ROMAN_PAGE_RE.test(line));
+
+// Page numbers inside headers ("Chapter 3 · 47") must not keep repeats apart
+const headerKey = (line: string): string => line.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+
+const nonEmptyLines = (text: string): string[] => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+// Indexes of the lines at the top and bottom of a page
+const edgeIndexes = (lines: string[]): number[] => {
+  const filled = lines.map((line, i) => line.trim() ? i : -1).filter(i => i >= 0);
+  return Array.from(new Set([...filled.slice(0, EDGE_LINES), ...filled.slice(-EDGE_LINES)]));
+};
+
+// Running headers and footers: edge lines with letters that recur on nearby pages
+const findRepeatedLines = (pages: string[]): Set<string> => {
+  const seen = new Map<string, number[]>();
+  pages.forEach((page, pageIdx) => {
+    const lines = page.split('\n');
+    const keys = new Set(edgeIndexes(lines)
+      .map(i => lines[i].trim())
+      .filter(line => line.length <= MAX_HEADER_CHARS && /\p{L}/u.test(line))
+      .map(headerKey));
+    keys.forEach(key => seen.set(key, [...(seen.get(key) || []), pageIdx]));
+  });
+
+  const repeated = new Set<string>();
+  seen.forEach((onPages, key) => {
+    const closePairs = onPages.filter((p, i) => i > 0 && p - onPages[i - 1] <= MAX_HEADER_GAP).length;
+    if (onPages.length >= MIN_HEADER_PAGES && closePairs >= MIN_HEADER_PAGES - 1) repeated.add(key);
+  });
+  return repeated;
+};
+
+// Roman page numbers, like running headers, must show up on several nearby pages
+const hasRomanPageNumbers = (pages: string[]): boolean => {
+  const onPages = pages
+    .map((page, pageIdx) => {
+      const lines = page.split('\n');
+      return edgeIndexes(lines).some(i => ROMAN_PAGE_RE.test(lines[i].trim())) ? pageIdx : -1;
+    })
+    .filter(pageIdx => pageIdx >= 0);
+  const closePairs = onPages.filter((p, i) => i > 0 && p - onPages[i - 1] <= MAX_HEADER_GAP).length;
+  return onPages.length >= MIN_HEADER_PAGES && closePairs >= MIN_HEADER_PAGES - 1;
+};
+
+const stripEdges = (page: string, repeated: Set<string>, roman: boolean): { text: string; removed: number } => {
+  const lines = page.split('\n');
+  const drop = new Set(edgeIndexes(lines).filter(i => {
+    const line = lines[i].trim();
+    return isPageNumber(line, roman) || repeated.has(headerKey(line));
+  }));
+  return { text: lines.filter((_, i) => !drop.has(i)).join('\n'), removed: drop.size };
+};
+
+const lineShare = (lines: string[], re: RegExp): number =>
+  lines.length > 0 ? lines.filter(line => re.test(line)).length / lines.length : 0;
+
+// `position` is where the page sits in the book (0..1); `previous` is the kind of the page before,
+// so a TOC or bibliography running over several pages is followed past its heading page
+const classifyPage = (text: string, position: number, previous: MatterKind | null): MatterKind | null => {
+  const lines = nonEmptyLines(text);
+  if (lines.length === 0) return null;
+  const heading = headingKind(lines[0]) || headingKind(lines[1]);
+  const looseHeading = headingKind(lines[0], AMBIGUOUS_HEADINGS) || headingKind(lines[1], AMBIGUOUS_HEADINGS);
+  const nearStart = position < 0.15;
+  const nearEnd = position > 0.6;
+  const atEdge = position < 0.1 || position > 0.9;
+
+  const shortShare = lines.filter(line => line.length <= COPYRIGHT_LINE_CHARS).length / lines.length;
+  if (atEdge && text.length < COPYRIGHT_MAX_CHARS && shortShare >= COPYRIGHT_SHORT_SHARE && (heading === 'copyright' || COPYRIGHT_RE.test(text))) return 'copyright';
+
+  // Lines without a leader only count below a contents heading or on the pages after it
+  const tocShare = lineShare(lines, heading === 'toc' || previous === 'toc' ? TOC_BARE_LINE_RE : TOC_LINE_RE);
+  if ((heading === 'toc' && (nearStart || nearEnd)) || (lines.length >= 5 && tocShare >= 0.5 && (nearStart || previous === 'toc'))) return 'toc';
+  if (previous === 'toc' && tocShare >= 0.3) return 'toc';
+
+  const indexShare = lineShare(lines, INDEX_LINE_RE);
+  const indexHeading = heading === 'index' || (looseHeading === 'index' && indexShare >= 0.25);
+  if (nearEnd && (indexHeading || (lines.length >= 8 && indexShare >= 0.4))) return 'index';
+  if (previous === 'index' && indexShare >= 0.25) return 'index';
+
+  const yearShare = lineShare(lines, YEAR_RE);
+  const bibliographyHeading = heading === 'bibliography' || (looseHeading === 'bibliography' && yearShare >= 0.3);
+  if (position > 0.5 && bibliographyHeading) return 'bibliography';
+  if (previous === 'bibliography' && yearShare >= 0.3) return 'bibliography';
+
+  return null;
+};
+
+// A chapter titled like such a section is marked only where the section belongs,
+// and an ambiguous title only when the chapter reads like it
+const classifyTitled = (title: string, text: string, position: number): MatterKind | null => {
+  if (!headingKind(title) && !headingKind(title, AMBIGUOUS_HEADINGS)) return null;
+  return classifyPage(`${title}\n${text}`, position, null);
+};
+
+// Hyphenated words the book prints inside a line, lowercased
+const findCompounds = (pages: string[]): Set<string> =>
+  new Set(pages.flatMap(page => page.match(COMPOUND_RE) || []).map(word => word.toLowerCase()));
+
+// A word the book also prints with a hyphen elsewhere keeps it, so "self-\nawareness" stays "self-awareness"
+const dehyphenate = (text: string, compounds: Set<string>): { text: string; count: number } => {
+  let count = 0;
+  const joined = text.replace(HYPHENATION_RE, (_, a: string, hyphen: string, b: string) => {
+    count++;
+    return hyphen === '-' && compounds.has(`${a}-${b}`.toLowerCase()) ? `${a}-${b}` : a + b;
+  });
+  return { text: joined.replace(/\u00AD/g, ''), count };
+};
+
+export const cleanDocument = (doc: BookDocument): CleanedDocument => {
+  const before = documentToText(doc).length;
+  const allPages = doc.chapters.flatMap(c => c.pages || []);
+  const repeated = findRepeatedLines(allPages);
+  const roman = hasRomanPageNumbers(allPages);
+  const compounds = findCompounds(allPages);
+  // A short book (a single TXT section, a two-page PDF) is all content
+  const byContent = (allPages.length || doc.chapters.length) >= MIN_SECTIONS;
+  let headerLines = 0;
+  let hyphenations = 0;
+  let pageOffset = 0;
+  let previous: MatterKind | null = null;
+  const chapters: BookChapter[] = [];
+
+  const pushChapter = (title: string, text: string, matter: MatterKind | null) => {
+    if (text) chapters.push(matter ? { title, text, matter } : { title, text });
+  };
+
+  doc.chapters.forEach((chapter, chapterIdx) => {
+    const position = chapter.pages ? pageOffset / allPages.length : chapterIdx / doc.chapters.length;
+    const titled = chapter.title ? classifyTitled(chapter.title, chapter.text, position) : null;
+
+    if (!chapter.pages) {
+      // Other formats have no pages: sections are marked by title, or by content when short and untitled
+      const untitled = byContent && !chapter.title && chapter.text.length <= MAX_MATTER_SECTION
+        ? classifyPage(chapter.text, position, null)
+        : null;
+      pushChapter(chapter.title, chapter.text, titled || untitled);
+      return;
+    }
+
+    // Runs of pages of the same kind become chapters of their own
+    let run: string[] = [];
+    let runKind: MatterKind | null = null;
+    const flush = () => {
+      if (run.length === 0) return;
+      // Only PDF pages carry the line breaks of the printed layout; other formats keep their hyphens
+      const { text, count } = dehyphenate(cleanPdfText(run.join('\n\n')), compounds);
+      hyphenations += count;
+      pushChapter(chapter.title, text, runKind);
+      run = [];
+    };
+
+    chapter.pages.forEach(page => {
+      const { text, removed } = stripEdges(page, repeated, roman);
+      headerLines += removed;
+      const kind = titled || (byContent ? classifyPage(text, pageOffset / allPages.length, previous) : null);
+      pageOffset++;
+      previous = kind;
+      if (kind !== runKind) flush();
+      runKind = kind;
+      run.push(text);
+    });
+    flush();
+  });
+
+  const document = { ...doc, chapters };
+  const marked: CleaningReport['marked'] = {};
+  chapters.forEach(c => {
+    if (c.matter) marked[c.matter] = (marked[c.matter] || 0) + c.text.length;
+  });
+
+  return {
+    document,
+    report: { before, after: documentToText(document).length, headerLines, hyphenations, marked }
+  };
+};
@@ -0,0 +1,121 @@
+import { HistoryItem, ModelPrice, PhaseUsage, PriceTable, TokenCounts, UsagePhase } from '../types';
+import { CONSOLIDATION_GROUP_SIZE, EXTRACT_OUTPUT_RATIO, STREAM_OUTPUT_RATIO } from '../constants';
+import { planConsolidation } from './consolidation';
+import { LLMProvider } from './llmProvider';
+import { RequestScheduler } from './scheduler';
+
+// --- Token accounting and cost ---
+// Every model call adds its input, output and thinking tokens to the phase it belongs to.
+// Costs are computed on display from the price table, so editing a price updates old entries too.
+
+export const EMPTY_COUNTS: TokenCounts = { input: 0, output: 0, thinking: 0 };
+
+export const addCounts = (a: TokenCounts, b: TokenCounts): TokenCounts => ({
+  input: a.input + b.input,
+  output: a.output + b.output,
+  thinking: a.thinking + b.thinking
+});
+
+// Drops extra fields such as LLMUsage.totalTokens before storing
+export const toCounts = ({ input, output, thinking }: TokenCounts): TokenCounts => ({ input, output, thinking });
+
+export const totalTokens = (counts: TokenCounts): number => counts.input + counts.output + counts.thinking;
+
+export const addPhaseUsage = (usage: PhaseUsage, phase: UsagePhase, counts: TokenCounts): PhaseUsage => ({
+  ...usage,
+  [phase]: addCounts(usage[phase] || EMPTY_COUNTS, counts)
+});
+
+export const sumUsage = (usage: PhaseUsage): TokenCounts =>
+  Object.values(usage).reduce<TokenCounts>((sum, counts) => addCounts(sum, counts || EMPTY_COUNTS), EMPTY_COUNTS);
+
+// One line per phase: input / output / thinking
+export const describeUsage = (usage: PhaseUsage): string =>
+  (Object.keys(usage) as UsagePhase[])
+    .filter(phase => usage[phase])
+    .map(phase => {
+      const c = usage[phase]!;
+      return `${phase}: ${c.input.toLocaleString()} / ${c.output.toLocaleString()} / ${c.thinking.toLocaleString()}`;
+    })
+    .join('\n');
+
+export const findPrice = (model: string, table: PriceTable): ModelPrice | undefined => {
+  const name = model.toLowerCase();
+  return table.prices
+    .filter(p => p.model && name.startsWith(p.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+export const costOf = (counts: TokenCounts, price: ModelPrice): number =>
+  (counts.input * price.input + (counts.output + counts.thinking) * price.output) / 1000000;
+
+// Null when the entry predates the per-phase breakdown or its model has no price
+export const itemCost = (item: Pick<HistoryItem, 'model' | 'usage'>, table: PriceTable): number | null => {
+  const price = findPrice(item.model, table);
+  if (!item.usage || !price) return null;
+  return costOf(sumUsage(item.usage), price);
+};
+
+export const formatCost = (amount: number, currency: string): string => {
+  const digits = amount > 0 && amount < 1 ? 4 : 2;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: digits }).format(amount);
+  } catch (e) {
+    // Not an ISO currency code, e.g. "credits"
+    return `${amount.toFixed(digits)} ${currency}`;
+  }
+};
+
+// --- Pre-run estimate ---
+
+export interface PromptTokenCounts {
+  system: number;
+  consolidate: number;
+  polish: number;
+  // Phase 1 prompt of every part, including the part text
+  parts: number[];
+  // False when the provider has no counting API and the counts are estimated
+  exact: boolean;
+}
+
+// Counting calls go through `scheduler`, so a book with many parts keeps to the provider's limits
+export const countRunPrompts = async (
+  llm: LLMProvider,
+  scheduler: RequestScheduler,
+  extractPrompts: string[],
+  systemInstruction: string,
+  consolidatePrompt: string,
+  polishPrompt: string
+): Promise<PromptTokenCounts> => {
+  const [system, consolidate, polish, ...parts] = await Promise.all(
+    [systemInstruction, consolidatePrompt, polishPrompt, ...extractPrompts].map((text, i) =>
+      scheduler.run(`tokens ${i + 1}`, 0, () => llm.countTokens(text))
+    )
+  );
+  return { system, consolidate, polish, parts, exact: llm.id === 'gemini' };
+};
+
+// Phase 1 input is the counted prompts of the parts that will run. Outputs, and so the
+// inputs of the later phases, are projected with fixed ratios; thinking is not predictable.
+export const projectRunUsage = (counts: PromptTokenCounts, parts: number[] = counts.parts): PhaseUsage => {
+  let usage: PhaseUsage = {};
+  let draftTokens = 0;
+  for (const tokens of parts) {
+    const output = Math.round(tokens * EXTRACT_OUTPUT_RATIO);
+    usage = addPhaseUsage(usage, 'extract', { input: tokens + counts.system, output, thinking: 0 });
+    draftTokens += output;
+  }
+
+  for (const level of planConsolidation(parts.length, CONSOLIDATION_GROUP_SIZE)) {
+    const output = Math.round(draftTokens * STREAM_OUTPUT_RATIO);
+    usage = addPhaseUsage(usage, 'consolidate', {
+      input: draftTokens + level.mergeCount * (counts.consolidate + counts.system),
+      output,
+      thinking: 0
+    });
+    draftTokens = output;
+  }
+
+  // Polishing keeps the content, so its output is about as long as its input
+  return addPhaseUsage(usage, 'polish', { input: draftTokens + counts.polish + counts.system, output: draftTokens, thinking: 0 });
+};